@@ -0,0 +1,6 @@
+-- CreateTable
+CREATE TABLE "GameReplay" (
+    "id_game" INTEGER NOT NULL PRIMARY KEY,
+    "replay_json" TEXT NOT NULL,
+    CONSTRAINT "GameReplay_id_game_fkey" FOREIGN KEY ("id_game") REFERENCES "Game" ("id_game") ON DELETE CASCADE ON UPDATE CASCADE
+);
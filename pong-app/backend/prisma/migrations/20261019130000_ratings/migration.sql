@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Rating" (
+    "userId" INTEGER NOT NULL,
+    "game_name" TEXT NOT NULL,
+    "rating" REAL NOT NULL DEFAULT 1500,
+    "rd" REAL NOT NULL DEFAULT 350,
+    "peak" REAL NOT NULL DEFAULT 1500,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "losses" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("userId", "game_name"),
+    CONSTRAINT "Rating_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "RatingHistory" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "game_name" TEXT NOT NULL,
+    "id_game" INTEGER NOT NULL,
+    "rating_before" REAL NOT NULL,
+    "rating_after" REAL NOT NULL,
+    "rd_after" REAL NOT NULL,
+    "change" REAL NOT NULL,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RatingHistory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RatingHistory_id_game_fkey" FOREIGN KEY ("id_game") REFERENCES "Game" ("id_game") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RatingHistory_userId_game_name_idx" ON "RatingHistory"("userId", "game_name");
@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "Tournament" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "code" TEXT NOT NULL,
+    "game_name" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "total_rounds" INTEGER NOT NULL,
+    "total_matches" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'in_progress',
+    "id_winner" INTEGER,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    CONSTRAINT "Tournament_id_winner_fkey" FOREIGN KEY ("id_winner") REFERENCES "TournamentEntrant" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TournamentEntrant" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "id_tournament" INTEGER NOT NULL,
+    "userId" INTEGER,
+    "name" TEXT NOT NULL,
+    "seed" INTEGER NOT NULL,
+    "placement" INTEGER,
+    CONSTRAINT "TournamentEntrant_id_tournament_fkey" FOREIGN KEY ("id_tournament") REFERENCES "Tournament" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TournamentEntrant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TournamentMatch" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "id_tournament" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "id_player1" INTEGER,
+    "id_player2" INTEGER,
+    "id_winner" INTEGER,
+    "p1score" INTEGER,
+    "p2score" INTEGER,
+    "bye" BOOLEAN NOT NULL DEFAULT false,
+    "id_game" INTEGER,
+    CONSTRAINT "TournamentMatch_id_tournament_fkey" FOREIGN KEY ("id_tournament") REFERENCES "Tournament" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TournamentMatch_id_player1_fkey" FOREIGN KEY ("id_player1") REFERENCES "TournamentEntrant" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TournamentMatch_id_player2_fkey" FOREIGN KEY ("id_player2") REFERENCES "TournamentEntrant" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TournamentMatch_id_winner_fkey" FOREIGN KEY ("id_winner") REFERENCES "TournamentEntrant" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TournamentMatch_id_game_fkey" FOREIGN KEY ("id_game") REFERENCES "Game" ("id_game") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tournament_id_winner_key" ON "Tournament"("id_winner");
+
+-- CreateIndex
+CREATE INDEX "Tournament_status_game_name_idx" ON "Tournament"("status", "game_name");
+
+-- CreateIndex
+CREATE INDEX "TournamentEntrant_userId_idx" ON "TournamentEntrant"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentEntrant_id_tournament_seed_key" ON "TournamentEntrant"("id_tournament", "seed");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentMatch_id_game_key" ON "TournamentMatch"("id_game");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentMatch_id_tournament_round_position_key" ON "TournamentMatch"("id_tournament", "round", "position");
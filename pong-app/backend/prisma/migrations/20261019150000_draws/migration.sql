@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "draws" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Rating" ADD COLUMN "draws" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN "id_player3" INTEGER;
+ALTER TABLE "Game" ADD COLUMN "id_player4" INTEGER;
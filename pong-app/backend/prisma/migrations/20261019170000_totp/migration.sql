@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "twoFactorPendingSecret" TEXT;
+ALTER TABLE "User" ADD COLUMN "twoFactorLastStep" INTEGER;
+ALTER TABLE "User" ADD COLUMN "twoFactorMethod" TEXT NOT NULL DEFAULT 'email';
+
+-- Secrets were generated at registration and never confirmed with an authenticator app
+UPDATE "User" SET "twoFactorSecret" = NULL, "twoFactorURL" = NULL, "twoFactorRegistered" = false;
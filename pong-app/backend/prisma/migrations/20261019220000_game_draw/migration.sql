@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN "draw" BOOLEAN NOT NULL DEFAULT false;
+
+-- Draws saved before the column only had the flag in rounds_json (or a "draw" result from POST /game)
+UPDATE "Game" SET "draw" = true
+WHERE json_valid("rounds_json")
+  AND (json_extract("rounds_json", '$.draw') = 1 OR json_extract("rounds_json", '$.result') = 'draw');
@@ -1,29 +1,84 @@
 import { Server } from "socket.io";
-import  { shufflePlayers } from "./PingPongGame"
-import { Player } from "./types/lobby";
+import { Player, Match } from "./types/lobby";
+import { Bracket, MIN_ENTRANTS, TournamentFormat, breakTie, createBracket, isBracketPlaying, publicBracket, seedPlayers,
+         startNextMatch } from "./bracket.js";
+import { getRatings } from "./ratings.js";
+import { TieBreak } from "./matchRules.js";
+import { openTournamentRecord, saveTournamentProgress, linkTournamentGame } from "./tournamentRecords.js";
 import { keyClashRooms, getLobbyState, keyClashTournaments, 
     getTournamentLobbyState, saveGameResult, createGameResult } from "./gameData.js";
 import { PrismaClient } from '@prisma/client';
+import { FastifyInstance } from "fastify";
+import { isResumable, holdSeat, startGraceTimer, reclaimSeat, connectedPlayers, releaseSeats } from "./reconnect.js";
+import { authenticateSockets, socketUserId, socketDisplayName } from "./socketAuth.js";
+
+/*
+ * Prompt modes. Classic prompts one random key at a time, worth a flat point up or down.
+ * The others add streak multipliers: every STREAK_STEP hits in a row add one to the points a hit
+ * is worth, up to MAX_MULTIPLIER, and a miss starts the streak over. On top of that, sequences
+ * prompts several keys to type in order (more of them as the round goes on), speed gives every
+ * prompt a time window that shrinks over the round, and mirror asks for the opposite direction
+ * of the key shown.
+ */
+export const PROMPT_MODES = ["classic", "sequences", "speed", "mirror"] as const;
+
+export type PromptMode = typeof PROMPT_MODES[number];
+
+export function isPromptMode(value: unknown): value is PromptMode {
+    return PROMPT_MODES.includes(value as PromptMode);
+}
+
+// A player's answers over the current round, for the reaction time analytics saved with it
+export interface PromptStats {
+    reactions: number[], // ms from a prompt being issued to its last key being typed
+    hits: number, // right keys
+    misses: number, // wrong keys and prompts that ran out
+    throttled: number, // presses dropped by the rate limit
+}
 
 export interface state {
     id: string,
     score1: number,
     score2: number,
-    prompts: [string, string],
+    prompts: [string, string], // the next key of each player's sequence
     timeLeft: number,
     players: Player[],
-    matches: { player1: Player, player2: Player, p1score: number, p2score: number, winner: Player | null, duration: number }[];
+    matches: Match[];
     interval: NodeJS.Timeout | null,
     player1ready: boolean,
     player2ready: boolean,
     p1: string | null,
     p2: string | null,
-    status: "waiting" | "starting" | "in-progress" | "finished",
+    status: "waiting" | "starting" | "in-progress" | "paused" | "finished",
     mode: "local" | "remote",
 	type: "1v1" | "tournament",
     round: number,
+    spectators: number,
+    private?: boolean, // hidden from the lobby, its id is the invite code
+    size: number, // seats: 2 for a 1v1, the most entrants for a tournament
+    format: TournamentFormat, // how a tournament is played out
+    bracket: Bracket | null, // drawn when a tournament starts
+    tieBreak: TieBreak, // how a round that ends level is decided
+    overtime: "golden-point" | "overtime" | null, // set while a level round is being decided
+    promptMode: PromptMode,
+    sequences: [string[], string[]], // keys each player is prompted to type, in order
+    progress: [number, number], // keys of the sequences typed so far
+    streaks: [number, number], // hits in a row without a miss
+    promptTimers: [NodeJS.Timeout | null, NodeJS.Timeout | null], // speed mode: when the prompts run out
+    promptIssuedAt: [number, number], // server time each prompt was issued at
+    stats: [PromptStats, PromptStats],
 };
 
+const ROUND_SECONDS = 20;
+const OVERTIME_SECONDS = 10;
+
+const STREAK_STEP = 5;
+const MAX_MULTIPLIER = 4;
+const SEQUENCE_LENGTH = { start: 2, end: 4 };
+const PROMPT_WINDOW_MS = { start: 3000, end: 1000 };
+// Key presses a socket may send per second, twice that for the shared keyboard of a local game
+const KEYS_PER_SECOND = 15;
+
 function getPublicState(state: state) {
     return {
       id: state.id,
@@ -45,6 +100,18 @@ function getPublicState(state: state) {
       mode: state.mode,
 	  type: state.type,
       round: state.round,
+      spectators: state.spectators,
+      size: state.size,
+      format: state.format,
+      bracket: publicBracket(state.bracket),
+      tieBreak: state.tieBreak,
+      overtime: state.overtime,
+      promptMode: state.promptMode,
+      sequences: state.sequences,
+      progress: state.progress,
+      streaks: state.streaks,
+      multipliers: state.streaks.map(streak => multiplier(state.promptMode, streak)),
+      promptWindow: promptWindow(state),
     };
 }
 ;
@@ -55,16 +122,84 @@ function getRandomKey(keys: string[]) {
 const arrowKeys = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
 const wasdKeys = ['w', 's', 'a', 'd'];
 
-export function setupKeyClash(io: Server, prisma: PrismaClient) {
+const MIRRORED: Record<string, string> = {
+    w: 's', s: 'w', a: 'd', d: 'a',
+    ArrowUp: 'ArrowDown', ArrowDown: 'ArrowUp', ArrowLeft: 'ArrowRight', ArrowRight: 'ArrowLeft',
+};
+
+// Points a hit is worth after streak hits in a row
+function multiplier(mode: PromptMode, streak: number) {
+    if (mode === "classic")
+        return 1;
+    return Math.min(MAX_MULTIPLIER, 1 + Math.floor(streak / STREAK_STEP));
+}
+
+// Share of the round played so far, from 0 to 1; overtime plays at the end of round pace
+function roundProgress(state: state) {
+    if (state.overtime)
+        return 1;
+    return Math.min(1, Math.max(0, (ROUND_SECONDS - state.timeLeft) / ROUND_SECONDS));
+}
+
+function newSequence(state: state, keys: string[]) {
+    const { start, end } = SEQUENCE_LENGTH;
+    const length = state.promptMode === "sequences" ? start + Math.round((end - start) * roundProgress(state)) : 1;
+    return Array.from({ length }, () => getRandomKey(keys));
+}
+
+// Time to answer a prompt in speed mode, in ms; null in the other modes
+function promptWindow(state: state) {
+    if (state.promptMode !== "speed")
+        return null;
+    const { start, end } = PROMPT_WINDOW_MS;
+    return Math.round(start - (start - end) * roundProgress(state));
+}
+
+export function emptyStats(): PromptStats {
+    return { reactions: [], hits: 0, misses: 0, throttled: 0 };
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number) {
+    return sorted.length ? sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)] : null;
+}
+
+// Reaction time distribution and accuracy of one player over a round
+function summarizeStats(name: string | null, stats: PromptStats) {
+    const sorted = [...stats.reactions].sort((a, b) => a - b);
+    const answered = stats.hits + stats.misses;
+    return {
+        name,
+        prompts: sorted.length,
+        mean: sorted.length ? Math.round(sorted.reduce((sum, t) => sum + t, 0) / sorted.length) : null,
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        accuracy: answered ? Math.round(stats.hits / answered * 1000) / 1000 : null,
+        hits: stats.hits,
+        misses: stats.misses,
+        throttled: stats.throttled,
+    };
+}
+
+// Remote players can answer with either set of keys
+function isKey(state: state, key: string, shown: string) {
+    const expected = state.promptMode === "mirror" ? MIRRORED[shown] : shown;
+    return key === expected || key === arrowKeys[wasdKeys.indexOf(expected)] || key === wasdKeys[arrowKeys.indexOf(expected)];
+}
+
+export function setupKeyClash(io: Server, prisma: PrismaClient, app: FastifyInstance) {
 
     const keyClash = io.of("/keyclash");
+    authenticateSockets(keyClash, prisma, app);
     const lobby = io.of("/quickmatch");
 	const tournament_lobby = io.of("tournament");
 
     keyClash.on("connection", (socket) => {
         console.log(`Player connected on key clash: ${socket.id}`);
 
-        socket.on("join_game_room", (roomId, mode, type, playerId, callback) => {
+        // The player id argument is ignored, the seat belongs to the user of the auth cookie
+        socket.on("join_game_room", (roomId, mode, type, _playerId, callback) => {
+            const playerId = socketUserId(socket);
 			let roomState: state | undefined;
 			if (type === "1v1") {
 				roomState = keyClashRooms.find(r => r.id === roomId);
@@ -79,22 +214,34 @@ export function setupKeyClash(io: Server, prisma: PrismaClient) {
 				}				
 			}
             const state = roomState;            
-            if (state.status !== "waiting") {
+            if (socket.data.spectator)
+                return callback({ error: "You are already watching this game!" });
+            const seat = reclaimSeat(state.players, playerId, socket.id);
+            if (!seat && state.status !== "waiting") {
                 return callback({ error: "The game is full!" });
             }
             socket.data.roomId = roomId;
+            if (seat) {
+                socket.join(roomId);
+                registerPlayerHandlers(seat);
+                resumeRound(state);
+                return;
+            }
             socket.emit("get_names", state.players);
             socket.on("names", (names) => {
+                if (state.players.some(p => p.socketId === socket.id))
+                    return;
+                // Remote seats go by the cookie's username (or a guest label), not the name sent
+                if (state.mode === "remote")
+                    names = { ...names, player1: socketDisplayName(socket) };
                 const p_num = validatePlayerNames(names, type, mode);
                 if (p_num > 0)
                     return callback({ error: `Invalid name for player${p_num}`});
                 const player: Player = { socketId: socket.id, name: names.player1, side: null, playerId: playerId };
 
-                if (state.players.length >= 1 && state.players[0].name === player.name)
-                    return callback({ error: `The name "${player.name}" is already taken`});
-                if (state.players.length >= 2 && state.players[1].name === player.name)
-                    return callback({ error: `The name "${player.name}" is already taken`});
-                if (state.players.length >= 3 && state.players[2].name === player.name)
+                if (state.status !== "waiting" || state.players.length >= state.size)
+                    return callback({ error: "The game is full!" });
+                if (state.players.some(p => p.name === player.name))
                     return callback({ error: `The name "${player.name}" is already taken`});
 
                 if (state.players.length === 0 || (state.players.length === 1 && state.players[0].side === "right")) {
@@ -130,21 +277,18 @@ export function setupKeyClash(io: Server, prisma: PrismaClient) {
 
                 console.log('players: ', state.players);
 
-                if ((state.type === "1v1" && state.players.length < 2) || 
-                (state.type === "tournament" && state.players.length < 4)) {
+                if (state.players.length < state.size) {
                     state.status = "waiting";
                     keyClash.to(roomId).emit("waiting", getPublicState(state));
                 }
                 else {
                     state.status = "starting";
-                    if (state.type === "tournament") {
-						state.round++;
-                        matchmake();
-					}
+                    if (state.type === "tournament")
+                        startBracket(state);
 					else {
 						state.score1 = 0;
                 		state.score2 = 0;
-                		state.timeLeft = 20;
+                		state.timeLeft = ROUND_SECONDS;
 					}
                 }
                 if (type === "1v1")
@@ -153,59 +297,66 @@ export function setupKeyClash(io: Server, prisma: PrismaClient) {
                     tournament_lobby.emit("lobby_update", getTournamentLobbyState());
                 keyClash.to(roomId).emit("gameState", getPublicState(state));
 
-                socket.on("keypress", ({ key }) => {
-                    if (state.timeLeft <= 0 || state.status !== "in-progress") return;
-    
-                    if (mode === "remote") {
-                        if (player.side === "left") {
-                            if (key === state.prompts[0] ||
-                                key === arrowKeys[wasdKeys.indexOf(state.prompts[0])]) {
-                                state.score1++;
-                                state.prompts[0] = getRandomKey(wasdKeys);
-                                keyClash.to(roomId).emit("correctHit", { player: 1 });
-                            } else {
-                                state.score1--;
-                            }
-                        }
-                        if (player.side === "right") {
-                            if (key === state.prompts[1] || 
-                                key === wasdKeys[arrowKeys.indexOf(state.prompts[1])]) {
-                                state.score2++;
-                                state.prompts[1] = getRandomKey(arrowKeys);
-                                keyClash.to(roomId).emit("correctHit", { player: 2 });
-                            } else {
-                                state.score2--;
-                            }
-                        }
-                    }
-                    else {
-                        if (wasdKeys.includes(key)) {
-                            if (key === state.prompts[0]) {
-                                state.score1++;
-                                state.prompts[0] = getRandomKey(wasdKeys);
-                                keyClash.to(roomId).emit("correctHit", { player: 1 });
-                            }
-                            else
-                                state.score1--;
-                        }
-                        else if (arrowKeys.includes(key)) {
-                            if (key === state.prompts[1]) {
-                                state.score2++;
-                                state.prompts[1] = getRandomKey(arrowKeys);
-                                keyClash.to(roomId).emit("correctHit", { player: 2 });
-                            }
-                            else
-                                state.score2--;                     
-                        }
+                registerPlayerHandlers(player);
+            });
+
+            // A seated player can start a remote tournament before it is full, the empty seats become byes
+            socket.on("start_tournament", (startCallback) => {
+                if (typeof startCallback !== "function") return;
+                if (!state.players.some(p => p.socketId === socket.id))
+                    return startCallback({ error: "Join the tournament before starting it" });
+                if (state.type !== "tournament" || state.mode !== "remote" || state.status !== "waiting")
+                    return startCallback({ error: "The tournament has already started" });
+                if (state.players.length < MIN_ENTRANTS)
+                    return startCallback({ error: `A tournament needs at least ${MIN_ENTRANTS} players` });
+                startCallback({});
+                state.status = "starting";
+                startBracket(state);
+            });
+
+            function registerPlayerHandlers(player: Player) {
+                // Server times of this socket's presses over the last second
+                const presses: number[] = [];
+                socket.on("keypress", (press) => {
+                    const key = press?.key;
+                    if (typeof key !== "string") return;
+                    if ((state.timeLeft <= 0 && state.overtime !== "golden-point") || state.status !== "in-progress") return;
+
+                    // Remotely a player answers their own prompt, locally the left player has WASD and the right one the arrows
+                    let index: 0 | 1;
+                    if (state.mode === "remote" && (player.side === "left" || player.side === "right"))
+                        index = player.side === "left" ? 0 : 1;
+                    else if (state.mode === "local" && (wasdKeys.includes(key) || arrowKeys.includes(key)))
+                        index = wasdKeys.includes(key) ? 0 : 1;
+                    else
+                        return;
+                    // Presses past the rate limit are dropped, so mashing keys can't farm points
+                    const now = Date.now();
+                    while (presses.length && presses[0] <= now - 1000)
+                        presses.shift();
+                    if (presses.length >= KEYS_PER_SECOND * (state.mode === "local" ? 2 : 1)) {
+                        state.stats[index].throttled++;
+                        return;
                     }
+                    presses.push(now);
+                    pressKey(state, index, key, now);
+                    // On golden point the first change of score decides the round
+                    if (state.overtime === "golden-point" && state.score1 !== state.score2)
+                        return finishRound(state);
                     keyClash.to(roomId).emit("gameState", getPublicState(state));
                 });
                 
                 socket.on("setReady", () => {
                     if ((state.status !== "starting" && state.status !== "finished") || (state.type === "tournament" && state.status === "finished")) return;
                     if (state.mode === "local")
-                        return startGame();
+                        return startGame(state);
                     if (state.status === "finished") {
+                        if (state.players.length < 2) {
+                            state.status = "waiting";
+                            keyClash.to(roomId).emit("waiting", getPublicState(state));
+                            lobby.emit("lobby_update", getLobbyState());
+                            return;
+                        }
                         state.status = "starting";
                         lobby.emit("lobby_update", getLobbyState());
                     }
@@ -216,106 +367,27 @@ export function setupKeyClash(io: Server, prisma: PrismaClient) {
                     state.score2 = 0;
                     keyClash.to(roomId).emit("gameState", getPublicState(state));
                     if ((state.type === "1v1" && state.players.length === 2 && state.player1ready && state.player2ready) ||
-                    (state.type === "tournament" && state.players.length === 4 && state.player1ready && state.player2ready)) {
-                        startGame();
+                    (state.type === "tournament" && state.bracket && state.player1ready && state.player2ready)) {
+                        startGame(state);
                     }
                 });
-
-            });
-
-            function startGame() {
-                if (state.status === "in-progress") return; // game already running
-
-                state.status = "in-progress";
-				if (type === "1v1") {
-					state.round++;
-					state.matches.push( { player1: state.players[0], player2: state.players[1], 
-                                        p1score: 0, p2score: 0, winner: null, duration: 0 });
-					lobby.emit("lobby_update", getLobbyState());
-				}
-				else
-					tournament_lobby.emit("lobby_update", getTournamentLobbyState());
-                state.score1 = 0;
-                state.score2 = 0;
-                state.timeLeft = 20;
-                state.prompts = [getRandomKey(wasdKeys), getRandomKey(arrowKeys)];
-                keyClash.to(roomId).emit("gameStart", getPublicState(state));
-            
-                state.interval = setInterval(() => {
-                    state.timeLeft--;
-                    if (state.timeLeft <= 0 && state.interval) {
-                        clearInterval(state.interval);
-                        state.interval = null;
-                        state.status = "finished";
-                        state.player1ready = false;
-                        state.player2ready = false;
-                        if (state.score1 > state.score2)
-                            state.matches[state.round - 1].winner = state.matches[state.round - 1].player1;
-                        else
-                            state.matches[state.round - 1].winner = state.matches[state.round - 1].player2; // for now if tie, player2 advances
-                        state.matches[state.round - 1].p1score = state.score1;
-                        state.matches[state.round - 1].p2score = state.score2;
-                        state.matches[state.round - 1].duration = 20;
-                        const result = createGameResult(state.id, "keyclash", state.mode, 
-                                            state.matches[state.round - 1], []);
-                        saveGameResult(result, prisma);                        
-                        if (state.type === "tournament") {
-                            state.round++;
-                            matchmake();
-                            tournament_lobby.emit("lobby_update", getTournamentLobbyState());
-                        }
-						else if (type === "1v1") {
-							lobby.emit("lobby_update", getLobbyState());
-                        }
-                        keyClash.to(roomId).emit("gameOver", getPublicState(state));               
-                    }
-                    else { keyClash.to(roomId).emit("gameState", getPublicState(state)); }
-                }, 1000);
-            };
-        
-            function matchmake() {
-                if (state.round === 1) {
-                    shufflePlayers(state.players);
-                    state.matches.push( { player1: state.players[0], player2: state.players[1], 
-                                        p1score: 0, p2score: 0, winner: null, duration: 0 });
-                    state.matches.push( { player1: state.players[2], player2: state.players[3], 
-                                        p1score: 0, p2score: 0, winner: null, duration: 0 });
-                    state.p1 = state.matches[0].player1.name;
-                    state.p2 = state.matches[0].player2.name;
-                    state.players.forEach(player => {
-                        player.side = null;
-                    });
-                    state.matches[0].player1.side = "left";
-                    state.matches[0].player2.side = "right";
-                }
-                else if (state.round === 2) {
-                    state.p1 = state.matches[1].player1.name;
-                    state.p2 = state.matches[1].player2.name;
-                    state.players.forEach(player => {
-                        player.side = null;
-                    });
-                    state.matches[1].player1.side = "left";
-                    state.matches[1].player2.side = "right";
-                }
-                else if (state.round === 3) {
-                    if (state.matches[0].winner && state.matches[1].winner) {
-                        state.matches.push( { player1: state.matches[0].winner,  player2: state.matches[1].winner, 
-                                            p1score: 0, p2score: 0, winner: null, duration: 0 });
-                        state.p1 = state.matches[2].player1.name;
-                        state.p2 = state.matches[2].player2.name;
-                        state.players.forEach(player => {
-                            player.side = null;
-                        });
-                        state.matches[2].player1.side = "left";
-                        state.matches[2].player2.side = "right";
-                    }
-                }
-                if (state.round <= 3) {
-                    state.status = "starting";
-					state.timeLeft = 20;
-				}
-            };
+            }
         });
+        // Spectators only receive the room's broadcasts; they never get player handlers
+        socket.on("spectate_game_room", (roomId, callback) => {
+            const state = keyClashRooms.find(r => r.id === roomId) ?? keyClashTournaments.find(r => r.id === roomId);
+            if (!state)
+                return callback({ error: "Can't find the key clash game room!" });
+            if (socket.data.roomId)
+                return callback({ error: "You are already in this game!" });
+            socket.data.roomId = roomId;
+            socket.data.spectator = true;
+            socket.join(roomId);
+            state.spectators++;
+            emitLobbyUpdate(state);
+            keyClash.to(roomId).emit("gameState", getPublicState(state));
+        });
+
         socket.on("disconnect", () => {
             console.log(`Player disconnected from key clash: ${socket.id}`);            
             if (!socket.data.roomId) return;
@@ -323,6 +395,19 @@ export function setupKeyClash(io: Server, prisma: PrismaClient) {
             if (!game)
 				game = keyClashTournaments.find(g => g.id === socket.data.roomId);
             if (!game) return;
+
+            if (socket.data.spectator) {
+                game.spectators--;
+                emitLobbyUpdate(game);
+                keyClash.to(game.id).emit("gameState", getPublicState(game));
+                return;
+            }
+
+            const leaving = game.players.find(p => p.socketId === socket.id);
+            if (leaving && canHoldSeat(game, leaving)) {
+                holdKeyClashSeat(game, leaving);
+                return;
+            }
 			
             const playerindex = game.players.findIndex(p => p.socketId === socket.id);
             if (playerindex !== -1) {
@@ -336,8 +421,11 @@ export function setupKeyClash(io: Server, prisma: PrismaClient) {
             if (game.type === "tournament") {
                 if (game.status !== "waiting" || game.players.length === 0 || game.mode === "local") {
                     keyClash.to(game.id).emit("disconnection");
+                    releaseSeats(game.players);
                     const i = keyClashTournaments.findIndex(g => g.id === socket.data.roomId);
                     if (i !== -1) keyClashTournaments.splice(i, 1);
+                    if (game.bracket)
+                        saveTournamentProgress(prisma, game.bracket, true);
                 }
                 if (game.status === "waiting")
                     keyClash.to(socket.data.roomId).emit("waiting", getPublicState(game));
@@ -350,6 +438,7 @@ export function setupKeyClash(io: Server, prisma: PrismaClient) {
                     clearInterval(game.interval);
                     game.interval = null;
                 }
+                clearPromptTimers(game);
                 game.status = "waiting";
                 game.player1ready = false;
                 game.player2ready = false;
@@ -358,12 +447,290 @@ export function setupKeyClash(io: Server, prisma: PrismaClient) {
             lobby.emit("lobby_update", getLobbyState());
     
             if (game.players.length === 0 || game.mode === "local") {
+                releaseSeats(game.players);
                 const i = keyClashRooms.findIndex(g => g.id === socket.data.roomId);
 				if (i !== -1) keyClashRooms.splice(i, 1);
 					lobby.emit("lobby_update", getLobbyState());
             }
         });
     });
+
+    function emitLobbyUpdate(state: state) {
+        if (state.type === "1v1")
+            lobby.emit("lobby_update", getLobbyState());
+        else
+            tournament_lobby.emit("lobby_update", getTournamentLobbyState());
+    }
+
+    function startGame(state: state) {
+        if (state.status === "in-progress") return; // game already running
+
+        state.status = "in-progress";
+        if (state.type === "1v1") {
+            state.round++;
+            state.matches.push( { player1: state.players[0], player2: state.players[1], 
+                                p1score: 0, p2score: 0, winner: null, duration: 0 });
+        }
+        emitLobbyUpdate(state);
+        state.score1 = 0;
+        state.score2 = 0;
+        state.timeLeft = ROUND_SECONDS;
+        state.overtime = null;
+        state.streaks = [0, 0];
+        state.stats = [emptyStats(), emptyStats()];
+        issuePrompt(state, 0);
+        issuePrompt(state, 1);
+        keyClash.to(state.id).emit("gameStart", getPublicState(state));
+        runTimer(state);
+    };
+
+    function runTimer(state: state) {
+        state.interval = setInterval(() => {
+            state.timeLeft--;
+            // Golden point runs on the clock past zero until somebody scores
+            if (state.timeLeft <= 0 && state.interval && state.overtime !== "golden-point") {
+                if (state.score1 === state.score2 && !state.overtime && state.tieBreak !== "draw")
+                    startOvertime(state);
+                else
+                    finishRound(state);
+            }
+            else { keyClash.to(state.id).emit("gameState", getPublicState(state)); }
+        }, 1000);
+    }
+
+    // Gives a player (0 left, 1 right) a new prompt. In speed mode a prompt left unanswered
+    // past its window counts as a miss and is replaced
+    function issuePrompt(state: state, index: 0 | 1) {
+        const sequence = newSequence(state, index === 0 ? wasdKeys : arrowKeys);
+        state.sequences[index] = sequence;
+        state.progress[index] = 0;
+        state.prompts[index] = sequence[0];
+        state.promptIssuedAt[index] = Date.now();
+        const timer = state.promptTimers[index];
+        if (timer)
+            clearTimeout(timer);
+        const window = promptWindow(state);
+        state.promptTimers[index] = window === null ? null : setTimeout(() => {
+            state.promptTimers[index] = null;
+            if (state.status !== "in-progress")
+                return;
+            miss(state, index);
+            issuePrompt(state, index);
+            if (state.overtime === "golden-point" && state.score1 !== state.score2)
+                return finishRound(state);
+            keyClash.to(state.id).emit("gameState", getPublicState(state));
+        }, window);
+    }
+
+    function clearPromptTimers(state: state) {
+        state.promptTimers.forEach(timer => { if (timer) clearTimeout(timer); });
+        state.promptTimers = [null, null];
+    }
+
+    function addScore(state: state, index: 0 | 1, points: number) {
+        if (index === 0) state.score1 += points;
+        else state.score2 += points;
+    }
+
+    // A wrong key costs a point and the streak, and the sequence has to be typed from the start
+    function miss(state: state, index: 0 | 1) {
+        addScore(state, index, -1);
+        state.stats[index].misses++;
+        state.streaks[index] = 0;
+        state.progress[index] = 0;
+        state.prompts[index] = state.sequences[index][0];
+    }
+
+    // A completed sequence is worth a point per key, times the streak multiplier
+    function pressKey(state: state, index: 0 | 1, key: string, now: number) {
+        const sequence = state.sequences[index];
+        if (!isKey(state, key, sequence[state.progress[index]]))
+            return miss(state, index);
+        state.stats[index].hits++;
+        state.progress[index]++;
+        if (state.progress[index] < sequence.length) {
+            state.prompts[index] = sequence[state.progress[index]];
+            return;
+        }
+        state.stats[index].reactions.push(now - state.promptIssuedAt[index]);
+        addScore(state, index, sequence.length * multiplier(state.promptMode, state.streaks[index]));
+        state.streaks[index]++;
+        keyClash.to(state.id).emit("correctHit", { player: index + 1 });
+        issuePrompt(state, index);
+    }
+
+    // A level round goes to its tie break once; a level score after the extra period stands
+    function startOvertime(state: state) {
+        if (state.tieBreak === "golden-point")
+            state.overtime = "golden-point";
+        else {
+            state.overtime = "overtime";
+            state.timeLeft = OVERTIME_SECONDS;
+        }
+        keyClash.to(state.id).emit("gameState", getPublicState(state));
+    }
+
+    // Ends the running match on time, or early when forfeitedBy did not come back in time
+    function finishRound(state: state, forfeitedBy: Player | null = null) {
+        if (state.interval) {
+            clearInterval(state.interval);
+            state.interval = null;
+        }
+        clearPromptTimers(state);
+        const match = state.matches[state.round - 1];
+        state.status = "finished";
+        state.player1ready = false;
+        state.player2ready = false;
+        if (forfeitedBy) {
+            match.forfeitedBy = forfeitedBy;
+            match.winner = forfeitedBy === match.player1 ? match.player2 : match.player1;
+        }
+        else if (state.score1 > state.score2)
+            match.winner = match.player1;
+        else if (state.score2 > state.score1)
+            match.winner = match.player2;
+        else if (state.bracket?.format === "elimination")
+            match.winner = breakTie(state.bracket, match);
+        else
+            match.draw = true;
+        match.p1score = state.score1;
+        match.p2score = state.score2;
+        // timeLeft is below zero once golden point ran past the end of the round
+        match.duration = ROUND_SECONDS + (state.overtime === "overtime" ? OVERTIME_SECONDS : 0) - state.timeLeft;
+        const round = {
+            round: state.round,
+            promptMode: state.promptMode,
+            score: `${match.p1score} - ${match.p2score}`,
+            duration: `${match.duration}s`,
+            winner: match.winner?.name ?? null,
+            players: [summarizeStats(match.player1.name, state.stats[0]), summarizeStats(match.player2.name, state.stats[1])],
+        };
+        const result = createGameResult(state.id, "keyclash", state.mode, match, [round]);
+        const saved = saveGameResult(result, prisma);
+        if (state.type === "tournament") {
+            state.round++;
+            matchmake(state);
+        }
+        if (state.bracket) {
+            saveTournamentProgress(prisma, state.bracket);
+            linkTournamentGame(prisma, state.bracket, match, saved);
+        }
+        emitLobbyUpdate(state);
+        keyClash.to(state.id).emit("gameOver", getPublicState(state));               
+    };
+
+    // Draws the bracket, seeded by the players' Key Clash ratings, and sets up its first match
+    async function startBracket(state: state) {
+        state.round++;
+        const ratings = await getRatings(prisma, "keyclash", state.players).catch((error) => {
+            console.error("Failed to load ratings for seeding:", error);
+            return new Map<number, number>();
+        });
+        if (!keyClashTournaments.includes(state))
+            return;
+        state.bracket = createBracket(seedPlayers(state.players, ratings), state.format);
+        matchmake(state);
+        openTournamentRecord(prisma, "keyclash", state.id, state.mode, state.size, state.bracket);
+        tournament_lobby.emit("lobby_update", getTournamentLobbyState());
+        keyClash.to(state.id).emit("gameState", getPublicState(state));
+    }
+
+    // Seats the next match of the bracket
+    function matchmake(state: state) {
+        if (!state.bracket)
+            return;
+        const match = startNextMatch(state.bracket, state.matches);
+        if (match) {
+            state.p1 = match.player1.name;
+            state.p2 = match.player2.name;
+            state.players.forEach(player => {
+                player.side = null;
+            });
+            match.player1.side = "left";
+            match.player2.side = "right";
+        }
+        if (isBracketPlaying(state.bracket, state.round)) {
+            state.status = "starting";
+            state.timeLeft = ROUND_SECONDS;
+            const waitingFor = state.players.find(p => p.side && p.disconnected);
+            if (waitingFor)
+                startGraceTimer(waitingFor, () => forfeitKeyClash(state, waitingFor));
+        }
+    };
+
+    function canHoldSeat(state: state, player: Player) {
+        if (!isResumable(state.mode, player))
+            return false;
+        if (state.type === "1v1")
+            return ["starting", "in-progress", "paused"].includes(state.status);
+        return state.status !== "waiting" && isBracketPlaying(state.bracket, state.round);
+    }
+
+    // Keeps a dropped player's seat; the round is paused until they reconnect or forfeit
+    function holdKeyClashSeat(state: state, player: Player) {
+        holdSeat(player);
+        if (connectedPlayers(state.players).length === 0) {
+            releaseSeats(state.players);
+            clearPromptTimers(state);
+            const rooms = state.type === "1v1" ? keyClashRooms : keyClashTournaments;
+            const i = rooms.indexOf(state);
+            if (i !== -1) rooms.splice(i, 1);
+            if (state.bracket)
+                saveTournamentProgress(prisma, state.bracket, true);
+            emitLobbyUpdate(state);
+            return;
+        }
+        if (player.side) {
+            if (state.interval) {
+                clearInterval(state.interval);
+                state.interval = null;
+                clearPromptTimers(state);
+                state.status = "paused";
+            }
+            if (player.side === "left") state.player1ready = false;
+            else state.player2ready = false;
+            startGraceTimer(player, () => forfeitKeyClash(state, player));
+        }
+        emitLobbyUpdate(state);
+        keyClash.to(state.id).emit("gameState", getPublicState(state));
+    }
+
+    function resumeRound(state: state) {
+        const waitingFor = state.players.find(p => p.side && p.disconnected);
+        if (!waitingFor && state.status === "paused") {
+            state.status = "in-progress";
+            // Fresh prompts, so a paused speed round does not count the pause against anyone
+            issuePrompt(state, 0);
+            issuePrompt(state, 1);
+            runTimer(state);
+            emitLobbyUpdate(state);
+        }
+        keyClash.to(state.id).emit("gameState", getPublicState(state));
+    }
+
+    function forfeitKeyClash(state: state, player: Player) {
+        // A 1v1 that has not started yet has no match to forfeit, the seat is simply freed
+        if (state.type === "1v1" && state.status === "starting") {
+            removeKeyClashPlayer(state, player);
+            return;
+        }
+        if (!player.side)
+            return;
+        if (state.type === "tournament" && state.status === "starting")
+            state.score1 = state.score2 = 0;
+        finishRound(state, player);
+        if (state.type === "1v1")
+            removeKeyClashPlayer(state, player);
+    }
+
+    function removeKeyClashPlayer(state: state, player: Player) {
+        if (player.side === "left") state.p1 = null;
+        else if (player.side === "right") state.p2 = null;
+        state.players.splice(state.players.indexOf(player), 1);
+        state.status = "waiting";
+        keyClash.to(state.id).emit("waiting", getPublicState(state));
+        lobby.emit("lobby_update", getLobbyState());
+    }
 };
 
 export function validatePlayerNames(players: {player1: string, player2: string, 
@@ -1,30 +1,64 @@
-import { Player } from "./types/lobby";
+import { Player, Match, BotDifficulty, Lane } from "./types/lobby";
+import { MatchRules, DEFAULT_MATCH_RULES, OVERTIME_SECONDS, SURVIVAL_LIVES } from "./matchRules";
+import { Ball, FRONT_LANE_X, Paddle, Rng, SIM_TICK_MS, TABLE_BOUNDS, createRng, serve, step } from "./pongPhysics";
+import { Effect, PowerUp, hasShield, paddleScale, updatePowerUps } from "./pongPowerUps";
+import { Bracket, TournamentFormat, bracketWinner, breakTie, createBracket, isBracketPlaying, roundName, seedPlayers,
+         startNextMatch } from "./bracket";
 
-export function shufflePlayers(array: Player[]) {
+export function shufflePlayers(array: Player[], random: Rng = Math.random) {
     for (let i = array.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(random() * (i + 1));
         [array[i], array[j]] = [array[j], array[i]];
     }
 };
 
+export type PaddleInput = "up" | "down" | "stop";
+
+// Every paddle has its own input: the back ones, and the front ones of players in a team room
+type InputSlot = "left" | "right" | "leftFront" | "rightFront";
+
+function inputSlot(side: "left" | "right", lane: Lane): InputSlot {
+    return lane === "front" ? `${side}Front` : side;
+}
+
+// A game reads the time and random numbers only through these, so a match can be replayed exactly
+export interface GameOptions {
+    clock?: () => DOMHighResTimeStamp;
+    seed?: number;
+}
+
 export interface GameState {
-    ball: { x: number; z: number; vx: number; vz: number, color: number };
-    leftPaddle: { x: number, z: number };
-    rightPaddle: { x: number, z: number };
+    ball: Ball;
+    extraBalls: Ball[];
+    leftPaddle: Paddle;
+    rightPaddle: Paddle;
+    partners: { left: Paddle, right: Paddle } | null; // front lane paddles in doubles
+    powerUps: PowerUp[]; // on the table
+    effects: Effect[];   // taken power-ups still in effect
     status: "waiting" | "in-progress" | "finished" | "paused" | "starting";
     loop: NodeJS.Timeout | undefined;
     timerDisplay: string;
     scoreDisplay: string;
     matchInfo: string;
     players: Player[];
-    matches: { player1: Player, player2: Player, p1score: number, p2score: number, winner: Player | null, duration: number }[];
+    matches: Match[];
     mode: "local" | "remote";
 	type: "1v1" | "tournament";
 	round: number;
     gameEndTime: DOMHighResTimeStamp;
+    overtime: "golden-point" | "overtime" | null; // set while a level match is being decided
     whenPaused: DOMHighResTimeStamp;
     player1ready: boolean;
     player2ready: boolean;
+    inputSeq: Record<InputSlot, number>;
+    serverTime: DOMHighResTimeStamp;
+    spectators: number;
+    rules: MatchRules;
+    bot: BotDifficulty | null; // difficulty of the bot taking the second seat of a local game
+    private: boolean; // hidden from the lobby, its id is the invite code
+    size: number; // seats: 2 for a 1v1, 4 for a team room, the most entrants for a tournament
+    format: TournamentFormat; // how a tournament is played out
+    bracket: Bracket | null; // drawn when a tournament starts
   }
 
 export default class PingPongGame {
@@ -34,19 +68,35 @@ export default class PingPongGame {
     private hitter: number = 0;
     private leftScore: number = 0;
     private rightScore: number = 0;
-    private maxScore = 3;
-    private bounds = { x: 9.6, z: 5.6 };
-    private gameDuration = 120000;
-    private last: DOMHighResTimeStamp;
+    public readonly bounds = TABLE_BOUNDS;
+    public readonly seed: number;
+    public random: Rng;
+    private clock: () => DOMHighResTimeStamp;
+    private inputs: Record<InputSlot, { direction: number, seq: number }> = {
+        left: { direction: 0, seq: 0 }, right: { direction: 0, seq: 0 },
+        leftFront: { direction: 0, seq: 0 }, rightFront: { direction: 0, seq: 0 },
+    };
+    private startTime: DOMHighResTimeStamp;
+    private tick = 0;
+    private matchSeed: number;
     private id: string;
 
-    constructor(id: string, mode: "local" | "remote", type: "1v1" | "tournament") {
+    constructor(id: string, mode: "local" | "remote", type: "1v1" | "tournament", rules: MatchRules = DEFAULT_MATCH_RULES,
+                options: GameOptions = {}) {
         this.id = id;
-        this.last = performance.now(),     
+        this.clock = options.clock ?? (() => performance.now());
+        this.seed = options.seed ?? Math.floor(Math.random() * 0x100000000);
+        this.matchSeed = this.seed;
+        this.random = createRng(this.seed);
+        this.startTime = this.clock();
         this.state = {
-            ball: { x: 0, z: 0, vx: 6.0, vz: 3.5, color: 0xffffff },
+            ball: { x: 0, z: 0, vx: rules.ballSpeed, vz: 3.5, color: 0xffffff },
+            extraBalls: [],
             leftPaddle: { x: -8.2, z: 0 },
             rightPaddle: { x: 8.2, z: 0 },
+            partners: rules.mode === "doubles" ? { left: { x: -FRONT_LANE_X, z: 0 }, right: { x: FRONT_LANE_X, z: 0 } } : null,
+            powerUps: [],
+            effects: [],
             status: "waiting",
             loop: undefined,
             timerDisplay: "",
@@ -57,52 +107,63 @@ export default class PingPongGame {
             mode: mode,
 			type: type,
 			round: 0,
-            gameEndTime: performance.now() + this.gameDuration,
-            whenPaused: performance.now(),
+            gameEndTime: rules.duration === null ? Infinity : this.startTime + rules.duration * 1000,
+            overtime: null,
+            whenPaused: this.startTime,
             player1ready: false,
-            player2ready: false
+            player2ready: false,
+            inputSeq: { left: 0, right: 0, leftFront: 0, rightFront: 0 },
+            serverTime: this.startTime,
+            spectators: 0,
+            rules: { ...rules },
+            bot: null,
+            private: false,
+            // Remote doubles are played 2v2
+            size: type === "tournament" || (mode === "remote" && rules.mode === "doubles") ? 4 : 2,
+            format: "elimination",
+            bracket: null
         };
     }
 
-    public matchmake() {
-        if (this.state.round === 1) {
-            shufflePlayers(this.state.players);
-            this.state.matches.push( { player1: this.state.players[0], player2: this.state.players[1], p1score: 0, p2score: 0, winner: null, duration: 0 });
-            this.state.matches.push( { player1: this.state.players[2], player2: this.state.players[3], p1score: 0, p2score: 0, winner: null, duration: 0 });
-            this.leftPlayer = this.state.matches[0].player1.name;
-            this.rightPlayer = this.state.matches[0].player2.name;
-            this.resetPlayerSides();
-            this.state.matches[0].player1.side = "left";
-            this.state.matches[0].player2.side = "right";
-        }
-        else if (this.state.round === 2) {
-            this.leftPlayer = this.state.matches[1].player1.name;
-            this.rightPlayer = this.state.matches[1].player2.name;
-            this.resetPlayerSides();
-            this.state.matches[1].player1.side = "left";
-            this.state.matches[1].player2.side = "right";
-        }
-        else if (this.state.round === 3) {
-            if (this.state.matches[0].winner && this.state.matches[1].winner) {
-                this.state.matches.push( { player1: this.state.matches[0].winner, player2: this.state.matches[1].winner, p1score: 0, p2score: 0, winner: null, duration: 0 });
-                this.leftPlayer = this.state.matches[2].player1.name;
-                this.rightPlayer = this.state.matches[2].player2.name;
-                this.resetPlayerSides();
-                this.state.matches[2].player1.side = "left";
-                this.state.matches[2].player2.side = "right";
-            }
-        }
-        if (this.state.round <= 3)
-            this.state.matchInfo += `Next up, Round ${this.state.round}/3:\n${this.leftPlayer} vs ${this.rightPlayer}!`;
+    // Seats the next match of the bracket, which the first call draws from the seated players
+    // (seeded by their ratings, by user id)
+    public matchmake(ratings: Map<number, number> = new Map()) {
+        if (!this.state.bracket)
+            this.state.bracket = createBracket(seedPlayers(this.state.players, ratings, this.random), this.state.format);
+        const match = startNextMatch(this.state.bracket, this.state.matches);
+        if (!match)
+            return;
+        this.leftPlayer = match.player1.name;
+        this.rightPlayer = match.player2.name;
+        this.resetPlayerSides();
+        match.player1.side = "left";
+        match.player2.side = "right";
+        this.state.matchInfo += `Next up, ${roundName(this.state.bracket, match)} `
+            + `(match ${this.state.round}/${this.state.bracket.totalMatches}):\n${this.leftPlayer} vs ${this.rightPlayer}!`;
     };
     public getId() { return (this.id); };
-    public setPlayer(side: "left" | "right" | null, name: string | null, socketId: string | null, playerId: number | null){
+    public now() { return (this.clock()); };
+    public getTick() { return (this.tick); };
+    public getMatchSeed() { return (this.matchSeed); };
+    public getScores() { return ({ left: this.leftScore, right: this.rightScore }); };
+    public setPlayer(side: "left" | "right" | null, name: string | null, socketId: string | null, playerId: number | null,
+                     bot?: BotDifficulty){
         if (side === "left")
             this.leftPlayer = name;
         else if (side === "right")
             this.rightPlayer = name;
-        this.state.players.push({ socketId: socketId, name: name, side: side, playerId: playerId });
+        this.state.players.push({ socketId: socketId, name: name, side: side, playerId: playerId, ...(bot && { bot }) });
     };
+    // Seats a player of a team room in one lane of a side
+    public setTeamPlayer(side: "left" | "right", lane: Lane, name: string | null, socketId: string | null,
+                         playerId: number | null) {
+        if (lane === "back")
+            this.setPlayer(side, name, socketId, playerId);
+        else
+            this.state.players.push({ socketId, name, side, playerId });
+        this.state.players[this.state.players.length - 1].lane = lane;
+    };
+    public isTeamPlay() { return (this.state.type === "1v1" && this.state.size === 4); };
 	public updatePlayers() {
 		for (let i = 0; i < this.state.players.length ; i++) {
 			let player = this.state.players[i];
@@ -112,146 +173,284 @@ export default class PingPongGame {
             	this.rightPlayer = player.name;			
 		}
 	};
+    // Paddle intents from the owning client or bot; the paddles themselves are only moved in update()
+    public applyInput(side: "left" | "right", input: PaddleInput, seq: number, speed = 1, lane: Lane = "back") {
+        const slot = inputSlot(side, lane);
+        const current = this.inputs[slot];
+        if (seq <= current.seq)
+            return false;
+        current.seq = seq;
+        this.state.inputSeq[slot] = seq;
+        current.direction = (input === "up" ? -1 : input === "down" ? 1 : 0) * Math.min(1, Math.max(0, speed));
+        return true;
+    };
     public getLeftPlayer() { return (this.leftPlayer) };
     public getRightPlayer() { return (this.rightPlayer) };    
 
+    // Name of a side on the scoreboard: its player, or both players of a team
+    public teamName(side: "left" | "right") {
+        const team = this.state.players.filter(p => p.side === side && p.lane)
+            .sort((a, b) => (a.lane === "back" ? 0 : 1) - (b.lane === "back" ? 0 : 1));
+        if (team.length)
+            return team.map(p => p.name).join(" & ");
+        return side === "left" ? this.leftPlayer : this.rightPlayer;
+    };
+
     public updateScore() {
-         this.state.scoreDisplay = `${this.leftPlayer}: ${this.leftScore}  —  ${this.rightPlayer}: ${this.rightScore}`;   
+        const left = this.teamName("left");
+        const right = this.teamName("right");
+        // In survival a point against a side costs it a life
+        if (this.state.rules.mode === "survival") {
+            const lives = (conceded: number) => "♥".repeat(Math.max(0, SURVIVAL_LIVES - conceded)) || "out";
+            this.state.scoreDisplay = `${left}: ${lives(this.rightScore)}  —  ${right}: ${lives(this.leftScore)}`;
+            return;
+        }
+         this.state.scoreDisplay = `${left}: ${this.leftScore}  —  ${right}: ${this.rightScore}`;   
     };
     public resetGame() {
         this.leftScore = 0;
         this.rightScore = 0;
         this.hitter = 0;
         this.updateScore();
-    
-        this.state.ball.x = 0;
-        this.state.ball.z = 0;
-        this.state.ball.vx = (Math.random() > 0.5 ? 1 : -1) * 6;
-        this.state.ball.vz = (Math.random() - 0.5) * 4;
-        this.state.ball.color = 0xffffff;
+        this.state.ball = serve(this.state.rules, this.random);
+        this.state.extraBalls = [];
+        this.state.powerUps = [];
+        this.state.effects = [];
     
         this.state.leftPaddle.z = 0;
         this.state.rightPaddle.z = 0;
+        if (this.state.partners) {
+            this.state.partners.left.z = 0;
+            this.state.partners.right.z = 0;
+        }
+        this.resetInputs();
     
-        this.last = performance.now();
-        this.state.gameEndTime = this.last + this.gameDuration;
+        this.tick = 0;
+        this.startTime = this.clock();
+        const { duration } = this.state.rules;
+        this.state.gameEndTime = duration === null ? Infinity : this.startTime + duration * 1000;
+        this.state.overtime = null;
+    }
+
+    // Starts the next match: a 1v1 records a new match between the seated players,
+    // a tournament plays the one matchmake() set up for the current round.
+    // Each match gets its own seed, derived from the game seed unless a replay supplies it.
+    public startMatch(seed?: number) {
+        if (this.state.type === "1v1") {
+            const p1 = this.state.players.find(p => p.side === "left" && p.lane !== "front");
+            const p2 = this.state.players.find(p => p.side === "right" && p.lane !== "front");
+            if (!p1 || !p2)
+                return false;
+            const match: Match = { player1: p1, player2: p2, p1score: 0, p2score: 0, winner: null, duration: 0 };
+            // The back lane players stand for their teams, their teammates are kept alongside
+            if (this.isTeamPlay()) {
+                match.partner1 = this.state.players.find(p => p.side === "left" && p.lane === "front") ?? null;
+                match.partner2 = this.state.players.find(p => p.side === "right" && p.lane === "front") ?? null;
+            }
+            this.state.matches.push(match);
+            this.state.round++;
+        }
+        this.matchSeed = seed ?? (this.seed ^ Math.imul(this.state.round, 0x9E3779B9)) >>> 0;
+        this.random = createRng(this.matchSeed);
+        this.state.status = "in-progress";
+        this.resetGame();
+        this.state.player1ready = false;
+        this.state.player2ready = false;
+        this.state.players.forEach(p => { if (p.lane) p.ready = false; });
+        return true;
+    }
+
+    public pause() {
+        this.state.whenPaused = this.clock();
+        this.state.status = "paused";
+    }
+
+    // Moves the clock past a pause so that the paused time counts neither as played nor as elapsed
+    public resume() {
+        const pausedFor = this.clock() - this.state.whenPaused;
+        this.state.gameEndTime += pausedFor;
+        this.startTime += pausedFor;
+        this.state.status = "in-progress";
     }
 
     public update(){
         if (this.state.status !== "in-progress")
             return;
-        const now = performance.now();
-        const totalSecondsLeft = Math.max(0, Math.floor((this.state.gameEndTime - now) / 1000));
-        const minutes = String(Math.floor(totalSecondsLeft / 60)).padStart(2, '0');
-        const seconds = String(totalSecondsLeft % 60).padStart(2, '0');
+        const now = this.clock();
+        this.state.serverTime = now;
+        // Timed matches count down, untimed ones show the time played so far
+        const timed = this.isTimed();
+        const totalSeconds = timed ? Math.max(0, Math.floor((this.state.gameEndTime - now) / 1000))
+                                   : this.elapsedSeconds(now);
+        const minutes = String(Math.floor(totalSeconds / 60)).padStart(2, '0');
+        const seconds = String(totalSeconds % 60).padStart(2, '0');
+        const clock = this.state.overtime === "golden-point" ? "Golden point!"
+                    : this.state.overtime === "overtime" ? `Overtime ${minutes}:${seconds}` : `${minutes}:${seconds}`;
         if (this.state.type === "1v1")
-            this.state.timerDisplay = `${minutes}:${seconds}`;
+            this.state.timerDisplay = clock;
         else
-            this.state.timerDisplay = `Round ${this.state.round}/3 ${minutes}:${seconds}`;
-        if (now >= this.state.gameEndTime) {
-            this.state.status = "finished";
-            let i = this.state.round - 1;
-            this.state.matches[i].p1score = this.leftScore;
-            this.state.matches[i].p2score = this.rightScore;
-            this.state.matches[i].duration = 120;
-            if (this.leftScore > this.rightScore)
-                this.state.matches[i].winner = this.state.matches[i].player1;
-            else if (this.rightScore > this.leftScore)
-                this.state.matches[i].winner = this.state.matches[i].player2;
-            else if (this.state.type === "1v1")
-                this.state.matchInfo = `It's a tie!`;
-            else // for now in a tie in tournament, player 2 advances
-                this.state.matches[i].winner = this.state.matches[i].player2; 
-            if (this.state.type === "1v1" && this.state.matches[i].winner)
-                this.state.matchInfo = `${this.state.matches[i].winner} Wins!`;
-            else if (this.state.type === "tournament") {
-                if (this.state.round < 3)
-                    this.state.matchInfo = `Round ${this.state.round} over! ${this.state.matches[i].winner?.name} Wins!\n`;
-                else
-                    this.state.matchInfo = `Tournament Finished! The winner is: ${this.state.matches[i].winner?.name}!`
+            this.state.timerDisplay = `Match ${this.state.round}/${this.state.bracket?.totalMatches} ${clock}`;
+        if (timed && now >= this.state.gameEndTime) {
+            // A level match goes to its tie break once; a level score after the extra period stands
+            if (this.leftScore === this.rightScore && !this.state.overtime && this.state.rules.tieBreak !== "draw")
+                this.startOvertime(now);
+            else {
+                this.endMatch(now, "Time's up!");
+                return;
             }
-            return;
         }
     
-        const dt = Math.min((now - this.last) / 1000, 0.033);
-        this.last = now;
+        // Physics always advance by one fixed tick, whatever the timer jitter, so matches replay exactly
+        const dt = SIM_TICK_MS / 1000;
+        this.tick++;
     
-        if (this.leftScore >= this.maxScore || this.rightScore >= this.maxScore) {
-            let i = this.state.round - 1;
-            this.state.matches[i].p1score = this.leftScore;
-            this.state.matches[i].p2score = this.rightScore;
-            this.state.matches[i].duration = 120 - totalSecondsLeft;
-            if (this.leftScore > this.rightScore)
-                this.state.matches[i].winner = this.state.matches[i].player1;
-            else
-                this.state.matches[i].winner = this.state.matches[i].player2;
-            if (this.state.type === "1v1")
-                this.state.matchInfo = `Game Over! ${this.state.matches[i].winner.name} Wins!`;
-            else if (this.state.round < 3)
-                this.state.matchInfo = `Round ${this.state.round} over! ${this.state.matches[i].winner.name} Wins!\n`;
-            else
-                this.state.matchInfo = `Tournament Finished! The winner is: ${this.state.matches[2].winner?.name}!`
-            this.state.status = "finished";
+        if (this.reachedScoreLimit() || (this.state.overtime === "golden-point" && this.leftScore !== this.rightScore)) {
+            this.endMatch(now, "Game Over!");
             return;
         }
 
-        // Move ball
-        this.state.ball.z += (this.state.ball.vz * dt);
-        this.state.ball.x += (this.state.ball.vx * dt);
+        const { effects } = this.state;
+        const next = step({
+            ball: this.state.ball,
+            extraBalls: this.state.extraBalls,
+            leftPaddle: this.state.leftPaddle,
+            rightPaddle: this.state.rightPaddle,
+            partners: this.state.partners,
+            paddleScale: { left: paddleScale(effects, "left"), right: paddleScale(effects, "right") },
+            shields: { left: hasShield(effects, "left"), right: hasShield(effects, "right") },
+            hitter: this.hitter,
+            leftScore: this.leftScore,
+            rightScore: this.rightScore,
+        }, {
+            left: this.inputs.left.direction,
+            right: this.inputs.right.direction,
+            ...(this.drivesFrontLane("left") && { leftFront: this.inputs.leftFront.direction }),
+            ...(this.drivesFrontLane("right") && { rightFront: this.inputs.rightFront.direction }),
+        }, dt, this.state.rules, this.random);
+        const scored = next.leftScore !== this.leftScore || next.rightScore !== this.rightScore;
+        this.state.ball = next.ball;
+        this.state.extraBalls = next.extraBalls;
+        this.state.leftPaddle = next.leftPaddle;
+        this.state.rightPaddle = next.rightPaddle;
+        this.state.partners = next.partners;
+        this.hitter = next.hitter;
+        this.leftScore = next.leftScore;
+        this.rightScore = next.rightScore;
+        // A shield is gone once it has sent a ball back
+        this.state.effects = effects.filter(e => e.kind !== "shield" || next.shields[e.side]);
+        if (this.state.rules.powerUps)
+            Object.assign(this.state, updatePowerUps(this.state, this.hitter, this.tick, this.random));
+        if (scored)
+            this.updateScore();
+    }
 
-        // Bounce on table sides (z)
-        if (this.state.ball.z > this.bounds.z || this.state.ball.z < -this.bounds.z) {
-            if (this.state.ball.z > this.bounds.z)
-                this.state.ball.z = this.bounds.z;
-            else if (this.state.ball.z < -this.bounds.z)
-                this.state.ball.z = -this.bounds.z;
-            this.state.ball.vz *= -1;
-        }
+    // Ends the current match in favour of the other side, keeping the score reached so far.
+    // by is the player who gave up, when it is not the one the side is recorded under (a teammate)
+    public forfeit(side: "left" | "right", by?: Player) {
+        const match = this.state.matches[this.state.round - 1];
+        if (!match)
+            return;
+        const started = this.state.status !== "starting";
+        const now = this.state.status === "paused" ? this.state.whenPaused : this.clock();
+        match.p1score = started ? this.leftScore : 0;
+        match.p2score = started ? this.rightScore : 0;
+        match.duration = started ? this.elapsedSeconds(now) : 0;
+        match.forfeitedBy = by ?? (side === "left" ? match.player1 : match.player2);
+        match.winner = side === "left" ? match.player2 : match.player1;
+        this.state.status = "finished";
+        if (this.isFinalMatch())
+            this.state.matchInfo = `${match.forfeitedBy.name} forfeited! The winner is: ${bracketWinner(this.state.bracket)?.name}!`;
+        else
+            this.state.matchInfo = `${match.forfeitedBy.name} forfeited! ${this.winnerName(match)} Wins!`;
+    }
 
-        // Paddle collision
-        if (this.paddleHit(this.state.leftPaddle) && this.state.ball.vx < 0) {
-            this.state.ball.vx *= -1.05;
-            const deltaZ = (this.state.ball.z - this.state.leftPaddle.z) * 2.0;
-            this.state.ball.vz += deltaZ;
-            this.state.ball.color = 0xff6b6b;
-            this.hitter = 1;
+    // Golden point plays on until the next point, overtime adds a fixed period to the clock
+    private startOvertime(now: DOMHighResTimeStamp) {
+        if (this.state.rules.tieBreak === "golden-point") {
+            this.state.overtime = "golden-point";
+            this.state.gameEndTime = Infinity;
         }
-
-        if (this.paddleHit(this.state.rightPaddle) && this.state.ball.vx > 0) {
-            this.state.ball.vx *= -1.05;
-            const deltaZ = (this.state.ball.z - this.state.rightPaddle.z) * 2.0;
-            this.state.ball.vz += deltaZ;
-            this.state.ball.color = 0x6b8cff;
-            this.hitter = 2;
+        else {
+            this.state.overtime = "overtime";
+            this.state.gameEndTime = now + OVERTIME_SECONDS * 1000;
         }
+        this.state.matchInfo = this.state.overtime === "golden-point" ? "Golden point: next point wins!"
+                                                                      : `Overtime: ${OVERTIME_SECONDS} more seconds!`;
+    }
 
-        // Score and reset
-        if (this.state.ball.x < -this.bounds.x || this.state.ball.x > this.bounds.x) {
-            if (this.state.ball.x < -this.bounds.x && this.hitter != 0) {
-                this.hitter = 0;
-                this.rightScore++;
-            } else if (this.state.ball.x > this.bounds.x && this.hitter != 0) {
-                this.hitter = 0;
-                this.leftScore++;
-            }
-            this.updateScore();
-            this.state.ball.x = 0;
-            this.state.ball.z = 0;
-            this.state.ball.vx = (Math.random() > 0.5 ? 1 : -1) * 6;
-            this.state.ball.vz = (Math.random() - 0.5) * 4;
-            this.state.ball.color = 0xffffff;
-        }
+    // Records the result of the current match. A level score is a draw, except in an elimination
+    // bracket where somebody has to go through
+    private endMatch(now: DOMHighResTimeStamp, reason: string) {
+        const match = this.state.matches[this.state.round - 1];
+        match.p1score = this.leftScore;
+        match.p2score = this.rightScore;
+        match.duration = this.elapsedSeconds(now);
+        if (this.leftScore > this.rightScore)
+            match.winner = match.player1;
+        else if (this.rightScore > this.leftScore)
+            match.winner = match.player2;
+        else if (this.state.bracket?.format === "elimination")
+            match.winner = breakTie(this.state.bracket, match);
+        else
+            match.draw = true;
+        const result = match.winner ? `${this.winnerName(match)} Wins!` : "It's a draw!";
+        if (this.state.type === "1v1")
+            this.state.matchInfo = `${reason} ${result}`;
+        else if (!this.isFinalMatch())
+            this.state.matchInfo = `Match ${this.state.round} over! ${result}\n`;
+        else
+            this.state.matchInfo = `Tournament Finished! The winner is: ${bracketWinner(this.state.bracket)?.name}!`
+        this.state.status = "finished";
+    }
+
+    private winnerName(match: Match) {
+        if (!match.winner || this.state.type !== "1v1")
+            return match.winner?.name;
+        return this.teamName(match.winner === match.player1 ? "left" : "right");
+    }
+
+    // A front lane is driven by its own inputs once a player holds it, otherwise the partner follows the ball
+    private drivesFrontLane(side: "left" | "right") {
+        return this.state.players.some(p => p.side === side && p.lane === "front");
+    }
+
+    // True while a tournament has a match left to play (or playing) in its bracket
+    public hasBracketMatch() {
+        return isBracketPlaying(this.state.bracket, this.state.round);
+    }
+
+    private isFinalMatch() {
+        return this.state.type === "tournament" && this.state.round >= (this.state.bracket?.totalMatches ?? 0);
+    }
+
+    // Survival matches run until a side is out of lives, whatever the duration
+    private isTimed() {
+        return this.state.rules.duration !== null && this.state.rules.mode !== "survival";
+    }
+
+    private reachedScoreLimit() {
+        if (this.state.rules.mode === "survival")
+            return Math.max(this.leftScore, this.rightScore) >= SURVIVAL_LIVES;
+        const { scoreLimit, winByTwo } = this.state.rules;
+        if (scoreLimit === null || Math.max(this.leftScore, this.rightScore) < scoreLimit)
+            return false;
+        return !winByTwo || Math.abs(this.leftScore - this.rightScore) >= 2;
+    }
+
+    private elapsedSeconds(now: DOMHighResTimeStamp) {
+        return Math.max(0, Math.floor((now - this.startTime) / 1000));
     }
 
-    private paddleHit(paddle: {x: number, z: number}) {
-        const dx = Math.abs(this.state.ball.x - paddle.x);
-        const dz = Math.abs(this.state.ball.z - paddle.z);
-        return dx < 1.5 && dz < 2.0;
+    private resetInputs() {
+        for (const slot of Object.keys(this.inputs) as InputSlot[])
+            this.inputs[slot] = { direction: 0, seq: 0 };
+        this.state.inputSeq = { left: 0, right: 0, leftFront: 0, rightFront: 0 };
     }
 
     private resetPlayerSides() {
         this.state.players.forEach(player => {
             player.side = null;
         });
+        this.resetInputs();
     }
 }
\ No newline at end of file
@@ -1,36 +1,72 @@
-import { Server } from "socket.io";
+import { Server, Socket } from "socket.io";
 import { pongRooms, pongTournaments, getLobbyState, getTournamentLobbyState,
         saveGameResult, createGameResult } from "./gameData.js";
 import { validatePlayerNames } from "./KeyClashGame";
-import PingPongGame from "./PingPongGame.js";
+import PingPongGame, { PaddleInput } from "./PingPongGame.js";
+import { SIM_TICK_MS, TICKS_PER_SEND, encodeFrame, getKeyframe, getPublicState, takeDelta } from "./pongSnapshot.js";
 import { PrismaClient } from '@prisma/client';
+import { FastifyInstance } from "fastify";
+import { Lane, Player } from "./types/lobby";
+import { isResumable, holdSeat, startGraceTimer, reclaimSeat, connectedPlayers, releaseSeats } from "./reconnect.js";
+import { driveBots, isBotDifficulty, seatBot } from "./pongBot.js";
+import { startRecording, recordInput, recordTick, finishRecording } from "./pongReplay.js";
+import { MIN_ENTRANTS } from "./bracket.js";
+import { getRatings } from "./ratings.js";
+import { authenticateSockets, socketUserId, socketDisplayName } from "./socketAuth.js";
+import { openTournamentRecord, saveTournamentProgress, linkTournamentGame } from "./tournamentRecords.js";
 
-export function setupPongNamespace(io: Server, prisma: PrismaClient) {
+// Most ticks one late timer callback catches up on
+const MAX_CATCH_UP_TICKS = 10;
+
+export function setupPongNamespace(io: Server, prisma: PrismaClient, app: FastifyInstance) {
     const pongNamespace = io.of("/pong");
+    authenticateSockets(pongNamespace, prisma, app);
     const lobbyNamespace = io.of("/quickmatch");
 	const tournamentLobbyNamespace = io.of("/tournament");
 
     pongNamespace.on("connection", (socket) => {
         console.log("Client joined game:", socket.id);
 
-        socket.on("join_game_room", (roomId, playerId, callback) => {
+        // The player id argument is ignored, the seat belongs to the user of the auth cookie
+        socket.on("join_game_room", (roomId, _playerId, callback) => {
+            const playerId = socketUserId(socket);
 			const gameRoom = pongRooms.find(g => g.getId() === roomId)
 			if (!gameRoom){
 				return callback({error: "Can't find the game room!" });
 			}
-			if (gameRoom.state.status !== "waiting") {
+            if (socket.data.spectator)
+                return callback({ error: "You are already watching this game!" });
+            const seat = reclaimSeat(gameRoom.state.players, playerId, socket.id);
+			if (!seat && gameRoom.state.status !== "waiting") {
 				return callback({ error: "The game is full!" });
 			}
             let playerSide: "left" | "right" | null = "left";  
             socket.data.roomId = roomId;
             socket.join(roomId);
-            socket.emit('get_names');
+            sendKeyframe(socket, gameRoom);
+            if (seat) {
+                socket.emit('playerSide', seat.side, seat.lane ?? "back");
+                resumeMatch(gameRoom);
+            }
+            else
+                socket.emit('get_names');
             socket.on('names', (names) => {
-                const p_num = validatePlayerNames(names, gameRoom.state.type, gameRoom.state.mode);
+                if (gameRoom.state.players.some(p => p.socketId === socket.id))
+                    return;
+                // Remote seats go by the cookie's username (or a guest label), not the name sent
+                if (gameRoom.state.mode === "remote")
+                    names = { ...names, player1: socketDisplayName(socket) };
+                // Against the bot only the human's name is needed
+                const p_num = validatePlayerNames(names, gameRoom.state.type, gameRoom.state.bot ? "remote" : gameRoom.state.mode);
                 if (p_num > 0)
                     return callback({ error: `Invalid name for player${p_num}`});
-                if (gameRoom.state.players.length === 1 && gameRoom.state.players[0].name === names.player1)
+                if (gameRoom.state.players.some(p => p.name === names.player1))
                     return callback({ error: `The name "${names.player1}" is already taken`});
+                if (gameRoom.state.status !== "waiting" || gameRoom.state.players.length >= gameRoom.state.size)
+                    return callback({ error: "The game is full!" });
+
+                if (gameRoom.isTeamPlay())
+                    return joinTeam(names.player1);
 
                 if (gameRoom.state.players.length === 1 && gameRoom.state.players[0].side === "left")
                     playerSide = "right"                  
@@ -38,27 +74,48 @@ export function setupPongNamespace(io: Server, prisma: PrismaClient) {
                 gameRoom.setPlayer(playerSide, names.player1, socket.id, playerId);
 
                 if (gameRoom.state.mode === "local"){
-                    gameRoom.setPlayer("right", names.player2, "p2", null);
+                    if (gameRoom.state.bot)
+                        seatBot(gameRoom, "right", gameRoom.state.bot);
+                    else
+                        gameRoom.setPlayer("right", names.player2, "p2", null);
                     playerSide = null;
                     gameRoom.state.timerDisplay = "Press SPACE to Start"
                 }
                 socket.emit('playerSide', playerSide);
                 console.log('players: ', gameRoom.state.players);
+                fillRoom();
+            });
 
-                if (gameRoom.state.players.length === 2) {
+            // Team rooms fill the back lanes first, so both sides have someone in goal
+            const joinTeam = (name: string) => {
+                const slot = openTeamSlot(gameRoom);
+                if (!slot)
+                    return callback({ error: "The game is full!" });
+                const [side, lane] = slot;
+                gameRoom.setTeamPlayer(side, lane, name, socket.id, playerId);
+                socket.emit('playerSide', side, lane);
+                console.log('players: ', gameRoom.state.players);
+                if (gameRoom.state.players.length < gameRoom.state.size)
+                    gameRoom.state.scoreDisplay = `Waiting for players... (${gameRoom.state.players.length}/${gameRoom.state.size})`;
+                fillRoom();
+            };
+
+            const fillRoom = () => {
+                if (gameRoom.state.players.length === gameRoom.state.size) {
 					gameRoom.resetGame();
                     gameRoom.updateScore();
                     gameRoom.state.status = "starting";
                 }
-                pongNamespace.to(roomId).emit('stateUpdate', gameRoom.state);
-                lobbyNamespace.emit("lobby_update", getLobbyState());                            
-            });
+                broadcastState(gameRoom);
+                lobbyNamespace.emit("lobby_update", getLobbyState());
+            };
 
-            socket.on("move", (side, positionZ) => {
-                if (side === "left")
-                    gameRoom.state.leftPaddle.z = positionZ;
-                else if (side === "right")
-                    gameRoom.state.rightPaddle.z = positionZ;
+            socket.on("move", (side, input, seq, lane) => {
+                const paddleLane: Lane = lane === "front" ? "front" : "back";
+                if (!isValidInput(side, input, seq) || !ownsSide(gameRoom, socket.id, side, paddleLane))
+                    return;
+                if (gameRoom.applyInput(side, input as PaddleInput, seq, 1, paddleLane))
+                    recordInput(gameRoom, side, input as PaddleInput, paddleLane);
             });
             socket.on("pause", () => {
 				if (gameRoom.state.mode === "local")
@@ -67,17 +124,18 @@ export function setupPongNamespace(io: Server, prisma: PrismaClient) {
 
             socket.on("setReady", () => {
                 if (gameRoom.state.status === "in-progress" || 
-					gameRoom.state.status === "paused" || gameRoom.state.players.length < 2)
+					gameRoom.state.status === "paused" || gameRoom.state.players.length < gameRoom.state.size)
 					return;
                 if (gameRoom.state.mode === "local")
                     return startGame();
                 if (gameRoom.state.status !== "starting")
                     return;
-                if (playerSide === "left") { gameRoom.state.player1ready = true; }
-                else if (playerSide === "right") { gameRoom.state.player2ready = true; }
-                else return;
-                pongNamespace.to(roomId).emit("stateUpdate", gameRoom.state);
-                if (gameRoom.state.players.length === 2 && 
+                const player = gameRoom.state.players.find(p => p.socketId === socket.id);
+                if (!player?.side)
+                    return;
+                markReady(gameRoom, player);
+                broadcastState(gameRoom);
+                if (gameRoom.state.players.length === gameRoom.state.size && 
                     gameRoom.state.player1ready && gameRoom.state.player2ready) {
                     startGame();
                 }
@@ -86,64 +144,63 @@ export function setupPongNamespace(io: Server, prisma: PrismaClient) {
             socket.on("restart", () => {
 				if (gameRoom.state.mode === "local")
                 	return startGame();
+				if (gameRoom.state.players.length < gameRoom.state.size) {
+					gameRoom.state.status = "waiting";
+					pongNamespace.to(roomId).emit("waiting", getPublicState(gameRoom));
+					lobbyNamespace.emit("lobby_update", getLobbyState());
+					return;
+				}
 				gameRoom.resetGame();
                 gameRoom.updateScore();
 				gameRoom.state.status = "starting";
-				pongNamespace.to(roomId).emit("stateUpdate", gameRoom.state);
+				broadcastState(gameRoom);
 				console.log("remote", gameRoom.state.status);	
             });
 
             function startGame() {
-                if (!gameRoom) return;
-                gameRoom.state.status = "in-progress";
+                if (!gameRoom || gameRoom.state.loop) return;
+                if (!gameRoom.startMatch()) return; // add some error msg?
+                startRecording(gameRoom);
             	lobbyNamespace.emit("lobby_update", getLobbyState());
-                if (!gameRoom.state.loop) {
-					const p1 = gameRoom.state.players.find(p => p.side === "left");
-                    const p2 = gameRoom.state.players.find(p => p.side === "right");
-                    if (!p1 || !p2) return; // add some error msg?
-                    gameRoom.state.matches.push( {player1: p1, player2: p2, p1score: 0, p2score: 0, winner: null, duration: 0 });
-					gameRoom.state.round++;
-                    // Broadcast game state at 60fps
-                    gameRoom.resetGame();
-                    pongNamespace.to(gameRoom.getId()).emit("stateUpdate", gameRoom.state, "start");
-                    gameRoom.state.player1ready = false;
-                    gameRoom.state.player2ready = false;                           
-                    gameRoom.state.loop = setInterval(() => {
-                        gameRoom.update();
-                        pongNamespace.to(gameRoom.getId()).emit("stateUpdate", gameRoom.state);
-                        if (gameRoom.state.status === "finished") {
-                            const result = createGameResult(gameRoom.getId(), "pong", gameRoom.state.mode, 
-                                            gameRoom.state.matches[gameRoom.state.round - 1], []);
-                            saveGameResult(result, prisma);
-                            clearInterval(gameRoom.state.loop);
-                            gameRoom.state.loop = undefined;
-							lobbyNamespace.emit("lobby_update", getLobbyState());
-                        }
-                    }, 1000 / 60);
-                }
+                broadcastState(gameRoom, "start");
+                runLoop(gameRoom);
             };
         });
 
-        socket.on("join_tournament_room", (roomId, playerId, callback) => {
+        // The player id argument is ignored, the seat belongs to the user of the auth cookie
+        socket.on("join_tournament_room", (roomId, _playerId, callback) => {
+            const playerId = socketUserId(socket);
 			const gameRoom = pongTournaments.find(g => g.getId() === roomId)
 			if (!gameRoom){
 				return callback({error: "Can't find the tournament!" });
 			}
-			if (gameRoom.state.status !== "waiting") {
+            if (socket.data.spectator)
+                return callback({ error: "You are already watching this tournament!" });
+            const seat = reclaimSeat(gameRoom.state.players, playerId, socket.id);
+			if (!seat && gameRoom.state.status !== "waiting") {
 				return callback({ error: "The tournament is full!" });
 			}
             socket.data.roomId = roomId;
             socket.join(roomId);        
-            socket.emit('get_names');
+            sendKeyframe(socket, gameRoom);
+            if (seat) {
+                socket.emit('refreshPlayerSides', gameRoom.state.players);
+                resumeMatch(gameRoom);
+            }
+            else
+                socket.emit('get_names');
             socket.on('names', (names) => {
+                if (gameRoom.state.players.some(p => p.socketId === socket.id))
+                    return;
+                // Remote seats go by the cookie's username (or a guest label), not the name sent
+                if (gameRoom.state.mode === "remote")
+                    names = { ...names, player1: socketDisplayName(socket) };
                 const p_num = validatePlayerNames(names, gameRoom.state.type, gameRoom.state.mode);
                 if (p_num > 0)
                     return callback({ error: `Invalid name for player${p_num}`});
-                if (gameRoom.state.players.length >= 1 && gameRoom.state.players[0].name === names.player1)
-                    return callback({ error: `The name "${names.player1}" is already taken`});
-                if (gameRoom.state.players.length >= 2 && gameRoom.state.players[1].name === names.player1)
-                    return callback({ error: `The name "${names.player1}" is already taken`});
-                if (gameRoom.state.players.length === 3 && gameRoom.state.players[2].name === names.player1)
+                if (gameRoom.state.status !== "waiting" || gameRoom.state.players.length >= gameRoom.state.size)
+                    return callback({ error: "The tournament is full!" });
+                if (gameRoom.state.players.some(p => p.name === names.player1))
                     return callback({ error: `The name "${names.player1}" is already taken`});
                 gameRoom.setPlayer(null, names.player1, socket.id, playerId);
                 if (gameRoom.state.mode === "local"){
@@ -154,150 +211,118 @@ export function setupPongNamespace(io: Server, prisma: PrismaClient) {
                 }
                 console.log('players: ', gameRoom.state.players);
             
-                if (gameRoom.state.players.length < 4)
-                    gameRoom.state.scoreDisplay = `Waiting for opponents... (${gameRoom.state.players.length}/4)`;
-                pongNamespace.to(roomId).emit('stateUpdate', gameRoom.state);
-                tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
+                fillTournament(gameRoom);
+            });
+
+            // Any seated player of a remote tournament that is still waiting can fill a seat with a bot
+            socket.on("add_bot", (difficulty, botCallback) => {
+                if (typeof botCallback !== "function") return;
+                if (!isBotDifficulty(difficulty))
+                    return botCallback({ error: "Unknown bot difficulty" });
+                if (!gameRoom.state.players.some(p => p.socketId === socket.id))
+                    return botCallback({ error: "Join the tournament before adding bots" });
+                if (gameRoom.state.status !== "waiting" || gameRoom.state.players.length >= gameRoom.state.size)
+                    return botCallback({ error: "The tournament is full!" });
+                seatBot(gameRoom, null, difficulty);
+                botCallback({});
+                fillTournament(gameRoom);
+            });
+
+            // A seated player can start a remote tournament before it is full, the empty seats become byes
+            socket.on("start_tournament", (startCallback) => {
+                if (typeof startCallback !== "function") return;
+                if (!gameRoom.state.players.some(p => p.socketId === socket.id))
+                    return startCallback({ error: "Join the tournament before starting it" });
+                if (gameRoom.state.mode !== "remote" || gameRoom.state.status !== "waiting")
+                    return startCallback({ error: "The tournament has already started" });
+                if (gameRoom.state.players.length < MIN_ENTRANTS)
+                    return startCallback({ error: `A tournament needs at least ${MIN_ENTRANTS} players` });
+                startCallback({});
+                startBracket(gameRoom);
+            });
+
+            socket.on("setReady", () => {
+                if (gameRoom.state.status !== "starting" || !gameRoom.state.bracket) return;
+                if (gameRoom.state.mode === "local")
+                    return startTournamentMatch(gameRoom);
                 const player = gameRoom.state.players.find(p => p.socketId === socket.id);
-    
-                if (gameRoom.state.players.length === 4) {
-                    gameRoom.state.status = "starting";
-					gameRoom.state.round++;
-                    tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
-                    gameRoom.matchmake();
-                    pongNamespace.to(roomId).emit('refreshPlayerSides', gameRoom.state.players);
-                    gameRoom.updateScore();
-                    pongNamespace.to(roomId).emit('stateUpdate', gameRoom.state);           
-                }
-                socket.on("setReady", () => {
-                    if (gameRoom.state.status !== "starting" || gameRoom.state.players.length < 4) return;
-                    if (gameRoom.state.mode === "local")
-                        return startGame();
-                    if (player?.side === "left") { gameRoom.state.player1ready = true; }
-                    else if (player?.side === "right") { gameRoom.state.player2ready = true; }
-                    else return;
-                    pongNamespace.to(roomId).emit("stateUpdate", gameRoom.state);
-                    if (gameRoom.state.players.length === 4 && 
-                        gameRoom.state.player1ready && gameRoom.state.player2ready) {
-                        startGame();
-                    }
-                });
+                if (player?.side === "left") { gameRoom.state.player1ready = true; }
+                else if (player?.side === "right") { gameRoom.state.player2ready = true; }
+                else return;
+                broadcastState(gameRoom);
+                startIfReady(gameRoom);
             });
 
-            socket.on("move", (side, positionZ) => {
-                if (side === "left")
-                    gameRoom.state.leftPaddle.z = positionZ;
-                else if (side === "right")
-                    gameRoom.state.rightPaddle.z = positionZ;
+            socket.on("move", (side, input, seq) => {
+                if (!isValidInput(side, input, seq) || !ownsSide(gameRoom, socket.id, side))
+                    return;
+                if (gameRoom.applyInput(side, input as PaddleInput, seq))
+                    recordInput(gameRoom, side, input as PaddleInput);
             });
             socket.on("pause", () => {
 				if (gameRoom.state.mode === "local")
                 	togglePause(gameRoom);
             })
-
-            // Broadcast game state at 60fps
-            function startGame() {
-                if (!gameRoom) return;
-                if (!gameRoom.state.loop) {
-                    gameRoom.state.status = "in-progress";
-                    gameRoom.resetGame();
-                    pongNamespace.to(gameRoom.getId()).emit("stateUpdate", gameRoom.state, "start");
-                    gameRoom.state.player1ready = false;
-                    gameRoom.state.player2ready = false;              
-                    gameRoom.state.loop = setInterval(() => {
-                        gameRoom.update();
-                        pongNamespace.to(gameRoom.getId()).emit("stateUpdate", gameRoom.state);
-                        if (gameRoom.state.status === "finished") {
-                            clearInterval(gameRoom.state.loop);
-                            gameRoom.state.loop = undefined;
-                            const result = createGameResult(gameRoom.getId(), "pong", gameRoom.state.mode, 
-                                                            gameRoom.state.matches[gameRoom.state.round - 1], []);
-                            saveGameResult(result, prisma);
-							gameRoom.state.round++;
-                            gameRoom.matchmake();
-                            pongNamespace.to(roomId).emit('refreshPlayerSides', gameRoom.state.players);
-							if (gameRoom.state.round <= 3) {
-                                gameRoom.state.status = "starting";
-                                pongNamespace.to(gameRoom.getId()).emit("stateUpdate", gameRoom.state);
-                            }
-							tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
-                        }
-                    }, 1000 / 60);
-                }
-            }
         });
 
-        function togglePause(gameRoom: PingPongGame) {
-            if (gameRoom?.state.loop) {
-                gameRoom.state.whenPaused = performance.now();
-                clearInterval(gameRoom.state.loop);
-                gameRoom.state.loop = undefined;
-                gameRoom.state.status = "paused";
-                gameRoom.state.scoreDisplay = "PAUSED (press Esc to resume)"
-                pongNamespace.to(gameRoom.getId()).emit("stateUpdate", gameRoom.state);
-				if (gameRoom.state.type === "1v1")
-					lobbyNamespace.emit("lobby_update", getLobbyState());
-				else
-					tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
-            }
-            else if (gameRoom.state.status === "paused"){
-                gameRoom.state.status = "in-progress";
-                gameRoom.updateScore();
-				if (gameRoom.state.type === "1v1")
-					lobbyNamespace.emit("lobby_update", getLobbyState());
-				else
-					tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
-                gameRoom.state.gameEndTime += (performance.now() - gameRoom.state.whenPaused);
-                gameRoom.state.loop = setInterval(() => {
-                    gameRoom.update();
-                    pongNamespace.to(gameRoom.getId()).emit("stateUpdate", gameRoom.state);
-                    if (gameRoom.state.status === "finished") {
-                        clearInterval(gameRoom.state.loop);
-                        gameRoom.state.loop = undefined;
-						if (gameRoom.state.type === "tournament") {
-							gameRoom.state.round++;
-                            gameRoom.matchmake();
-                            pongNamespace.to(gameRoom.getId()).emit('refreshPlayerSides', gameRoom.state.players);
-							if (gameRoom.state.round <= 3) {
-                                gameRoom.state.status = "starting";
-                                pongNamespace.to(gameRoom.getId()).emit("stateUpdate", gameRoom.state);
-							}
-							tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
-						}
-						else
-							lobbyNamespace.emit("lobby_update", getLobbyState());
-                    }
-                }, 1000 / 60);       
-            }
-        };
+        // Spectators only receive the room's broadcasts; they never get move/setReady/pause handlers
+        socket.on("spectate_game_room", (roomId, callback) => {
+            const gameRoom = pongRooms.find(g => g.getId() === roomId) ?? pongTournaments.find(g => g.getId() === roomId);
+            if (!gameRoom)
+                return callback({ error: "Can't find the game room!" });
+            if (socket.data.roomId)
+                return callback({ error: "You are already in this game!" });
+            socket.data.roomId = roomId;
+            socket.data.spectator = true;
+            socket.join(roomId);
+            gameRoom.state.spectators++;
+            sendKeyframe(socket, gameRoom);
+            broadcastState(gameRoom);
+            emitLobbyUpdate(gameRoom);
+        });
 
         socket.on('disconnect', () => {
             if (!socket.data.roomId) return;
             let game = pongRooms.find(g => g.getId() === socket.data.roomId);
             if (!game)
 				game = pongTournaments.find(g => g.getId() === socket.data.roomId);
-			if (!game) return;
+            if (!game) return;
+
+            if (socket.data.spectator) {
+                game.state.spectators--;
+                broadcastState(game);
+                emitLobbyUpdate(game);
+                return;
+            }
+
+            const leaving = game.state.players.find(p => p.socketId === socket.id);
+            if (leaving && canHoldSeat(game, leaving)) {
+                holdPongSeat(game, leaving);
+                return;
+            }
             
             const playerindex = game.state.players.findIndex(p => p.socketId === socket.id);
             if (playerindex !== -1)
                 game.state.players.splice(playerindex, 1);
 
             if (game.state.type === "tournament") {
-                if (game.state.status !== "waiting" || game.state.players.length === 0 || game.state.mode === "local") {
+                if (game.state.status !== "waiting" || game.state.players.every(p => p.bot) || game.state.mode === "local") {
                     pongNamespace.to(game.getId()).emit("disconnection");
                     const i = pongTournaments.findIndex(g => g.getId() === socket.data.roomId);
                     if (i !== -1) pongTournaments.splice(i, 1);
+                    if (game.state.bracket)
+                        saveTournamentProgress(prisma, game.state.bracket, true);
                 }
                 if (game.state.status === "waiting")
-                    pongNamespace.to(game.getId()).emit("waiting", game.state);
+                    pongNamespace.to(game.getId()).emit("waiting", getPublicState(game));
                 tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
                 return;    
             }
-            if (game.state.players.length < 2) {
+            if (game.state.players.length < game.state.size) {
                 clearInterval(game.state.loop)
                 game.state.loop = undefined;
                 game.state.status = "waiting";
-                pongNamespace.to(socket.data.roomId).emit("waiting", game.state);
+                pongNamespace.to(socket.data.roomId).emit("waiting", getPublicState(game));
             }
 			if (game.state.type === "1v1")
             	lobbyNamespace.emit("lobby_update", getLobbyState());
@@ -318,7 +343,261 @@ export function setupPongNamespace(io: Server, prisma: PrismaClient) {
             }
         })
     });  
+
+    function fillTournament(gameRoom: PingPongGame) {
+        if (gameRoom.state.players.length < gameRoom.state.size)
+            gameRoom.state.scoreDisplay = `Waiting for opponents... (${gameRoom.state.players.length}/${gameRoom.state.size})`;
+        broadcastState(gameRoom);
+        tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
+
+        if (gameRoom.state.players.length === gameRoom.state.size)
+            startBracket(gameRoom);
+    }
+
+    // Draws the bracket, seeded by the players' Pong ratings, and sets up its first match
+    async function startBracket(gameRoom: PingPongGame) {
+        gameRoom.state.status = "starting";
+        gameRoom.state.round++;
+        tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
+        const ratings = await getRatings(prisma, "pingpong", gameRoom.state.players).catch((error) => {
+            console.error("Failed to load ratings for seeding:", error);
+            return new Map<number, number>();
+        });
+        if (!pongTournaments.includes(gameRoom))
+            return;
+        gameRoom.matchmake(ratings);
+        openTournamentRecord(prisma, "pingpong", gameRoom.getId(), gameRoom.state.mode, gameRoom.state.size, gameRoom.state.bracket!);
+        pongNamespace.to(gameRoom.getId()).emit('refreshPlayerSides', gameRoom.state.players);
+        gameRoom.updateScore();
+        broadcastState(gameRoom);
+        tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
+        readyBots(gameRoom);
+    }
+
+    // Bots are always ready, so a remote round between two bots starts by itself
+    function readyBots(gameRoom: PingPongGame) {
+        if (gameRoom.state.mode !== "remote")
+            return;
+        for (const player of gameRoom.state.players) {
+            if (player.bot && player.side === "left") gameRoom.state.player1ready = true;
+            else if (player.bot && player.side === "right") gameRoom.state.player2ready = true;
+        }
+        startIfReady(gameRoom);
+    }
+
+    // In a team room a side is ready once both of its players are
+    function markReady(gameRoom: PingPongGame, player: Player) {
+        if (gameRoom.isTeamPlay()) {
+            player.ready = true;
+            const team = gameRoom.state.players.filter(p => p.side === player.side);
+            if (team.length < 2 || !team.every(p => p.ready))
+                return;
+        }
+        if (player.side === "left") gameRoom.state.player1ready = true;
+        else gameRoom.state.player2ready = true;
+    }
+
+    function startIfReady(gameRoom: PingPongGame) {
+        if (gameRoom.state.bracket &&
+            gameRoom.state.player1ready && gameRoom.state.player2ready) {
+            startTournamentMatch(gameRoom);
+        }
+    }
+
+    function startTournamentMatch(gameRoom: PingPongGame) {
+        if (!gameRoom.state.loop) {
+            gameRoom.startMatch();
+            startRecording(gameRoom);
+            broadcastState(gameRoom, "start");
+            runLoop(gameRoom);
+        }
+    }
+
+    function togglePause(gameRoom: PingPongGame) {
+        if (gameRoom?.state.loop) {
+            clearInterval(gameRoom.state.loop);
+            gameRoom.state.loop = undefined;
+            gameRoom.pause();
+            gameRoom.state.scoreDisplay = "PAUSED (press Esc to resume)"
+            broadcastState(gameRoom);
+            emitLobbyUpdate(gameRoom);
+        }
+        else if (gameRoom.state.status === "paused"){
+            gameRoom.resume();
+            gameRoom.updateScore();
+            emitLobbyUpdate(gameRoom);
+            runLoop(gameRoom);
+        }
+    };
+
+    function emitLobbyUpdate(gameRoom: PingPongGame) {
+        if (gameRoom.state.type === "1v1")
+            lobbyNamespace.emit("lobby_update", getLobbyState());
+        else
+            tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
+    }
+
+    function canHoldSeat(gameRoom: PingPongGame, player: Player) {
+        if (!isResumable(gameRoom.state.mode, player))
+            return false;
+        if (gameRoom.state.type === "1v1")
+            return ["starting", "in-progress", "paused"].includes(gameRoom.state.status);
+        return gameRoom.state.status !== "waiting" && gameRoom.hasBracketMatch();
+    }
+
+    // Keeps a dropped player's seat; their match is paused until they reconnect or forfeit
+    function holdPongSeat(gameRoom: PingPongGame, player: Player) {
+        holdSeat(player);
+        if (connectedPlayers(gameRoom.state.players).every(p => p.bot))
+            return removeRoom(gameRoom);
+        if (player.side) {
+            if (gameRoom.state.loop)
+                togglePause(gameRoom);
+            if (player.side === "left") gameRoom.state.player1ready = false;
+            else gameRoom.state.player2ready = false;
+            if (player.lane) player.ready = false;
+            waitForPlayer(gameRoom, player);
+        }
+        broadcastState(gameRoom);
+    }
+
+    function waitForPlayer(gameRoom: PingPongGame, player: Player) {
+        gameRoom.state.scoreDisplay = `${player.name} disconnected, waiting for them to reconnect...`;
+        startGraceTimer(player, () => forfeitPong(gameRoom, player));
+    }
+
+    function resumeMatch(gameRoom: PingPongGame) {
+        const waitingFor = gameRoom.state.players.filter(p => p.side && p.disconnected);
+        if (waitingFor.length)
+            waitForPlayer(gameRoom, waitingFor[0]);
+        else if (gameRoom.state.status === "paused")
+            togglePause(gameRoom);
+        else
+            gameRoom.updateScore();
+        broadcastState(gameRoom);
+    }
+
+    function forfeitPong(gameRoom: PingPongGame, player: Player) {
+        // A 1v1 that has not started yet has no match to forfeit, the seat is simply freed
+        if (gameRoom.state.type === "1v1" && gameRoom.state.status === "starting") {
+            gameRoom.state.players.splice(gameRoom.state.players.indexOf(player), 1);
+            gameRoom.state.status = "waiting";
+            pongNamespace.to(gameRoom.getId()).emit("waiting", getPublicState(gameRoom));
+            lobbyNamespace.emit("lobby_update", getLobbyState());
+            return;
+        }
+        if (!player.side)
+            return;
+        clearInterval(gameRoom.state.loop);
+        gameRoom.state.loop = undefined;
+        gameRoom.forfeit(player.side, player);
+        finishMatch(gameRoom);
+        if (gameRoom.state.type === "1v1") {
+            gameRoom.state.players.splice(gameRoom.state.players.indexOf(player), 1);
+            lobbyNamespace.emit("lobby_update", getLobbyState());
+        }
+    }
+
+    function removeRoom(gameRoom: PingPongGame) {
+        clearInterval(gameRoom.state.loop);
+        gameRoom.state.loop = undefined;
+        releaseSeats(gameRoom.state.players);
+        const rooms = gameRoom.state.type === "1v1" ? pongRooms : pongTournaments;
+        const i = rooms.indexOf(gameRoom);
+        if (i !== -1) rooms.splice(i, 1);
+        if (gameRoom.state.bracket)
+            saveTournamentProgress(prisma, gameRoom.state.bracket, true);
+        emitLobbyUpdate(gameRoom);
+    }
+
+    // Sends the fields that changed since the last broadcast, followed by the position frame
+    function broadcastState(gameRoom: PingPongGame, start?: "start") {
+        const delta = takeDelta(gameRoom);
+        if (delta || start)
+            pongNamespace.to(gameRoom.getId()).emit("delta", delta ?? {}, start);
+        pongNamespace.to(gameRoom.getId()).emit("frame", encodeFrame(gameRoom.state));
+    }
+
+    function sendKeyframe(socket: Socket, gameRoom: PingPongGame) {
+        const { state, frame } = getKeyframe(gameRoom);
+        socket.emit("keyframe", state, frame);
+    }
+
+    // Simulates at a fixed tick and broadcasts every TICKS_PER_SEND ticks. Timers fire late, more so
+    // under load, so each callback runs as many ticks as the time since the last one covers
+    function runLoop(gameRoom: PingPongGame) {
+        let tick = 0;
+        let last = performance.now();
+        let pending = 0;
+        gameRoom.state.loop = setInterval(() => {
+            const now = performance.now();
+            // After a long stall the match skips ahead instead of replaying it all at once
+            pending = Math.min(pending + now - last, MAX_CATCH_UP_TICKS * SIM_TICK_MS);
+            last = now;
+            for (; pending >= SIM_TICK_MS; pending -= SIM_TICK_MS) {
+                driveBots(gameRoom);
+                gameRoom.update();
+                recordTick(gameRoom);
+                if (gameRoom.state.status === "finished") {
+                    clearInterval(gameRoom.state.loop);
+                    gameRoom.state.loop = undefined;
+                    finishMatch(gameRoom);
+                    return;
+                }
+                if (++tick % TICKS_PER_SEND === 0)
+                    broadcastState(gameRoom);
+            }
+        }, SIM_TICK_MS);
+    }
+
+    function finishMatch(gameRoom: PingPongGame) {
+        broadcastState(gameRoom);
+        const match = gameRoom.state.matches[gameRoom.state.round - 1];
+        const result = createGameResult(gameRoom.getId(), "pong", gameRoom.state.mode, match, [], gameRoom.state.rules);
+        const saved = saveGameResult(result, prisma, finishRecording(gameRoom));
+        if (gameRoom.state.type === "1v1") {
+            lobbyNamespace.emit("lobby_update", getLobbyState());
+            return;
+        }
+        gameRoom.state.round++;
+        gameRoom.matchmake();
+        if (gameRoom.state.bracket) {
+            saveTournamentProgress(prisma, gameRoom.state.bracket);
+            linkTournamentGame(prisma, gameRoom.state.bracket, match, saved);
+        }
+        pongNamespace.to(gameRoom.getId()).emit('refreshPlayerSides', gameRoom.state.players);
+        if (gameRoom.hasBracketMatch()) {
+            gameRoom.state.status = "starting";
+            const waitingFor = gameRoom.state.players.find(p => p.side && p.disconnected);
+            if (waitingFor)
+                waitForPlayer(gameRoom, waitingFor);
+            broadcastState(gameRoom);
+            if (!waitingFor)
+                readyBots(gameRoom);
+        }
+        tournamentLobbyNamespace.emit("lobby_update", getTournamentLobbyState());
+    }
 }
 
+function isValidInput(side: unknown, input: unknown, seq: unknown): side is "left" | "right" {
+    return (side === "left" || side === "right") &&
+        (input === "up" || input === "down" || input === "stop") &&
+        Number.isSafeInteger(seq) && (seq as number) > 0;
+}
 
+// In local mode the joining socket drives both back paddles; remotely a socket only drives its own side,
+// and in a team room only its own lane. Sides played by a bot are never driven by a socket
+function ownsSide(gameRoom: PingPongGame, socketId: string, side: "left" | "right", lane: Lane = "back") {
+    const player = gameRoom.state.players.find(p => p.socketId === socketId);
+    if (!player || gameRoom.state.players.some(p => p.bot && p.side === side))
+        return false;
+    if (gameRoom.state.mode === "local")
+        return lane === "back";
+    return player.side === side && (player.lane ?? "back") === lane;
+}
 
+const TEAM_SLOTS = [["left", "back"], ["right", "back"], ["left", "front"], ["right", "front"]] as const;
+
+function openTeamSlot(gameRoom: PingPongGame) {
+    return TEAM_SLOTS.find(([side, lane]) => !gameRoom.state.players.some(p => p.side === side && p.lane === lane));
+}
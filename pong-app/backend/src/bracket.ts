@@ -0,0 +1,334 @@
+import { Player, Match } from "./types/lobby";
+import { shufflePlayers } from "./PingPongGame.js";
+import { INITIAL_RATING } from "./ratings.js";
+import { Standing, computeStandings, isFinished } from "./standings.js";
+
+/*
+ * Tournament draw shared by the Pong and Key Clash tournaments, in one of three formats:
+ * - elimination: single-elimination bracket. Entrants are seeded by rating and placed so that the
+ *   top seeds can only meet late; when the entrants don't fill a power of two, the top seeds get
+ *   a bye into the second round.
+ * - round-robin: everybody plays everybody once, the whole schedule is drawn up front.
+ * - swiss: a few rounds, each paired from the standings so far, without rematches when possible.
+ * Matches are played one at a time on the tournament's table, round by round, and are pushed
+ * to the game's matches list as they come up, so matches[round - 1] is always the current one.
+ */
+
+export const BRACKET_SIZES = [4, 8, 16];
+export const MIN_ENTRANTS = 3;
+export const TOURNAMENT_FORMATS = ["elimination", "round-robin", "swiss"] as const;
+
+export type TournamentFormat = typeof TOURNAMENT_FORMATS[number];
+
+export interface BracketNode {
+    player1: Player | null;
+    player2: Player | null;
+    winner: Player | null;
+    bye: boolean;         // one side stayed empty: the other advanced, or sat the round out
+    match: Match | null;  // set once the match comes up
+}
+
+export interface Bracket {
+    format: TournamentFormat;
+    entrants: Player[];       // in seeding order
+    rounds: BracketNode[][];  // first round first; Swiss rounds are added as they are paired
+    totalRounds: number;
+    totalMatches: number;     // matches actually played
+}
+
+// What clients get: names instead of players
+export interface PublicBracket {
+    format: TournamentFormat;
+    totalMatches: number;
+    winner: string | null;
+    rounds: {
+        name: string;
+        matches: {
+            player1: string | null;
+            player2: string | null;
+            winner: string | null;
+            score: [number, number] | null;
+            bye: boolean;
+            live: boolean;
+        }[];
+    }[];
+    standings: {
+        name: string | null;
+        played: number;
+        wins: number;
+        losses: number;
+        draws: number;
+        points: number;
+        scoreDiff: number;
+    }[] | null;
+}
+
+export function isBracketSize(value: unknown): value is number {
+    return typeof value === "number" && BRACKET_SIZES.includes(value);
+}
+
+export function isTournamentFormat(value: unknown): value is TournamentFormat {
+    return TOURNAMENT_FORMATS.includes(value as TournamentFormat);
+}
+
+// Bracket positions of seeds 1..size, e.g. 1 8 4 5 2 7 3 6: seeds 1 and 2 can only meet in the final
+export function seedPositions(size: number): number[] {
+    let order = [1];
+    while (order.length < size) {
+        const n = order.length * 2;
+        order = order.flatMap(seed => [seed, n + 1 - seed]);
+    }
+    return order;
+}
+
+// Strongest first; players without a rating (guests, bots) count as new players. Ties are drawn at random
+export function seedPlayers(players: Player[], ratings: Map<number, number>, random: () => number = Math.random): Player[] {
+    const rating = (p: Player) => (p.playerId && ratings.get(p.playerId)) || INITIAL_RATING;
+    const seeded = [...players];
+    shufflePlayers(seeded, random);
+    return seeded.sort((a, b) => rating(b) - rating(a));
+}
+
+const pairing = (player1: Player | null, player2: Player | null): BracketNode =>
+    ({ player1, player2, winner: null, bye: !player1 || !player2, match: null });
+
+export function createBracket(seeded: Player[], format: TournamentFormat = "elimination"): Bracket {
+    if (format === "round-robin")
+        return createRoundRobin(seeded);
+    if (format === "swiss")
+        return createSwiss(seeded);
+    return createElimination(seeded);
+}
+
+function createElimination(seeded: Player[]): Bracket {
+    const size = Math.max(2, 2 ** Math.ceil(Math.log2(seeded.length)));
+    const positions = seedPositions(size);
+
+    const first: BracketNode[] = [];
+    for (let i = 0; i < size; i += 2) {
+        const node = pairing(seeded[positions[i] - 1] ?? null, seeded[positions[i + 1] - 1] ?? null);
+        if (node.bye)
+            node.winner = node.player1 ?? node.player2;
+        first.push(node);
+    }
+    const rounds = [first];
+    for (let n = size / 4; n >= 1; n /= 2)
+        rounds.push(Array.from({ length: n }, (): BracketNode => ({ player1: null, player2: null, winner: null, bye: false, match: null })));
+
+    const bracket: Bracket = { format: "elimination", entrants: seeded, rounds, totalRounds: rounds.length,
+                               totalMatches: seeded.length - 1 };
+    first.forEach((node, i) => { if (node.winner) advance(bracket, 0, i); });
+    return bracket;
+}
+
+// Circle method: the top seed stays put while the others rotate; with an odd count one player rests each round
+function createRoundRobin(seeded: Player[]): Bracket {
+    const circle: (Player | null)[] = seeded.length % 2 ? [...seeded, null] : [...seeded];
+    const rounds: BracketNode[][] = [];
+    for (let r = 0; r < circle.length - 1; r++) {
+        const nodes: BracketNode[] = [];
+        for (let i = 0; i < circle.length / 2; i++)
+            nodes.push(pairing(circle[i], circle[circle.length - 1 - i]));
+        rounds.push(nodes);
+        circle.splice(1, 0, circle.pop()!);
+    }
+    return { format: "round-robin", entrants: seeded, rounds, totalRounds: rounds.length,
+             totalMatches: seeded.length * (seeded.length - 1) / 2 };
+}
+
+function createSwiss(seeded: Player[]): Bracket {
+    const totalRounds = Math.ceil(Math.log2(seeded.length));
+    const bracket: Bracket = { format: "swiss", entrants: seeded, rounds: [], totalRounds,
+                               totalMatches: totalRounds * Math.floor(seeded.length / 2) };
+    bracket.rounds.push(pairSwissRound(bracket));
+    return bracket;
+}
+
+/*
+ * Pairs the next Swiss round from the standings: the lowest placed player without a bye yet sits
+ * out when the count is odd, then every player takes the highest placed opponent they haven't met.
+ * The first round pairs the top half of the seeds against the bottom half.
+ */
+function pairSwissRound(bracket: Bracket): BracketNode[] {
+    let order = standings(bracket).map(s => s.player);
+    const nodes: BracketNode[] = [];
+    if (order.length % 2) {
+        const hadBye = new Set(swissByes(bracket));
+        const resting = [...order].reverse().find(p => !hadBye.has(p)) ?? order[order.length - 1];
+        order = order.filter(p => p !== resting);
+        nodes.push(pairing(resting, null));
+    }
+    if (!bracket.rounds.length) {
+        const half = order.length / 2;
+        order = order.slice(0, half).flatMap((p, i) => [p, order[half + i]]);
+    }
+
+    const played = finishedMatches(bracket);
+    const met = (one: Player, two: Player) =>
+        played.some(m => (m.player1 === one && m.player2 === two) || (m.player1 === two && m.player2 === one));
+    const pairUp = (rest: Player[]): [Player, Player][] | null => {
+        if (!rest.length)
+            return [];
+        for (let i = 1; i < rest.length; i++) {
+            if (met(rest[0], rest[i]))
+                continue;
+            const others = pairUp(rest.filter((_, j) => j !== 0 && j !== i));
+            if (others)
+                return [[rest[0], rest[i]], ...others];
+        }
+        return null;
+    };
+    // When rematches can't be avoided anymore, neighbours in the standings play each other
+    const pairs = pairUp(order) ?? order.filter((_, i) => i % 2 === 0).map((p, i) => [p, order[i * 2 + 1]] as [Player, Player]);
+    return [...pairs.map(([one, two]) => pairing(one, two)), ...nodes];
+}
+
+function advance(bracket: Bracket, round: number, index: number) {
+    const next = bracket.rounds[round + 1]?.[index >> 1];
+    if (!next)
+        return;
+    if (index % 2 === 0)
+        next.player1 = bracket.rounds[round][index].winner;
+    else
+        next.player2 = bracket.rounds[round][index].winner;
+}
+
+// Records the winners of finished matches; in an elimination bracket they move on to their next match
+function collectResults(bracket: Bracket) {
+    bracket.rounds.forEach((nodes, round) => nodes.forEach((node, i) => {
+        if (node.match?.winner && !node.winner) {
+            node.winner = node.match.winner;
+            if (bracket.format === "elimination")
+                advance(bracket, round, i);
+        }
+    }));
+}
+
+function finishedMatches(bracket: Bracket): Match[] {
+    return bracket.rounds.flat().map(n => n.match).filter((m): m is Match => !!m && isFinished(m));
+}
+
+function swissByes(bracket: Bracket): Player[] {
+    if (bracket.format !== "swiss")
+        return [];
+    return bracket.rounds.flat().filter(n => n.bye && n.player1).map(n => n.player1!);
+}
+
+// League table of the matches finished so far
+export function standings(bracket: Bracket): Standing[] {
+    return computeStandings(bracket.entrants, finishedMatches(bracket), swissByes(bracket));
+}
+
+/*
+ * Records finished matches, then pushes the next match to be played onto matches and returns it,
+ * or null when the tournament is decided
+ */
+export function startNextMatch(bracket: Bracket, matches: Match[]): Match | null {
+    collectResults(bracket);
+    const playable = () => {
+        for (const nodes of bracket.rounds) {
+            const node = nodes.find(n => !n.match && !n.winner && n.player1 && n.player2);
+            if (node)
+                return node;
+        }
+        return null;
+    };
+    let node = playable();
+    if (!node && bracket.format === "swiss" && bracket.rounds.length < bracket.totalRounds) {
+        bracket.rounds.push(pairSwissRound(bracket));
+        node = playable();
+    }
+    if (!node)
+        return null;
+    node.match = { player1: node.player1!, player2: node.player2!, p1score: 0, p2score: 0, winner: null, duration: 0 };
+    matches.push(node.match);
+    return node.match;
+}
+
+// The current match is still running while round <= totalMatches
+export function isBracketPlaying(bracket: Bracket | null, round: number) {
+    return !!bracket && round >= 1 && round <= bracket.totalMatches;
+}
+
+/*
+ * Winner of a match that ended level: in an elimination bracket the higher seed goes through,
+ * in a league the player placed higher in the standings before the match
+ */
+export function breakTie(bracket: Bracket, match: Match): Player {
+    const order = bracket.format === "elimination" ? bracket.entrants : standings(bracket).map(s => s.player);
+    return order.indexOf(match.player1) <= order.indexOf(match.player2) ? match.player1 : match.player2;
+}
+
+// Champion once every match is played: the winner of the final, or the top of the league table
+export function bracketWinner(bracket: Bracket | null): Player | null {
+    if (!bracket || finishedMatches(bracket).length < bracket.totalMatches)
+        return null;
+    if (bracket.format === "elimination") {
+        const final = bracket.rounds[bracket.rounds.length - 1][0];
+        return final.winner ?? final.match?.winner ?? null;
+    }
+    return standings(bracket)[0]?.player ?? null;
+}
+
+// Final places once the tournament is decided: the league table, or how far each player got in the bracket
+export function finalPlacings(bracket: Bracket): Map<Player, number> {
+    if (bracket.format !== "elimination")
+        return new Map(standings(bracket).map((s, i) => [s.player, i + 1]));
+    // Players who went out in the same round share a place, e.g. both losing semi-finalists are third
+    const placings = new Map<Player, number>();
+    const champion = bracketWinner(bracket);
+    if (champion)
+        placings.set(champion, 1);
+    bracket.rounds.forEach((nodes, round) => nodes.forEach(node => {
+        const loser = node.match?.winner && (node.match.winner === node.player1 ? node.player2 : node.player1);
+        if (loser)
+            placings.set(loser, 2 ** (bracket.totalRounds - 1 - round) + 1);
+    }));
+    return placings;
+}
+
+export function roundLabel(format: TournamentFormat, round: number, totalRounds: number) {
+    if (format !== "elimination")
+        return `Round ${round + 1}/${totalRounds}`;
+    const remaining = totalRounds - round;
+    if (remaining === 1) return "Final";
+    if (remaining === 2) return "Semi-final";
+    if (remaining === 3) return "Quarter-final";
+    return `Round of ${2 ** remaining}`;
+}
+
+// Name of the round a match belongs to, e.g. "Semi-final" or "Round 2/3"
+export function roundName(bracket: Bracket, match: Match) {
+    const round = bracket.rounds.findIndex(nodes => nodes.some(n => n.match === match));
+    return roundLabel(bracket.format, Math.max(0, round), bracket.totalRounds);
+}
+
+export function publicBracket(bracket: Bracket | null): PublicBracket | null {
+    if (!bracket)
+        return null;
+    return {
+        format: bracket.format,
+        totalMatches: bracket.totalMatches,
+        winner: bracketWinner(bracket)?.name ?? null,
+        rounds: bracket.rounds.map((nodes, round) => ({
+            name: roundLabel(bracket.format, round, bracket.totalRounds),
+            matches: nodes.map(node => ({
+                player1: node.player1?.name ?? null,
+                player2: node.player2?.name ?? null,
+                winner: (node.winner ?? node.match?.winner)?.name ?? null,
+                score: node.match && isFinished(node.match) ? [node.match.p1score, node.match.p2score] : null,
+                bye: node.bye,
+                live: !!node.match && !isFinished(node.match),
+            })),
+        })),
+        standings: bracket.format === "elimination" ? null : standings(bracket).map(s => ({
+            name: s.player.name,
+            played: s.played,
+            wins: s.wins,
+            losses: s.losses,
+            draws: s.draws,
+            points: s.points,
+            scoreDiff: s.scoreFor - s.scoreAgainst,
+        })),
+    };
+}
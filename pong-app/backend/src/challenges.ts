@@ -0,0 +1,142 @@
+import { Server, Socket } from "socket.io";
+import { FastifyInstance } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { randomBytes } from "crypto";
+import { openRoom } from "./quickmatch";
+import { authenticateSockets } from "./socketAuth";
+
+/*
+ * Direct challenges between friends. Logged-in players stay connected to the /challenge
+ * namespace while they are in the lobby. A challenge is sent to every socket of the friend,
+ * who can accept or decline it; accepting opens a private room and sends both players there.
+ */
+
+type ChallengeGame = "pong" | "keyclash";
+
+interface Challenge {
+    id: string;
+    game: ChallengeGame;
+    from: { id: number, username: string };
+    to: { id: number, username: string };
+    timer: NodeJS.Timeout;
+}
+
+const CHALLENGE_TIMEOUT_MS = 60 * 1000;
+
+const challenges = new Map<string, Challenge>();
+
+function publicChallenge(challenge: Challenge) {
+    const { id, game, from, to } = challenge;
+    return { id, game, from, to, expiresIn: CHALLENGE_TIMEOUT_MS / 1000 };
+}
+
+export function setupChallenges(io: Server, prisma: PrismaClient, app: FastifyInstance) {
+    const challengeNamespace = io.of("/challenge");
+
+    // Challenges are only between registered players, identified by their auth cookie
+    authenticateSockets(challengeNamespace, prisma, app, true);
+
+    const userRoom = (userId: number) => `user:${userId}`;
+
+    const endChallenge = (id: string) => {
+        const challenge = challenges.get(id);
+        if (challenge) {
+            clearTimeout(challenge.timer);
+            challenges.delete(id);
+        }
+        return challenge;
+    };
+
+    challengeNamespace.on("connection", (socket: Socket) => {
+        const userId: number = socket.data.userId;
+        socket.join(userRoom(userId));
+
+        // Challenges that arrived before this socket connected
+        for (const challenge of challenges.values()) {
+            if (challenge.to.id === userId)
+                socket.emit("challenge_received", publicChallenge(challenge));
+        }
+
+        socket.on("challenge", async (friendId: number, game: ChallengeGame, callback?: Function) => {
+            const reply = (res: object) => { if (typeof callback === "function") callback(res); };
+
+            if (game !== "pong" && game !== "keyclash") return reply({ error: "Unknown game" });
+            if (!Number.isInteger(friendId) || friendId === userId) return reply({ error: "Invalid friend" });
+            if ([...challenges.values()].some(c => c.from.id === userId && c.to.id === friendId))
+                return reply({ error: "You already challenged this friend" });
+
+            try {
+                const friendship = await prisma.friendship.findFirst({
+                    where: { sender_id: userId, receiver_id: friendId, status: "Friend" },
+                    include: { receiver: { select: { username: true } } },
+                });
+                if (!friendship) return reply({ error: "You can only challenge your friends" });
+
+                const online = await challengeNamespace.in(userRoom(friendId)).fetchSockets();
+                if (!online.length) return reply({ error: `${friendship.receiver.username} is not in the lobby` });
+
+                const id = randomBytes(8).toString("hex");
+                const challenge: Challenge = {
+                    id,
+                    game,
+                    from: { id: userId, username: socket.data.username },
+                    to: { id: friendId, username: friendship.receiver.username },
+                    timer: setTimeout(() => {
+                        const expired = endChallenge(id);
+                        if (expired)
+                            challengeNamespace.to([userRoom(expired.from.id), userRoom(expired.to.id)])
+                                .emit("challenge_expired", id);
+                    }, CHALLENGE_TIMEOUT_MS),
+                };
+                challenges.set(id, challenge);
+                challengeNamespace.to(userRoom(friendId)).emit("challenge_received", publicChallenge(challenge));
+                reply({ challenge: publicChallenge(challenge) });
+            } catch (error) {
+                console.error("Failed to send challenge:", error);
+                reply({ error: "Failed to send challenge" });
+            }
+        });
+
+        socket.on("respond_challenge", (id: string, accept: boolean, callback?: Function) => {
+            const reply = (res: object) => { if (typeof callback === "function") callback(res); };
+            const challenge = challenges.get(id);
+            if (!challenge || challenge.to.id !== userId) return reply({ error: "This challenge is no longer open" });
+            endChallenge(id);
+
+            // Other tabs of the challenged player drop the invite as well
+            challengeNamespace.to(userRoom(userId)).emit("challenge_closed", id);
+            if (!accept) {
+                challengeNamespace.to(userRoom(challenge.from.id)).emit("challenge_declined", id);
+                return reply({ ok: true });
+            }
+
+            const gameId = openRoom(challenge.game, "remote", { private: true });
+            console.log(`${challenge.to.username} accepted ${challenge.from.username}'s ${challenge.game} challenge`);
+            challengeNamespace.to(userRoom(challenge.from.id)).emit("challenge_accepted", id, gameId, challenge.game);
+            reply({ ok: true });
+            socket.emit("challenge_accepted", id, gameId, challenge.game);
+        });
+
+        socket.on("cancel_challenge", (id: string, callback?: Function) => {
+            const challenge = challenges.get(id);
+            if (challenge?.from.id === userId) {
+                endChallenge(id);
+                challengeNamespace.to([userRoom(challenge.from.id), userRoom(challenge.to.id)]).emit("challenge_closed", id);
+            }
+            if (typeof callback === "function") callback({ ok: true });
+        });
+
+        socket.on("disconnect", async () => {
+            // A challenger who left the lobby altogether can't be sent into a game anymore
+            const remaining = await challengeNamespace.in(userRoom(userId)).fetchSockets();
+            if (remaining.length)
+                return;
+            for (const challenge of [...challenges.values()]) {
+                if (challenge.from.id === userId) {
+                    endChallenge(challenge.id);
+                    challengeNamespace.to(userRoom(challenge.to.id)).emit("challenge_closed", challenge.id);
+                }
+            }
+        });
+    });
+}
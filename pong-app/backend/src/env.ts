@@ -20,6 +20,9 @@ const env = cleanEnv(process.env, {
   TEAM_NAME: str({ default: 'Hivers5 Asteroids' }),
   GOOGLE_CLIENT_ID: str(),
   GOOGLE_CLIENT_SECRET: str(),
-  GOOGLE_REDIRECT_URI: str({ default: 'https://localhost:3000/auth/google/callback' })
+  GOOGLE_REDIRECT_URI: str({ default: 'https://localhost:3000/auth/google/callback' }),
+  PONG_SEND_RATE: num({ default: 30 }), // pong snapshots per second, the simulation itself runs at 60
+  RECONNECT_GRACE_SECONDS: num({ default: 30 }), // how long a dropped player's seat is held before forfeiting
+  MATCHMAKING_TIMEOUT_SECONDS: num({ default: 120 }) // how long a player may wait in the quickmatch queue
 });
 export default env;
\ No newline at end of file
@@ -1,8 +1,12 @@
-import { Player, LobbyState, GameResult } from "./types/lobby";
+import { Player, Match, LobbyState, GameResult } from "./types/lobby";
 import PingPongGame from "./PingPongGame";
 import { state as KeyClashState } from "./KeyClashGame"
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { PrismaClient } from '@prisma/client';
+import { MatchRules } from "./matchRules";
+import { ReplayLog } from "./pongReplay";
+import { updateRatings } from "./ratings";
+import { publicBracket } from "./bracket";
 
 export const playersOnline: Player[] = [];
 export const pongRooms: PingPongGame[] = [];
@@ -15,15 +19,21 @@ export const keyClashTournaments: KeyClashState[] = [];
 export function getLobbyState(): LobbyState {
   return {
     players: playersOnline,
-    pongGames: pongRooms.map(g => ({
+    pongGames: pongRooms.filter(g => !g.state.private).map(g => ({
         id: g.getId(),
         status: g.state.status,
-        players: g.state.players
+        players: g.state.players,
+        mode: g.state.mode,
+        spectators: g.state.spectators,
+        rules: g.state.rules,
+        size: g.state.size
         })),
-    keyClashGames: keyClashRooms.map(g => ({
+    keyClashGames: keyClashRooms.filter(g => !g.private).map(g => ({
       id: g.id,
       status: g.status,
-      players: g.players
+      players: g.players,
+      mode: g.mode,
+      spectators: g.spectators
       })),
   }
 };
@@ -34,20 +44,31 @@ export function getTournamentLobbyState(): LobbyState {
     pongGames: pongTournaments.map(g => ({
         id: g.getId(),
         status: g.state.status,
-        players: g.state.players
+        players: g.state.players,
+        mode: g.state.mode,
+        spectators: g.state.spectators,
+        rules: g.state.rules,
+        size: g.state.size,
+        format: g.state.format,
+        bracket: publicBracket(g.state.bracket)
         })),
     keyClashGames: keyClashTournaments.map(g => ({
       id: g.id,
       status: g.status,
-      players: g.players
+      players: g.players,
+      mode: g.mode,
+      spectators: g.spectators,
+      size: g.size,
+      format: g.format,
+      bracket: publicBracket(g.bracket)
       })),
   }
 };
 
-// Save game result to database
-export async function saveGameResult(gameResult: GameResult, prisma: PrismaClient): Promise<void> {
+// Save game result to database, resolves to the id of the new Game row
+export async function saveGameResult(gameResult: GameResult, prisma: PrismaClient, replay?: ReplayLog | null): Promise<number | null> {
     try {
-      const { gameType, mode, player1, player2, winner, duration, rounds, gameId } = gameResult;
+      const { gameType, mode, player1, player2, winner, draw, opponentType, forfeit, duration, rules, rounds, gameId } = gameResult;
       console.log('Saving game result:', { 
         gameResult
       });
@@ -55,66 +76,85 @@ export async function saveGameResult(gameResult: GameResult, prisma: PrismaClien
       // For local games, only save if one of the players has a playerId
       if (mode === 'local' && !player1.playerId && !player2.playerId) {
         console.log('Cannot save local game where a user is not a participant')
-        return;
+        return null;
       }
 
-      // Create game record
-      const game = await prisma.game.create({
-        data: {
-          id_player1: player1.playerId,
-          id_player2: player2.playerId,
-          game_name: gameType === 'pong' ? 'pingpong' : 'keyclash',
-          rounds_json: JSON.stringify({
-            gameId,
-            mode,
-            player1: player1,
-            player2: player2,
-            duration,
-            rounds,
-            timestamp: new Date(),
-            winner: winner,
-            // userWon: userIsPlayer1 ? player1Data.isWinner : (userIsPlayer2 ? player2Data.isWinner : false),
-            finalScore: `${player1.score} - ${player2.score}`,
-            // userIsPlayer1
-          })
-        }
-      });
+      const gameName = gameType === 'pong' ? 'pingpong' : 'keyclash';
 
-      // Update user statistics - only update if it's the authenticated user
-      if (player1.playerId) {
-        if (player1.isWinner) {
-          await prisma.user.update({
-            where: { id: player1.playerId },
-            data: { wins: { increment: 1 } }
-          });
-        }
-        else {
-          await prisma.user.update({
-            where: { id: player1.playerId },
-            data: { losses: { increment: 1 } }
+      // The game, its replay, the players' records and ratings are saved together or not at all
+      const game = await prisma.$transaction(async tx => {
+        // Create game record
+        const game = await tx.game.create({
+          data: {
+            id_player1: player1.playerId,
+            id_player2: player2.playerId,
+            id_player3: player1.partner?.playerId ?? null,
+            id_player4: player2.partner?.playerId ?? null,
+            game_name: gameName,
+            draw: !!draw,
+            rounds_json: JSON.stringify({
+              gameId,
+              mode,
+              player1: player1,
+              player2: player2,
+              duration,
+              rules: rules ?? null,
+              rounds,
+              timestamp: new Date(),
+              winner: winner,
+              draw: !!draw,
+              opponentType,
+              forfeit: forfeit ?? null,
+              // userWon: userIsPlayer1 ? player1Data.isWinner : (userIsPlayer2 ? player2Data.isWinner : false),
+              finalScore: `${player1.score} - ${player2.score}`,
+              // userIsPlayer1
+            })
+          }
+        });
+
+        // Pong matches keep their input log next to the game row for replays
+        if (replay) {
+          await tx.gameReplay.create({
+            data: { id_game: game.id_game, replay_json: JSON.stringify(replay) }
           });
         }
-      }
-      if (player2.playerId) {
-        if (player2.isWinner) {
-          await prisma.user.update({
-            where: { id: player2.playerId },
-            data: { wins: { increment: 1 } }
-          });
+
+        // Update user statistics - only update if it's the authenticated user.
+        // Both players of a team share its result
+        const sides = [
+          { isWinner: player1.isWinner, playerIds: [player1.playerId, player1.partner?.playerId] },
+          { isWinner: player2.isWinner, playerIds: [player2.playerId, player2.partner?.playerId] },
+        ];
+        for (const { isWinner, playerIds } of sides) {
+          for (const playerId of playerIds) {
+            if (!playerId)
+              continue;
+            await tx.user.update({
+              where: { id: playerId },
+              data: isWinner ? { wins: { increment: 1 } }
+                  : draw ? { draws: { increment: 1 } }
+                  : { losses: { increment: 1 } }
+            });
+          }
         }
-        else {
-          await prisma.user.update({
-            where: { id: player2.playerId },
-            data: { losses: { increment: 1 } }
-          });
+
+        // Only remote games between two different registered players are rated, team games are not
+        if (mode === 'remote' && player1.playerId && player2.playerId && player1.playerId !== player2.playerId
+            && opponentType === 'human' && !player1.partner && !player2.partner) {
+          const changes = await updateRatings(tx, game.id_game, gameName, player1.playerId, player2.playerId,
+                                              draw ? 0.5 : player1.isWinner ? 1 : 0);
+          console.log('Ratings updated:', changes);
         }
-      }
+
+        return game;
+      });
 
       console.log('Game result saved successfully');
-      return ;
+      return game.id_game;
 
     } catch (error) {
       console.log('Failed to save game result', error);
+      return null;
     }
 }
 
@@ -123,8 +163,9 @@ export function createGameResult(
   gameId: string,
   gameType: 'pong' | 'keyclash',
   mode: 'local' | 'remote',
-  match: { player1: Player, player2: Player, p1score: number, p2score: number, winner: Player | null, duration: number },
-  rounds?: any[]
+  match: Match,
+  rounds?: any[],
+  rules?: MatchRules
 ): GameResult {
 
   return {
@@ -136,17 +177,25 @@ export function createGameResult(
       playerId: match.player1.playerId,
       avatar: "default",
       score: match.p1score,
-      isWinner: match.player1 === match.winner
+      isWinner: match.player1 === match.winner,
+      bot: match.player1.bot ?? null,
+      ...(match.partner1 && { partner: { username: match.partner1.name, playerId: match.partner1.playerId } })
     },
     player2: {
       username: match.player2.name,
       playerId: match.player2.playerId,
       avatar: "default",
       score: match.p2score,
-      isWinner: match.player2 === match.winner
+      isWinner: match.player2 === match.winner,
+      bot: match.player2.bot ?? null,
+      ...(match.partner2 && { partner: { username: match.partner2.name, playerId: match.partner2.playerId } })
     },
     winner: match.winner,
+    draw: !!match.draw,
+    opponentType: match.player1.bot || match.player2.bot ? "bot" : "human",
+    forfeit: match.forfeitedBy ? match.forfeitedBy.name : null,
     duration: match.duration,
+    rules,
     rounds: rounds || [],
     timestamp: new Date()
   };
@@ -11,6 +11,7 @@ import { setupLobby } from "./quickmatch";
 import { setupTournamentLobby } from "./tournament";
 import { setupPongNamespace } from "./PongServer";
 import { setupKeyClash } from "./KeyClashGame";
+import { setupChallenges } from "./challenges";
 import { fileURLToPath } from "url";
 import env from "./env";
 import registerRoutes from "./routes/index";
@@ -119,10 +120,11 @@ async function buildServer() {
     },
   });
 
-  setupLobby(io);
-  setupTournamentLobby(io);
-  setupPongNamespace(io, prisma);
-  setupKeyClash(io, prisma);
+  setupLobby(io, prisma, server);
+  setupTournamentLobby(io, prisma, server);
+  setupPongNamespace(io, prisma, server);
+  setupKeyClash(io, prisma, server);
+  setupChallenges(io, prisma, server);
 
   return server;
 }
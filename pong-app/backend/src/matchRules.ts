@@ -0,0 +1,102 @@
+// How a match level at the end of its time is decided: the next point wins (golden point),
+// a fixed extra period is played, or the draw stands. Key Clash rooms use the same choice
+export type TieBreak = "golden-point" | "overtime" | "draw";
+
+export const TIE_BREAKS: TieBreak[] = ["golden-point", "overtime", "draw"];
+
+// Length of the extra period of a Pong match
+export const OVERTIME_SECONDS = 30;
+
+export function isTieBreak(value: unknown): value is TieBreak {
+    return TIE_BREAKS.includes(value as TieBreak);
+}
+
+/*
+ * Game modes: classic Pong; survival, where each side has SURVIVAL_LIVES lives and the ball keeps
+ * speeding up (the score limit and duration don't apply); and doubles, with a second paddle per
+ * side in a front lane. Remote doubles rooms are played 2v2, with a player in every lane; elsewhere
+ * the front paddles follow the ball by themselves
+ */
+export type PongMode = "classic" | "survival" | "doubles";
+
+export const PONG_MODES: PongMode[] = ["classic", "survival", "doubles"];
+
+export const SURVIVAL_LIVES = 3;
+
+export function isPongMode(value: unknown): value is PongMode {
+    return PONG_MODES.includes(value as PongMode);
+}
+
+// Match rules for PingPongGame, chosen when the room is created
+export interface MatchRules {
+    scoreLimit: number | null;  // first to N points, null for no score limit
+    duration: number | null;    // in seconds, null for an untimed match
+    winByTwo: boolean;          // deuce: the score limit only wins with a two point lead
+    ballSpeed: number;          // horizontal ball speed at every serve
+    ballAcceleration: number;   // ball speed multiplier on each paddle hit
+    paddleSize: number;         // paddle length along the table edge
+    tieBreak: TieBreak;         // when the time runs out on a level score
+    mode: PongMode;
+    powerUps: boolean;          // power-ups appear on the table
+}
+
+export const DEFAULT_MATCH_RULES: MatchRules = {
+    scoreLimit: 3,
+    duration: 120,
+    winByTwo: false,
+    ballSpeed: 6,
+    ballAcceleration: 1.05,
+    paddleSize: 3,
+    tieBreak: "draw",
+    mode: "classic",
+    powerUps: false,
+};
+
+const LIMITS = {
+    scoreLimit: { min: 1, max: 21 },
+    duration: { min: 30, max: 600 },
+    ballSpeed: { min: 3, max: 12 },
+    ballAcceleration: { min: 1, max: 1.2 },
+    paddleSize: { min: 1.5, max: 6 },
+};
+
+function inRange(value: unknown, key: keyof typeof LIMITS): value is number {
+    return typeof value === "number" && Number.isFinite(value) &&
+        value >= LIMITS[key].min && value <= LIMITS[key].max;
+}
+
+/*
+ * Checks rules sent by a client, filling anything left out with the defaults.
+ * Returns the rules to play with, or an error message describing the first invalid field.
+ */
+export function validateMatchRules(input: unknown): { rules: MatchRules } | { error: string } {
+    if (input === undefined || input === null)
+        return { rules: { ...DEFAULT_MATCH_RULES } };
+    if (typeof input !== "object")
+        return { error: "Invalid match rules" };
+    const rules = { ...DEFAULT_MATCH_RULES, ...(input as Partial<MatchRules>) };
+
+    if (rules.scoreLimit !== null && (!Number.isInteger(rules.scoreLimit) || !inRange(rules.scoreLimit, "scoreLimit")))
+        return { error: `Score limit must be a whole number from ${LIMITS.scoreLimit.min} to ${LIMITS.scoreLimit.max}` };
+    if (rules.duration !== null && (!Number.isInteger(rules.duration) || !inRange(rules.duration, "duration")))
+        return { error: `Duration must be from ${LIMITS.duration.min} to ${LIMITS.duration.max} seconds` };
+    if (rules.scoreLimit === null && rules.duration === null)
+        return { error: "A match needs a score limit, a duration or both" };
+    if (typeof rules.winByTwo !== "boolean")
+        return { error: "Win by two must be true or false" };
+    if (!inRange(rules.ballSpeed, "ballSpeed"))
+        return { error: `Ball speed must be from ${LIMITS.ballSpeed.min} to ${LIMITS.ballSpeed.max}` };
+    if (!inRange(rules.ballAcceleration, "ballAcceleration"))
+        return { error: `Ball acceleration must be from ${LIMITS.ballAcceleration.min} to ${LIMITS.ballAcceleration.max}` };
+    if (!inRange(rules.paddleSize, "paddleSize"))
+        return { error: `Paddle size must be from ${LIMITS.paddleSize.min} to ${LIMITS.paddleSize.max}` };
+    if (!isTieBreak(rules.tieBreak))
+        return { error: `Tie break must be one of: ${TIE_BREAKS.join(", ")}` };
+    if (!isPongMode(rules.mode))
+        return { error: `Mode must be one of: ${PONG_MODES.join(", ")}` };
+    if (typeof rules.powerUps !== "boolean")
+        return { error: "Power-ups must be true or false" };
+
+    const { scoreLimit, duration, winByTwo, ballSpeed, ballAcceleration, paddleSize, tieBreak, mode, powerUps } = rules;
+    return { rules: { scoreLimit, duration, winByTwo, ballSpeed, ballAcceleration, paddleSize, tieBreak, mode, powerUps } };
+}
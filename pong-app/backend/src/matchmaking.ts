@@ -0,0 +1,86 @@
+import env from "./env";
+
+/*
+ * Rated "Find match" queue of the quickmatch lobby. Registered players wait per game type
+ * and are paired by rating: every player accepts opponents within a search window around
+ * their own rating that starts narrow and widens the longer they wait. Two players are
+ * paired once each of them sits inside the other's window.
+ */
+
+export type QueuedGame = "pong" | "keyclash";
+
+export interface QueueEntry {
+    socketId: string;
+    playerId: number;
+    name: string;
+    game: QueuedGame;
+    rating: number;
+    joinedAt: number;
+}
+
+const INITIAL_WINDOW = 100;
+const WINDOW_GROWTH = 50;         // rating points added every WINDOW_STEP_MS
+const WINDOW_STEP_MS = 5000;
+const MAX_WINDOW = 800;
+export const QUEUE_TIMEOUT_MS = env.MATCHMAKING_TIMEOUT_SECONDS * 1000;
+
+export const matchQueue: QueueEntry[] = [];
+
+export function searchWindow(entry: QueueEntry, now: number) {
+    const steps = Math.floor((now - entry.joinedAt) / WINDOW_STEP_MS);
+    return Math.min(MAX_WINDOW, INITIAL_WINDOW + steps * WINDOW_GROWTH);
+}
+
+export function isQueued(socketId: string) {
+    return matchQueue.some(e => e.socketId === socketId);
+}
+
+export function enqueue(entry: QueueEntry) {
+    matchQueue.push(entry);
+}
+
+export function dequeue(socketId: string): QueueEntry | null {
+    const i = matchQueue.findIndex(e => e.socketId === socketId);
+    return i === -1 ? null : matchQueue.splice(i, 1)[0];
+}
+
+// Removes and returns the players who waited longer than the timeout
+export function expireEntries(now: number): QueueEntry[] {
+    const expired = matchQueue.filter(e => now - e.joinedAt >= QUEUE_TIMEOUT_MS);
+    for (const entry of expired)
+        dequeue(entry.socketId);
+    return expired;
+}
+
+/*
+ * Removes and returns every pair that can be played now. The longest waiting players pick
+ * first and take the closest rating they accept.
+ */
+export function findPairs(now: number): [QueueEntry, QueueEntry][] {
+    const pairs: [QueueEntry, QueueEntry][] = [];
+    const waiting = [...matchQueue].sort((a, b) => a.joinedAt - b.joinedAt);
+    const paired = new Set<QueueEntry>();
+
+    for (const entry of waiting) {
+        if (paired.has(entry))
+            continue;
+        let best: QueueEntry | null = null;
+        for (const other of waiting) {
+            if (other === entry || paired.has(other) || other.game !== entry.game || other.playerId === entry.playerId)
+                continue;
+            const gap = Math.abs(entry.rating - other.rating);
+            if (gap > searchWindow(entry, now) || gap > searchWindow(other, now))
+                continue;
+            if (!best || gap < Math.abs(entry.rating - best.rating))
+                best = other;
+        }
+        if (best) {
+            paired.add(entry);
+            paired.add(best);
+            pairs.push([entry, best]);
+        }
+    }
+    for (const entry of paired)
+        dequeue(entry.socketId);
+    return pairs;
+}
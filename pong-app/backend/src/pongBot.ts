@@ -0,0 +1,97 @@
+import PingPongGame from "./PingPongGame.js";
+import { SIM_TICK_MS } from "./pongPhysics.js";
+import { BotDifficulty, Player } from "./types/lobby";
+
+/*
+ * Server-side Pong opponent. A bot sits in a seat like any other player and drives its paddle
+ * through PingPongGame.applyInput, so it is bound by the same paddle physics as humans.
+ * It only looks at the ball once per reaction delay (counted in simulation ticks, so replays
+ * drive it identically), predicts where the ball will cross its
+ * paddle line (folding the path over the table sides) and aims with a per-rally error.
+ */
+interface BotSettings {
+    reactionMs: number; // how often the bot looks at the ball
+    maxSpeed: number;   // fraction of the full paddle speed
+    error: number;      // largest aiming error along z
+}
+
+export const BOT_SETTINGS: Record<BotDifficulty, BotSettings> = {
+    easy: { reactionMs: 400, maxSpeed: 0.55, error: 1.6 },
+    medium: { reactionMs: 220, maxSpeed: 0.8, error: 0.8 },
+    hard: { reactionMs: 90, maxSpeed: 1, error: 0.25 },
+};
+
+const DEAD_ZONE = 0.3;
+
+interface BotBrain {
+    seq: number;
+    nextLook: number;
+    target: number;
+    aimError: number;
+    rallyDirection: number;
+}
+
+const brains = new WeakMap<Player, BotBrain>();
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+    return value === "easy" || value === "medium" || value === "hard";
+}
+
+// Takes a seat for a bot, named after its difficulty and numbered if the room already has one
+export function seatBot(game: PingPongGame, side: "left" | "right" | null, difficulty: BotDifficulty) {
+    const label = difficulty[0].toUpperCase() + difficulty.slice(1);
+    const taken = game.state.players.filter(p => p.bot).length;
+    const name = taken ? `Bot ${taken + 1} (${label})` : `Bot (${label})`;
+    game.setPlayer(side, name, "bot", null, difficulty);
+}
+
+// Called every simulation tick, before the game itself is updated
+export function driveBots(game: PingPongGame) {
+    for (const player of game.state.players) {
+        if (player.bot && player.side)
+            driveBot(game, player, player.side);
+    }
+}
+
+function driveBot(game: PingPongGame, player: Player, side: "left" | "right") {
+    const settings = BOT_SETTINGS[player.bot!];
+    const tick = game.getTick();
+    // Every match starts from a fresh brain
+    let brain = brains.get(player);
+    if (!brain || tick === 0) {
+        brain = { seq: 0, nextLook: 0, target: 0, aimError: 0, rallyDirection: 0 };
+        brains.set(player, brain);
+    }
+    const paddle = side === "left" ? game.state.leftPaddle : game.state.rightPaddle;
+
+    if (tick >= brain.nextLook) {
+        brain.nextLook = tick + Math.round(settings.reactionMs / SIM_TICK_MS);
+        const { ball } = game.state;
+        const direction = Math.sign(ball.vx);
+        // A new aiming error for every shot coming in
+        if (direction !== brain.rallyDirection) {
+            brain.rallyDirection = direction;
+            brain.aimError = (game.random() * 2 - 1) * settings.error;
+        }
+        const incoming = (side === "left" && ball.vx < 0) || (side === "right" && ball.vx > 0);
+        brain.target = incoming ? predictCrossing(ball, paddle.x, game.bounds.z) + brain.aimError : 0;
+    }
+
+    const offset = brain.target - paddle.z;
+    const input = Math.abs(offset) < DEAD_ZONE ? "stop" : offset < 0 ? "up" : "down";
+    game.applyInput(side, input, ++brain.seq, settings.maxSpeed);
+}
+
+// Where the ball will be along z when it reaches x, bouncing off the sides at +-boundZ
+export function predictCrossing(ball: { x: number, z: number, vx: number, vz: number }, x: number, boundZ: number) {
+    if (ball.vx === 0)
+        return ball.z;
+    const time = Math.max(0, (x - ball.x) / ball.vx);
+    const width = boundZ * 2;
+    let z = (ball.z + boundZ + ball.vz * time) % (width * 2);
+    if (z < 0)
+        z += width * 2;
+    if (z > width)
+        z = width * 2 - z;
+    return z - boundZ;
+}
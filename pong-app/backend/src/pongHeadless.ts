@@ -0,0 +1,96 @@
+import PingPongGame, { PaddleInput } from "./PingPongGame.js";
+import { MatchRules, DEFAULT_MATCH_RULES } from "./matchRules.js";
+import { SIM_TICK_MS } from "./pongPhysics.js";
+import { driveBots, seatBot } from "./pongBot.js";
+import { BotDifficulty, Match, Player } from "./types/lobby";
+import { MIN_ENTRANTS, TournamentFormat, bracketWinner } from "./bracket.js";
+
+/*
+ * Plays a whole pong 1v1 or tournament without sockets or timers, on a virtual clock that
+ * advances one simulation tick at a time, exactly like the server loop does.
+ * The same seed, rules, players and input log always produce the same matches.
+ */
+
+// Input applied right before the update of the given tick (ticks count from 1 for each match)
+export interface InputLogEntry {
+    round: number;
+    tick: number;
+    side: "left" | "right";
+    input: PaddleInput;
+}
+
+export interface HeadlessOptions {
+    type: "1v1" | "tournament";
+    players: (string | { bot: BotDifficulty })[]; // left then right for a 1v1, 3 to 16 entrants for a tournament
+    seed: number;
+    format?: TournamentFormat; // of a tournament, elimination by default
+    rules?: MatchRules;
+    inputs?: InputLogEntry[];
+    maxTicks?: number; // per match, for untimed rules with nobody scoring
+}
+
+export interface HeadlessResult {
+    game: PingPongGame;
+    matches: Match[];
+    winner: Player | null;
+    ticks: number;
+    finished: boolean;
+}
+
+const DEFAULT_MAX_TICKS = Math.round(60 * 60 * 1000 / SIM_TICK_MS);
+
+export function simulateMatch(options: HeadlessOptions): HeadlessResult {
+    let now = 0;
+    const game = new PingPongGame("headless", "local", options.type, options.rules ?? DEFAULT_MATCH_RULES,
+                                  { clock: () => now, seed: options.seed });
+    if (options.type === "1v1" && options.players.length !== 2)
+        throw new Error("A 1v1 needs 2 players");
+    if (options.type === "tournament" && (options.players.length < MIN_ENTRANTS || options.players.length > 16))
+        throw new Error(`A tournament needs ${MIN_ENTRANTS} to 16 players`);
+
+    options.players.forEach((player, i) => {
+        const side = options.type === "tournament" ? null : i === 0 ? "left" : "right";
+        if (typeof player === "string")
+            game.setPlayer(side, player, `p${i + 1}`, null);
+        else
+            seatBot(game, side, player.bot);
+    });
+    if (options.type === "tournament") {
+        game.state.size = options.players.length;
+        game.state.format = options.format ?? "elimination";
+        game.state.round = 1;
+        game.matchmake();
+    }
+
+    const inputs = [...(options.inputs ?? [])].sort((a, b) => a.round - b.round || a.tick - b.tick);
+    const maxTicks = options.maxTicks ?? DEFAULT_MAX_TICKS;
+    const rounds = options.type === "1v1" ? 1 : game.state.bracket!.totalMatches;
+    let next = 0;
+    let seq = 0;
+    let ticks = 0;
+
+    for (let round = 1; round <= rounds; round++) {
+        game.startMatch();
+        for (let tick = 1; tick <= maxTicks && game.state.status === "in-progress"; tick++) {
+            now += SIM_TICK_MS;
+            ticks++;
+            // Inputs of an earlier round or tick (e.g. a paused stretch in the log) are dropped
+            while (next < inputs.length && (inputs[next].round < round || (inputs[next].round === round && inputs[next].tick < tick)))
+                next++;
+            while (next < inputs.length && inputs[next].round === round && inputs[next].tick === tick) {
+                game.applyInput(inputs[next].side, inputs[next].input, ++seq);
+                next++;
+            }
+            driveBots(game);
+            game.update();
+        }
+        if (game.state.status !== "finished")
+            return { game, matches: game.state.matches, winner: null, ticks, finished: false };
+        if (round < rounds) {
+            game.state.round++;
+            game.matchmake();
+        }
+    }
+    const winner = options.type === "1v1" ? game.state.matches[0]?.winner ?? null : bracketWinner(game.state.bracket);
+    return { game, matches: game.state.matches, winner, ticks, finished: true };
+}
@@ -0,0 +1,168 @@
+import { MatchRules } from "./matchRules";
+
+/*
+ * Pong physics as a pure step function: no clock, no globals, no sockets.
+ * Everything that varies comes in through the arguments, including the random numbers for
+ * each serve, so the same state, inputs, dt and RNG always give the same next state.
+ */
+
+// The simulation runs at a fixed tick, on the server as well as in the headless runner
+export const SIM_TICK_MS = 1000 / 60;
+
+export const TABLE_BOUNDS = { x: 9.6, z: 5.6 };
+export const PADDLE_SPEED = 12;
+
+export type Rng = () => number;
+
+export interface Ball { x: number; z: number; vx: number; vz: number, color: number }
+export interface Paddle { x: number, z: number }
+
+export type Side = "left" | "right";
+
+// x of the front lane paddles in doubles, the back lane ones stay at +-8.2
+export const FRONT_LANE_X = 4.2;
+
+// Survival: ball speed-up per second of play, and the speed it can't go past
+const SURVIVAL_SPEEDUP = 0.01;
+const MAX_BALL_SPEED = 30;
+
+// Doubles partners follow the ball a bit slower than a player can move
+const PARTNER_SPEED = 0.6;
+const PARTNER_DEAD_ZONE = 0.2;
+
+export interface PhysicsState {
+    ball: Ball;
+    extraBalls: Ball[]; // from the multi-ball power-up, gone at the next serve
+    leftPaddle: Paddle;
+    rightPaddle: Paddle;
+    partners: { left: Paddle, right: Paddle } | null; // front lane paddles in doubles
+    paddleScale: { left: number, right: number };     // paddle length factor from power-ups
+    shields: { left: boolean, right: boolean };       // a shield sends one ball back off its goal line
+    hitter: number; // 0 until a paddle touches the ball after a serve, then 1 (left) or 2 (right)
+    leftScore: number;
+    rightScore: number;
+}
+
+// Paddle directions from -1 (up) to 1 (down), already scaled by any speed limit.
+// A front lane paddle without a direction is a doubles partner following the ball by itself
+export interface PaddleDirections { left: number, right: number, leftFront?: number, rightFront?: number }
+
+// Deterministic 32-bit seeded generator (mulberry32), returning numbers in [0, 1)
+export function createRng(seed: number): Rng {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function serve(rules: MatchRules, rng: Rng): Ball {
+    const vx = (rng() > 0.5 ? 1 : -1) * rules.ballSpeed;
+    const vz = (rng() - 0.5) * 4;
+    return { x: 0, z: 0, vx, vz, color: 0xffffff };
+}
+
+export function step(state: PhysicsState, inputs: PaddleDirections, dt: number, rules: MatchRules, rng: Rng): PhysicsState {
+    const leftPaddle = movePaddle(state.leftPaddle, inputs.left, dt);
+    const rightPaddle = movePaddle(state.rightPaddle, inputs.right, dt);
+    const partners = state.partners && {
+        left: inputs.leftFront === undefined ? followBall(state.partners.left, state.ball, "left", dt)
+                                             : movePaddle(state.partners.left, inputs.leftFront, dt),
+        right: inputs.rightFront === undefined ? followBall(state.partners.right, state.ball, "right", dt)
+                                               : movePaddle(state.partners.right, inputs.rightFront, dt),
+    };
+    const shields = { ...state.shields };
+    let { hitter, leftScore, rightScore } = state;
+
+    // Moves one ball; returns the side it went out on, if it did
+    const moveBall = (ball: Ball): Side | null => {
+        ball.z += ball.vz * dt;
+        ball.x += ball.vx * dt;
+        if (rules.mode === "survival") {
+            const speedup = 1 + SURVIVAL_SPEEDUP * dt;
+            ball.vx = Math.max(-MAX_BALL_SPEED, Math.min(MAX_BALL_SPEED, ball.vx * speedup));
+        }
+
+        // Bounce on table sides (z)
+        if (ball.z > TABLE_BOUNDS.z || ball.z < -TABLE_BOUNDS.z) {
+            ball.z = Math.max(-TABLE_BOUNDS.z, Math.min(TABLE_BOUNDS.z, ball.z));
+            ball.vz *= -1;
+        }
+
+        // Paddle collision
+        const leftHit = [leftPaddle, partners?.left].find(p => p && paddleHit(ball, p, rules.paddleSize * state.paddleScale.left));
+        if (leftHit && ball.vx < 0) {
+            ball.vx *= -rules.ballAcceleration;
+            ball.vz += (ball.z - leftHit.z) * 2.0;
+            ball.color = 0xff6b6b;
+            hitter = 1;
+        }
+        const rightHit = [rightPaddle, partners?.right].find(p => p && paddleHit(ball, p, rules.paddleSize * state.paddleScale.right));
+        if (rightHit && ball.vx > 0) {
+            ball.vx *= -rules.ballAcceleration;
+            ball.vz += (ball.z - rightHit.z) * 2.0;
+            ball.color = 0x6b8cff;
+            hitter = 2;
+        }
+
+        if (ball.x < -TABLE_BOUNDS.x || ball.x > TABLE_BOUNDS.x) {
+            const side: Side = ball.x < 0 ? "left" : "right";
+            if (!shields[side])
+                return side;
+            shields[side] = false;
+            ball.x = Math.max(-TABLE_BOUNDS.x, Math.min(TABLE_BOUNDS.x, ball.x));
+            ball.vx *= -1;
+        }
+        return null;
+    };
+
+    // Score and serve again; a ball nobody touched since the serve scores for no one
+    const score = (out: Side) => {
+        if (hitter === 0)
+            return;
+        if (out === "left") rightScore++;
+        else leftScore++;
+    };
+
+    const ball = { ...state.ball };
+    const out = moveBall(ball);
+    const extraBalls: Ball[] = [];
+    for (const extra of state.extraBalls) {
+        const moved = { ...extra };
+        const extraOut = moveBall(moved);
+        if (extraOut)
+            score(extraOut);
+        else
+            extraBalls.push(moved);
+    }
+    const next = { leftPaddle, rightPaddle, partners, paddleScale: state.paddleScale, shields };
+    if (out) {
+        score(out);
+        return { ...next, ball: serve(rules, rng), extraBalls: [], hitter: 0, leftScore, rightScore };
+    }
+    return { ...next, ball, extraBalls, hitter, leftScore, rightScore };
+}
+
+// The hit box reaches half a ball past each end of the paddle
+function paddleHit(ball: Ball, paddle: Paddle, size: number) {
+    const dx = Math.abs(ball.x - paddle.x);
+    const dz = Math.abs(ball.z - paddle.z);
+    return dx < 1.5 && dz < size / 2 + 0.5;
+}
+
+function movePaddle(paddle: Paddle, direction: number, dt: number): Paddle {
+    const z = paddle.z + direction * PADDLE_SPEED * dt;
+    return { x: paddle.x, z: Math.max(-TABLE_BOUNDS.z, Math.min(TABLE_BOUNDS.z, z)) };
+}
+
+// A doubles partner lines up with a ball coming its way and drifts back to the middle otherwise
+function followBall(paddle: Paddle, ball: Ball, side: Side, dt: number): Paddle {
+    const incoming = side === "left" ? ball.vx < 0 : ball.vx > 0;
+    const offset = (incoming ? ball.z : 0) - paddle.z;
+    if (Math.abs(offset) < PARTNER_DEAD_ZONE)
+        return paddle;
+    return movePaddle(paddle, Math.sign(offset) * PARTNER_SPEED, dt);
+}
@@ -0,0 +1,109 @@
+import { Ball, Rng, SIM_TICK_MS, Side } from "./pongPhysics.js";
+
+/*
+ * Power-ups, when the match rules turn them on. They appear on the table every few seconds and
+ * go to the side that last hit the ball (the hitter) as soon as a ball rolls over one.
+ * Timings are counted in simulation ticks and positions drawn from the match RNG, so matches
+ * with power-ups replay exactly like classic ones.
+ */
+
+export const POWER_UP_KINDS = ["grow", "shrink", "multi-ball", "speed", "shield"] as const;
+
+export type PowerUpKind = typeof POWER_UP_KINDS[number];
+
+export interface PowerUp {
+    id: number; // tick it appeared on
+    kind: PowerUpKind;
+    x: number;
+    z: number;
+    expires: number; // tick it disappears on if nobody takes it
+}
+
+// Lasting effect on one side: a longer or shorter paddle, or a shield on its goal line
+export interface Effect {
+    kind: "grow" | "shrink" | "shield";
+    side: Side;
+    until: number; // tick
+}
+
+const SECOND = Math.round(1000 / SIM_TICK_MS);
+const SPAWN_EVERY = 6 * SECOND;
+const LIFETIME = 10 * SECOND;
+const EFFECT_TICKS = 10 * SECOND;
+const MAX_ON_TABLE = 2;
+const PICKUP_RADIUS = 0.9;
+const MAX_EXTRA_BALLS = 2;
+const SPEED_BURST = 1.4;
+const GROW_SCALE = 1.5;
+const SHRINK_SCALE = 0.6;
+// Power-ups appear away from the paddles and the table sides
+const SPAWN_AREA = { x: 5, z: 4.5 };
+
+export interface PowerUpTable {
+    powerUps: PowerUp[];
+    effects: Effect[];
+    ball: Ball;
+    extraBalls: Ball[];
+}
+
+// Paddle length factor of a side under its grow and shrink effects
+export function paddleScale(effects: Effect[], side: Side) {
+    let scale = 1;
+    for (const effect of effects) {
+        if (effect.side === side && effect.kind === "grow")
+            scale *= GROW_SCALE;
+        else if (effect.side === side && effect.kind === "shrink")
+            scale *= SHRINK_SCALE;
+    }
+    return scale;
+}
+
+export function hasShield(effects: Effect[], side: Side) {
+    return effects.some(e => e.side === side && e.kind === "shield");
+}
+
+// Called after each physics step: effects and power-ups run out, new ones appear, balls pick them up
+export function updatePowerUps(table: PowerUpTable, hitter: number, tick: number, rng: Rng): PowerUpTable {
+    let { ball, extraBalls } = table;
+    const effects = table.effects.filter(e => e.until > tick);
+    let powerUps = table.powerUps.filter(p => p.expires > tick);
+
+    if (tick % SPAWN_EVERY === 0 && powerUps.length < MAX_ON_TABLE) {
+        powerUps.push({
+            id: tick,
+            kind: POWER_UP_KINDS[Math.floor(rng() * POWER_UP_KINDS.length)],
+            x: (rng() * 2 - 1) * SPAWN_AREA.x,
+            z: (rng() * 2 - 1) * SPAWN_AREA.z,
+            expires: tick + LIFETIME,
+        });
+    }
+
+    // Nobody owns a power-up touched by a ball that was just served
+    if (hitter === 0)
+        return { powerUps, effects, ball, extraBalls };
+    const side: Side = hitter === 1 ? "left" : "right";
+    const other: Side = side === "left" ? "right" : "left";
+    const balls = [ball, ...extraBalls];
+    for (const powerUp of powerUps.filter(p => balls.some(b => Math.hypot(b.x - p.x, b.z - p.z) < PICKUP_RADIUS))) {
+        powerUps = powerUps.filter(p => p !== powerUp);
+        switch (powerUp.kind) {
+            case "grow":
+            case "shield":
+                effects.push({ kind: powerUp.kind, side, until: tick + EFFECT_TICKS });
+                break;
+            case "shrink":
+                effects.push({ kind: "shrink", side: other, until: tick + EFFECT_TICKS });
+                break;
+            case "speed":
+                ball = { ...ball, vx: ball.vx * SPEED_BURST, vz: ball.vz * SPEED_BURST };
+                extraBalls = extraBalls.map(b => ({ ...b, vx: b.vx * SPEED_BURST, vz: b.vz * SPEED_BURST }));
+                break;
+            case "multi-ball":
+                // The new ball splits off the main one, heading the other way along z
+                if (extraBalls.length < MAX_EXTRA_BALLS)
+                    extraBalls = [...extraBalls, { ...ball, vz: -ball.vz || 2 }];
+                break;
+        }
+    }
+    return { powerUps, effects, ball, extraBalls };
+}
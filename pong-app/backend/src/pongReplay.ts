@@ -0,0 +1,142 @@
+import PingPongGame, { PaddleInput } from "./PingPongGame.js";
+import { MatchRules } from "./matchRules.js";
+import { SIM_TICK_MS } from "./pongPhysics.js";
+import { PowerUpKind } from "./pongPowerUps.js";
+import { driveBots, seatBot } from "./pongBot.js";
+import { BotDifficulty, Lane } from "./types/lobby";
+
+/*
+ * Replays of finished pong matches. While a match runs only what cannot be recomputed is
+ * recorded: the match seed, the rules, who sat where and the human paddle inputs per tick.
+ * Bots and physics are deterministic, so re-running the log reproduces the match exactly.
+ */
+
+const INPUT_CODES: PaddleInput[] = ["stop", "up", "down"];
+// Paddles by input log code: the back lanes, then the front lanes of team play
+const PADDLE_CODES = [["left", "back"], ["right", "back"], ["left", "front"], ["right", "front"]] as const;
+
+export interface ReplayLog {
+    version: 1;
+    seed: number;
+    rules: MatchRules;
+    left: { name: string | null, bot: BotDifficulty | null };
+    right: { name: string | null, bot: BotDifficulty | null };
+    teammates?: { left: string | null, right: string | null }; // front lane players of a team match
+    inputs: [tick: number, paddle: number, input: number][]; // paddle indexes PADDLE_CODES, input INPUT_CODES
+    scores: [tick: number, left: number, right: number][];
+    ticks: number; // simulation ticks played
+}
+
+// Positions sent to the replay viewer: ms since the start, ball x/z, paddle z, scores,
+// then whatever only some modes have on the table
+export type ReplayFrame = [time: number, ballX: number, ballZ: number, leftZ: number, rightZ: number,
+                           leftScore: number, rightScore: number, ballColor: number, extras?: ReplayExtras];
+
+export interface ReplayExtras {
+    partners?: [leftZ: number, rightZ: number];
+    balls?: number[]; // x, z of each extra ball
+    powerUps?: [kind: PowerUpKind, x: number, z: number][];
+    effects?: [kind: string, side: "left" | "right"][];
+}
+
+const FRAME_EVERY_TICKS = 2;
+const recordings = new WeakMap<PingPongGame, ReplayLog>();
+
+// Called right after PingPongGame.startMatch()
+export function startRecording(game: PingPongGame) {
+    const left = game.state.players.find(p => p.side === "left" && p.lane !== "front");
+    const right = game.state.players.find(p => p.side === "right" && p.lane !== "front");
+    const match = game.state.matches[game.state.round - 1];
+    recordings.set(game, {
+        version: 1,
+        seed: game.getMatchSeed(),
+        rules: { ...game.state.rules },
+        left: { name: left?.name ?? null, bot: left?.bot ?? null },
+        right: { name: right?.name ?? null, bot: right?.bot ?? null },
+        ...(game.isTeamPlay() && match && {
+            teammates: { left: match.partner1?.name ?? null, right: match.partner2?.name ?? null },
+        }),
+        inputs: [],
+        scores: [],
+        ticks: 0,
+    });
+}
+
+// An accepted input takes effect on the next simulated tick
+export function recordInput(game: PingPongGame, side: "left" | "right", input: PaddleInput, lane: Lane = "back") {
+    const paddle = PADDLE_CODES.findIndex(([s, l]) => s === side && l === lane);
+    recordings.get(game)?.inputs.push([game.getTick() + 1, paddle, INPUT_CODES.indexOf(input)]);
+}
+
+// Called after every update, keeps a score event whenever the score changed
+export function recordTick(game: PingPongGame) {
+    const log = recordings.get(game);
+    if (!log)
+        return;
+    const { left, right } = game.getScores();
+    const last = log.scores[log.scores.length - 1];
+    if ((last?.[1] ?? 0) !== left || (last?.[2] ?? 0) !== right)
+        log.scores.push([game.getTick(), left, right]);
+}
+
+// Returns the finished log, or null if the match was never started
+export function finishRecording(game: PingPongGame): ReplayLog | null {
+    const log = recordings.get(game);
+    if (!log)
+        return null;
+    recordings.delete(game);
+    log.ticks = game.getTick();
+    return log;
+}
+
+// Re-simulates a recorded match headlessly and samples it for the viewer
+export function renderReplay(log: ReplayLog): ReplayFrame[] {
+    let now = 0;
+    // The recorded tick count says when the match ended, whether on time, on score or by forfeit
+    const game = new PingPongGame("replay", "local", "1v1", { ...log.rules, duration: null }, { clock: () => now });
+    for (const [side, seat] of [["left", log.left], ["right", log.right]] as const) {
+        if (seat.bot)
+            seatBot(game, side, seat.bot);
+        else if (log.teammates) {
+            game.setTeamPlayer(side, "back", seat.name, side, null);
+            game.setTeamPlayer(side, "front", log.teammates[side], `${side}Front`, null);
+        }
+        else
+            game.setPlayer(side, seat.name, side, null);
+    }
+    game.startMatch(log.seed);
+
+    const frames: ReplayFrame[] = [toFrame(game, 0)];
+    let next = 0;
+    let seq = 0;
+    for (let tick = 1; tick <= log.ticks && game.state.status === "in-progress"; tick++) {
+        now += SIM_TICK_MS;
+        while (next < log.inputs.length && log.inputs[next][0] <= tick) {
+            const [, paddle, input] = log.inputs[next++];
+            const [side, lane] = PADDLE_CODES[paddle] ?? PADDLE_CODES[0];
+            game.applyInput(side, INPUT_CODES[input] ?? "stop", ++seq, 1, lane);
+        }
+        driveBots(game);
+        game.update();
+        if (tick % FRAME_EVERY_TICKS === 0 || tick === log.ticks)
+            frames.push(toFrame(game, now));
+    }
+    return frames;
+}
+
+function toFrame(game: PingPongGame, time: number): ReplayFrame {
+    const round = (n: number) => Math.round(n * 100) / 100;
+    const { ball, leftPaddle, rightPaddle, partners, extraBalls, powerUps, effects } = game.state;
+    const { left, right } = game.getScores();
+    const frame: ReplayFrame = [Math.round(time), round(ball.x), round(ball.z), round(leftPaddle.z), round(rightPaddle.z),
+                                left, right, ball.color];
+    const extras: ReplayExtras = {
+        ...(partners && { partners: [round(partners.left.z), round(partners.right.z)] }),
+        ...(extraBalls.length && { balls: extraBalls.flatMap(b => [round(b.x), round(b.z)]) }),
+        ...(powerUps.length && { powerUps: powerUps.map(p => [p.kind, round(p.x), round(p.z)]) }),
+        ...(effects.length && { effects: effects.map(e => [e.kind, e.side]) }),
+    };
+    if (Object.keys(extras).length)
+        frame.push(extras);
+    return frame;
+}
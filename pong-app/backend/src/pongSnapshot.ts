@@ -0,0 +1,76 @@
+import PingPongGame, { GameState } from "./PingPongGame.js";
+import { SIM_TICK_MS } from "./pongPhysics.js";
+import env from "./env.js";
+import { PublicBracket, publicBracket } from "./bracket.js";
+
+// Snapshots go out at the (lower) network send rate, every few simulation ticks
+export { SIM_TICK_MS };
+export const TICKS_PER_SEND = Math.max(1, Math.round(1000 / SIM_TICK_MS / env.PONG_SEND_RATE));
+
+// Everything clients need except the positions, which travel in the binary frame
+export type PublicState = Omit<GameState, "loop" | "ball" | "extraBalls" | "leftPaddle" | "rightPaddle" | "partners" |
+                                          "inputSeq" | "serverTime" | "bracket"> & {
+    ballColor: number;
+    bracket: PublicBracket | null;
+};
+
+const FRAME_BYTES = 57;
+const EXTRA_BALL_BYTES = 8;
+const lastSent = new WeakMap<PingPongGame, PublicState>();
+
+export function getPublicState(game: PingPongGame): PublicState {
+    const { loop, ball, extraBalls, leftPaddle, rightPaddle, partners, inputSeq, serverTime, bracket, ...rest } = game.state;
+    return { ...rest, ballColor: ball.color, bracket: publicBracket(bracket) };
+}
+
+/*
+ * Binary position frame:
+ * f64 serverTime | f32 ball.x, ball.z, ball.vx, ball.vz | f32 leftPaddle.z, rightPaddle.z | u32 inputSeq left, right
+ * | f32 partners left.z, right.z (0 outside doubles) | u32 inputSeq leftFront, rightFront (team play)
+ * | u8 extra ball count | f32 x, z of each extra ball
+ */
+export function encodeFrame(state: GameState): Buffer {
+    const view = new DataView(new ArrayBuffer(FRAME_BYTES + state.extraBalls.length * EXTRA_BALL_BYTES));
+    view.setFloat64(0, state.serverTime, true);
+    view.setFloat32(8, state.ball.x, true);
+    view.setFloat32(12, state.ball.z, true);
+    view.setFloat32(16, state.ball.vx, true);
+    view.setFloat32(20, state.ball.vz, true);
+    view.setFloat32(24, state.leftPaddle.z, true);
+    view.setFloat32(28, state.rightPaddle.z, true);
+    view.setUint32(32, state.inputSeq.left, true);
+    view.setUint32(36, state.inputSeq.right, true);
+    view.setFloat32(40, state.partners?.left.z ?? 0, true);
+    view.setFloat32(44, state.partners?.right.z ?? 0, true);
+    view.setUint32(48, state.inputSeq.leftFront, true);
+    view.setUint32(52, state.inputSeq.rightFront, true);
+    view.setUint8(56, state.extraBalls.length);
+    state.extraBalls.forEach((ball, i) => {
+        view.setFloat32(FRAME_BYTES + i * EXTRA_BALL_BYTES, ball.x, true);
+        view.setFloat32(FRAME_BYTES + i * EXTRA_BALL_BYTES + 4, ball.z, true);
+    });
+    return Buffer.from(view.buffer);
+}
+
+// Full state for a client that just joined; also becomes the base for the next delta
+export function getKeyframe(game: PingPongGame) {
+    const state = getPublicState(game);
+    if (!lastSent.has(game))
+        lastSent.set(game, JSON.parse(JSON.stringify(state)));
+    return { state, frame: encodeFrame(game.state) };
+}
+
+// Fields that changed since the last broadcast for this game, or null if nothing did
+export function takeDelta(game: PingPongGame): Partial<PublicState> | null {
+    const next = getPublicState(game);
+    const prev = lastSent.get(game);
+    lastSent.set(game, JSON.parse(JSON.stringify(next)));
+    if (!prev)
+        return next;
+    const delta: Record<string, unknown> = {};
+    for (const key of Object.keys(next) as (keyof PublicState)[]) {
+        if (JSON.stringify(next[key]) !== JSON.stringify(prev[key]))
+            delta[key] = next[key];
+    }
+    return Object.keys(delta).length ? delta as Partial<PublicState> : null;
+}
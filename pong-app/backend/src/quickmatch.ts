@@ -1,54 +1,187 @@
 import { Server, Socket } from "socket.io";
+import { randomBytes } from "crypto";
+import { PrismaClient } from "@prisma/client";
+import { FastifyInstance } from "fastify";
 import { playersOnline, pongRooms, keyClashRooms, getLobbyState } from "./gameData";
 import PingPongGame from "./PingPongGame";
-import { state } from "./KeyClashGame";
+import { MatchRules, DEFAULT_MATCH_RULES, TieBreak, TIE_BREAKS, isTieBreak, validateMatchRules } from "./matchRules";
+import { isBotDifficulty } from "./pongBot";
+import { state, PromptMode, PROMPT_MODES, isPromptMode, emptyStats } from "./KeyClashGame";
+import { BotDifficulty } from "./types/lobby";
+import { INITIAL_RATING } from "./ratings";
+import { authenticateSockets, socketUserId, socketDisplayName } from "./socketAuth";
+import { QueueEntry, QueuedGame, QUEUE_TIMEOUT_MS, matchQueue, enqueue, dequeue, isQueued, findPairs, expireEntries, searchWindow } from "./matchmaking";
 
-export function setupLobby(io: Server) {
+const QUEUE_SWEEP_MS = 1000;
+
+function newRoomId() {
+    return Math.random().toString(36).substring(2, 6);
+}
+
+// Private rooms are only reachable by id, so theirs must not be guessable
+function newInviteCode() {
+    return randomBytes(12).toString("base64url");
+}
+
+function createKeyClashRoom(id: string, mode: "local" | "remote", tieBreak: TieBreak, promptMode: PromptMode): state {
+    return {
+        id: id,
+        score1: 0,
+        score2: 0,
+        prompts: ["-", "-"],
+        timeLeft: 20,
+        players: [],
+        matches: [],
+        interval: null,
+        player1ready: false,
+        player2ready: false,
+        p1: null,
+        p2: null,
+        status: "waiting",
+        mode: mode,
+        type: "1v1",
+        round: 0,
+        spectators: 0,
+        size: 2,
+        format: "elimination",
+        bracket: null,
+        tieBreak: tieBreak,
+        overtime: null,
+        promptMode: promptMode,
+        sequences: [[], []],
+        progress: [0, 0],
+        streaks: [0, 0],
+        promptTimers: [null, null],
+        promptIssuedAt: [0, 0],
+        stats: [emptyStats(), emptyStats()],
+    };
+}
+
+// Opens a 1v1 room and returns its id, which is also the invite code of a private room.
+// Pong rooms take their tie break from the rules, Key Clash rooms from tieBreak (and have a prompt mode)
+export function openRoom(game: "pong" | "keyclash", mode: "local" | "remote",
+                         options: { rules?: MatchRules, bot?: BotDifficulty | null, private?: boolean,
+                                    tieBreak?: TieBreak, promptMode?: PromptMode } = {}): string {
+    const id = options.private ? newInviteCode() : newRoomId();
+    if (game === "pong") {
+        const room = new PingPongGame(id, mode, "1v1", options.rules ?? DEFAULT_MATCH_RULES);
+        room.state.bot = options.bot ?? null;
+        room.state.private = !!options.private;
+        pongRooms.push(room);
+    }
+    else {
+        const room = createKeyClashRoom(id, mode, options.tieBreak ?? DEFAULT_MATCH_RULES.tieBreak,
+                                        options.promptMode ?? "classic");
+        room.private = !!options.private;
+        keyClashRooms.push(room);
+    }
+    return id;
+}
+
+export function setupLobby(io: Server, prisma: PrismaClient, app: FastifyInstance) {
     const lobbyNamespace = io.of('/quickmatch');
+    authenticateSockets(lobbyNamespace, prisma, app);
+    let queueSweep: NodeJS.Timeout | null = null;
+
+    // Removes a player who is leaving the lobby list, e.g. to play a game
+    const leaveLobby = (socketId: string) => {
+        const i = playersOnline.findIndex(p => p.socketId === socketId);
+        if (i !== -1) playersOnline.splice(i, 1);
+    };
+
+    // Pairs waiting players, times out the ones who waited too long and reports progress to the rest
+    const sweepQueue = () => {
+        const now = Date.now();
+        for (const [a, b] of findPairs(now)) {
+            // Private, so nobody from the lobby list can take a seat before the pair arrives
+            const id = openRoom(a.game, "remote", { private: true });
+            console.log(`Matched ${a.name} (${Math.round(a.rating)}) with ${b.name} (${Math.round(b.rating)}) in ${a.game} room ${id}`);
+            for (const entry of [a, b]) {
+                leaveLobby(entry.socketId);
+                lobbyNamespace.to(entry.socketId).emit("joined_game", id, entry.game, "remote");
+            }
+            lobbyNamespace.emit("lobby_update", getLobbyState());
+        }
+        for (const entry of expireEntries(now))
+            lobbyNamespace.to(entry.socketId).emit("queue_timeout", entry.game);
+        for (const entry of matchQueue)
+            lobbyNamespace.to(entry.socketId).emit("queue_status", queueStatus(entry, now));
+        if (!matchQueue.length && queueSweep) {
+            clearInterval(queueSweep);
+            queueSweep = null;
+        }
+    };
+
+    const queueStatus = (entry: QueueEntry, now: number) => ({
+        game: entry.game,
+        rating: Math.round(entry.rating),
+        window: searchWindow(entry, now),
+        waited: Math.floor((now - entry.joinedAt) / 1000),
+        timeout: QUEUE_TIMEOUT_MS / 1000,
+    });
 
     lobbyNamespace.on("connection", (socket: Socket) => {
       console.log(`Player connected: ${socket.id}`);
 
-      socket.on("name", (name: string | null, playerId: number | null, callback: Function) => {
+      // The name and id sent by older clients are ignored, both come from the auth cookie
+      socket.on("name", (_name: string | null, _playerId: number | null, callback: Function) => {
+        const playerId = socketUserId(socket);
         if (playerId && playersOnline.some(p => p.playerId === playerId))
           return callback({ error: "You're already in the lobby" });
-        if (name)
-          socket.data.name = name
-        else
-          socket.data.name = `Guest-${socket.id.slice(0, 3)}`;
+        socket.data.name = socketDisplayName(socket);
 
+        socket.data.playerId = playerId;
         playersOnline.push({ playerId: playerId, socketId: socket.id, name: socket.data.name, side: null });
 
         lobbyNamespace.emit("lobby_update", getLobbyState());        
       })
 
   
-      socket.on("create_game", (game: "pong" | "keyclash", mode: "local" | "remote") => {
-        const id = Math.random().toString(36).substring(2, 6);
+      // options: pong match rules, a bot difficulty to play a local pong game against the server,
+      // whether a remote room is private (left out of the lobby, joined with its invite code)
+      // and the tie break and prompt mode of a Key Clash room
+      socket.on("create_game", (game: "pong" | "keyclash", mode: "local" | "remote",
+                                options?: { rules?: unknown, bot?: unknown, private?: unknown, tieBreak?: unknown,
+                                            promptMode?: unknown },
+                                callback?: Function) => {
+        const fail = (error: string) => { if (typeof callback === "function") callback({ error }); };
+
+        const isPrivate = options?.private === true;
+        if (isPrivate && mode !== "remote") return fail("Only remote games can be private");
 
-        if (game === "pong") pongRooms.push(new PingPongGame(id, mode, "1v1"));
+        let id: string;
+        if (game === "pong") {
+          const checked = validateMatchRules(options?.rules);
+          if ("error" in checked) return fail(checked.error);
+          const bot = options?.bot ?? null;
+          if (bot !== null && (mode !== "local" || !isBotDifficulty(bot))) return fail("Invalid bot opponent");
+          id = openRoom(game, mode, { rules: checked.rules, bot: isBotDifficulty(bot) ? bot : null, private: isPrivate });
+        }
         else {
-          let newKeyClash: state = {
-            id: id,
-            score1: 0,
-            score2: 0,
-            prompts: ["-", "-"],
-            timeLeft: 20,
-            players: [],
-            matches: [],
-            interval: null,
-            player1ready: false,
-            player2ready: false,
-            p1: null,
-            p2: null,
-            status: "waiting",
-            mode: mode,
-			      type: "1v1",
-            round: 0,
-          }
-          keyClashRooms.push(newKeyClash);
+          const tieBreak = options?.tieBreak ?? DEFAULT_MATCH_RULES.tieBreak;
+          if (!isTieBreak(tieBreak)) return fail(`Tie break must be one of: ${TIE_BREAKS.join(", ")}`);
+          const promptMode = options?.promptMode ?? "classic";
+          if (!isPromptMode(promptMode)) return fail(`Prompt mode must be one of: ${PROMPT_MODES.join(", ")}`);
+          id = openRoom("keyclash", mode, { private: isPrivate, tieBreak, promptMode });
         }
-        socket.emit("created_game", id, game, mode);
+        dequeue(socket.id);
+        socket.emit("created_game", id, game, mode, isPrivate ? id : null);
+      });
+
+      // Joins a private room from its invite code (or link)
+      socket.on("join_invite", (code: string, callback?: Function) => {
+        const reply = (res: object) => { if (typeof callback === "function") callback(res); };
+        const pongRoom = pongRooms.find(g => g.state.private && g.getId() === code);
+        const keyClashRoom = keyClashRooms.find(g => g.private && g.id === code);
+        const status = pongRoom ? pongRoom.state.status : keyClashRoom?.status;
+        if (!status) return reply({ error: "This invite is invalid or has expired" });
+        if (status !== "waiting") return reply({ error: "Game already started" });
+
+        leaveLobby(socket.id);
+        dequeue(socket.id);
+        lobbyNamespace.emit("lobby_update", getLobbyState());
+        reply({ ok: true });
+        socket.emit("joined_game", code, pongRoom ? "pong" : "keyclash", "remote");
       });
   
       socket.on("join_game", (gameId, game, mode, callback) => {
@@ -63,19 +196,58 @@ export function setupLobby(io: Server) {
           if (gameRoom.status !== "waiting") return callback({ error: "Game already started" });          
         } 
         // remove player from list of players in lobby
-        const i = playersOnline.findIndex(p => p.socketId === socket.id);
-        if (i !== -1) playersOnline.splice(i, 1);
+        leaveLobby(socket.id);
+        dequeue(socket.id);
 
         lobbyNamespace.emit("lobby_update", getLobbyState());        
 
         socket.emit("joined_game", gameId, game, mode);
       });
+
+      // Rated matchmaking: wait for an opponent of similar rating in the given game
+      socket.on("find_match", async (game: QueuedGame, callback?: Function) => {
+        const reply = (res: object) => { if (typeof callback === "function") callback(res); };
+        const playerId = socket.data.playerId;
+
+        if (game !== "pong" && game !== "keyclash") return reply({ error: "Unknown game" });
+        if (!playerId) return reply({ error: "Log in to find a rated match" });
+        if (isQueued(socket.id) || matchQueue.some(e => e.playerId === playerId))
+          return reply({ error: "You're already searching for a match" });
+
+        try {
+          const rating = await prisma.rating.findUnique({
+            where: { userId_game_name: { userId: playerId, game_name: game === "pong" ? "pingpong" : "keyclash" } },
+          });
+          // The socket may have left while the rating was loading
+          if (socket.disconnected || isQueued(socket.id)) return;
+          const entry: QueueEntry = {
+            socketId: socket.id,
+            playerId,
+            name: socket.data.name,
+            game,
+            rating: rating?.rating ?? INITIAL_RATING,
+            joinedAt: Date.now(),
+          };
+          enqueue(entry);
+          reply(queueStatus(entry, entry.joinedAt));
+          if (!queueSweep)
+            queueSweep = setInterval(sweepQueue, QUEUE_SWEEP_MS);
+        } catch (error) {
+          console.error("Failed to queue player:", error);
+          reply({ error: "Matchmaking is unavailable right now" });
+        }
+      });
+
+      socket.on("cancel_match", (callback?: Function) => {
+        const entry = dequeue(socket.id);
+        if (typeof callback === "function") callback(entry ? { cancelled: entry.game } : { error: "You're not searching for a match" });
+      });
   
       socket.on("disconnect", () => {
         console.log(`Player disconnected: ${socket.id}`);
 
-        const player = playersOnline.findIndex(p => p.socketId === socket.id);
-        if (player !== -1) playersOnline.splice(player, 1);
+        leaveLobby(socket.id);
+        dequeue(socket.id);
   
         lobbyNamespace.emit("lobby_update", getLobbyState());
       });
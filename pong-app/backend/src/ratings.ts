@@ -0,0 +1,122 @@
+import { PrismaClient, Prisma, GameName } from "@prisma/client";
+
+/*
+ * Glicko skill ratings, kept separately for every game. Each player has a rating and a
+ * rating deviation (RD): how unsure we are about the rating. A new player starts at
+ * 1500 +- 350 and moves quickly; the RD shrinks with every rated game and grows back
+ * while the player is away, so returning players settle again faster.
+ */
+
+export const INITIAL_RATING = 1500;
+export const INITIAL_RD = 350;
+const MIN_RD = 30;
+// RD growth per day without rated games: about 100 days from a settled 50 back to 350
+const RD_GROWTH = 34.6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const Q = Math.log(10) / 400;
+
+export interface Glicko {
+    rating: number;
+    rd: number;
+}
+
+export interface RatingChange {
+    userId: number;
+    before: number;
+    after: number;
+    rd: number;
+    change: number;
+}
+
+// Weight of a result against an opponent, lower when the opponent's rating is uncertain
+function g(rd: number) {
+    return 1 / Math.sqrt(1 + 3 * Q * Q * rd * rd / (Math.PI * Math.PI));
+}
+
+export function expectedScore(player: Glicko, opponent: Glicko) {
+    return 1 / (1 + Math.pow(10, -g(opponent.rd) * (player.rating - opponent.rating) / 400));
+}
+
+// RD after some idle time
+export function decayRd(rd: number, idleMs: number) {
+    const days = Math.max(0, idleMs / DAY_MS);
+    return Math.min(INITIAL_RD, Math.sqrt(rd * rd + RD_GROWTH * RD_GROWTH * days));
+}
+
+// Glicko update for a single game; score is 1 for a win, 0 for a loss and 0.5 for a draw
+export function rateGame(player: Glicko, opponent: Glicko, score: number): Glicko {
+    const weight = g(opponent.rd);
+    const expected = expectedScore(player, opponent);
+    const dSquared = 1 / (Q * Q * weight * weight * expected * (1 - expected));
+    const precision = 1 / (player.rd * player.rd) + 1 / dSquared;
+    return {
+        rating: player.rating + (Q / precision) * weight * (score - expected),
+        rd: Math.max(MIN_RD, Math.sqrt(1 / precision)),
+    };
+}
+
+/*
+ * Rates a saved game between two registered players and keeps one history row per player.
+ * score1 is player one's result (1, 0 or 0.5). Both sides are computed from the ratings
+ * as they were before the game. Runs inside the transaction saving the game, so the ratings
+ * read are the ones written over, even when two games of a player end at once.
+ */
+export async function updateRatings(prisma: Prisma.TransactionClient, gameId: number, game: GameName,
+                                    player1: number, player2: number, score1: number): Promise<RatingChange[]> {
+    const now = new Date();
+    const [current1, current2] = await Promise.all([player1, player2].map(userId =>
+        prisma.rating.upsert({
+            where: { userId_game_name: { userId, game_name: game } },
+            create: { userId, game_name: game },
+            update: {},
+        })
+    ));
+    const before1 = { rating: current1.rating, rd: decayRd(current1.rd, now.getTime() - current1.updatedAt.getTime()) };
+    const before2 = { rating: current2.rating, rd: decayRd(current2.rd, now.getTime() - current2.updatedAt.getTime()) };
+    const results = [
+        { userId: player1, current: current1, after: rateGame(before1, before2, score1), score: score1 },
+        { userId: player2, current: current2, after: rateGame(before2, before1, 1 - score1), score: 1 - score1 },
+    ];
+
+    for (const { userId, current, after, score } of results) {
+        await prisma.rating.update({
+            where: { userId_game_name: { userId, game_name: game } },
+            data: {
+                rating: after.rating,
+                rd: after.rd,
+                peak: Math.max(current.peak, after.rating),
+                wins: { increment: score === 1 ? 1 : 0 },
+                losses: { increment: score === 0 ? 1 : 0 },
+                draws: { increment: score === 0.5 ? 1 : 0 },
+                updatedAt: now,
+            },
+        });
+        await prisma.ratingHistory.create({
+            data: {
+                userId,
+                game_name: game,
+                id_game: gameId,
+                rating_before: current.rating,
+                rating_after: after.rating,
+                rd_after: after.rd,
+                change: after.rating - current.rating,
+                date: now,
+            },
+        });
+    }
+
+    return results.map(({ userId, current, after }) => ({
+        userId,
+        before: current.rating,
+        after: after.rating,
+        rd: after.rd,
+        change: after.rating - current.rating,
+    }));
+}
+
+// Current ratings of the registered players among the given ones, by user id
+export async function getRatings(prisma: PrismaClient, game: GameName, players: { playerId: number | null }[]) {
+    const ids = players.map(p => p.playerId).filter((id): id is number => !!id);
+    const rows = ids.length ? await prisma.rating.findMany({ where: { game_name: game, userId: { in: ids } } }) : [];
+    return new Map(rows.map(r => [r.userId, r.rating]));
+}
@@ -0,0 +1,52 @@
+import env from "./env.js";
+import { Player } from "./types/lobby";
+
+// Seats of registered players who dropped out of a remote match, waiting for them to come back
+const graceTimers = new Map<Player, NodeJS.Timeout>();
+
+export function isResumable(mode: "local" | "remote", player: Player) {
+    return mode === "remote" && player.playerId !== null;
+}
+
+export function holdSeat(player: Player) {
+    player.socketId = null;
+    player.disconnected = true;
+}
+
+// Forfeits the seat if its player has not reconnected once the grace window runs out
+export function startGraceTimer(player: Player, onExpire: () => void) {
+    clearGraceTimer(player);
+    graceTimers.set(player, setTimeout(() => {
+        graceTimers.delete(player);
+        onExpire();
+    }, env.RECONNECT_GRACE_SECONDS * 1000));
+}
+
+export function clearGraceTimer(player: Player) {
+    const timer = graceTimers.get(player);
+    if (timer) {
+        clearTimeout(timer);
+        graceTimers.delete(player);
+    }
+}
+
+// Hands a held seat back to the same playerId on its new socket
+export function reclaimSeat(players: Player[], playerId: number | null, socketId: string): Player | null {
+    if (!playerId)
+        return null;
+    const player = players.find(p => p.playerId === playerId && p.disconnected);
+    if (!player)
+        return null;
+    clearGraceTimer(player);
+    player.socketId = socketId;
+    player.disconnected = false;
+    return player;
+}
+
+export function connectedPlayers(players: Player[]) {
+    return players.filter(p => !p.disconnected);
+}
+
+export function releaseSeats(players: Player[]) {
+    players.forEach(clearGraceTimer);
+}
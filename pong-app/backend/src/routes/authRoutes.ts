@@ -9,10 +9,38 @@ import {
   sendVerificationCode,
   sendPasswordResetEmail,
   sendRegisterSuccessEmail,
+  sendAccountLockedEmail,
 } from '../service/emailService';
 import {OAuth2Client} from 'google-auth-library';
 import validator from 'validator';
-import speakeasy from 'speakeasy';
+import {
+  generateTotpSecret,
+  totpUrl,
+  totpQrCode,
+  verifyTotp,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from '../service/twoFactorService';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  SESSION_TTL_MS,
+  ROTATION_GRACE_MS,
+  PENDING_LOGIN_TTL_MS,
+  newRefreshSecret,
+  hashRefreshSecret,
+  refreshToken,
+  parseRefreshToken,
+  describeDevice,
+  verifyAccessToken,
+} from '../service/sessionService';
+import {
+  RateLimiter,
+  authLimiters,
+  failureDelayMs,
+  MAX_CODE_ATTEMPTS,
+  LOCKOUT_THRESHOLD,
+  LOCKOUT_MS,
+} from '../service/rateLimitService';
 
 if (!env.GOOGLE_CLIENT_ID) {
   throw new Error('GOOGLE_CLIENT_ID environment variable is required');
@@ -40,6 +68,24 @@ interface VerifyInput {
   code: string;
 }
 
+interface TwoFactorLoginInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+interface ReauthInput {
+  password: string;
+}
+
+interface TotpCodeInput {
+  code: string;
+}
+
+interface TwoFactorMethodInput {
+  method: 'email' | 'totp';
+  password?: string;
+}
+
 interface ResetPasswordInput {
   email: string;
 }
@@ -56,8 +102,14 @@ export default function authRoutes(
   const {prisma} = options;
 
   // JWT functions
-  const generateToken = (userId: number, username: string): string => {
-    return jwt.sign({userId, username}, env.JWT_SECRET, {expiresIn: '1h'});
+  const generateToken = (
+    userId: number,
+    username: string,
+    sessionId: string,
+  ): string => {
+    return jwt.sign({userId, username, sessionId}, env.JWT_SECRET, {
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    });
   };
 
   // Password functions
@@ -77,19 +129,9 @@ export default function authRoutes(
     return origin?.includes('ngrok') ? env.FRONTEND_REMOTE_URL : env.CP_URL;
   };
 
-  // 2FA functions
-  const generateTwoFactorSecret = (
-    email: string,
-  ): speakeasy.GeneratedSecret => {
-    const issuer = env.TEAM_NAME ?? 'Hivers5 Asteroids';
-    const label = `${issuer}:${email}`;
-
-    return speakeasy.generateSecret({
-      name: label,
-      issuer,
-      length: 20,
-    });
-  };
+  // Helper function to read the session of an authenticated request
+  const verifyAuth = (request: FastifyRequest) =>
+    verifyAccessToken(app, prisma, request.cookies.authToken);
 
   // Helper function to generate random code
   const generateRandomCode = (length = 6): string => {
@@ -104,21 +146,208 @@ export default function authRoutes(
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'strict',
-      maxAge: 60 * 60, // 1 hour
+      maxAge: ACCESS_TOKEN_TTL_SECONDS,
       path: '/',
       domain:
         process.env.NODE_ENV === 'production' ? '.yourdomain.com' : undefined,
     });
   };
 
-  const clearAuthCookie = (reply: FastifyReply) => {
-    reply.clearCookie('authToken', {
+  const setRefreshCookie = (reply: FastifyReply, token: string) => {
+    reply.setCookie('refreshToken', token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: SESSION_TTL_MS / 1000,
+      path: '/',
+      domain:
+        process.env.NODE_ENV === 'production' ? '.yourdomain.com' : undefined,
+    });
+  };
+
+  const setPendingLoginCookie = (reply: FastifyReply, token: string) => {
+    reply.setCookie('pendingLogin', token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: PENDING_LOGIN_TTL_MS / 1000,
       path: '/',
       domain:
         process.env.NODE_ENV === 'production' ? '.yourdomain.com' : undefined,
     });
   };
 
+  const clearPendingLoginCookie = (reply: FastifyReply) => {
+    reply.clearCookie('pendingLogin', {
+      path: '/',
+      domain:
+        process.env.NODE_ENV === 'production' ? '.yourdomain.com' : undefined,
+    });
+  };
+
+  const clearAuthCookie = (reply: FastifyReply) => {
+    for (const name of ['authToken', 'refreshToken']) {
+      reply.clearCookie(name, {
+        path: '/',
+        domain:
+          process.env.NODE_ENV === 'production' ? '.yourdomain.com' : undefined,
+      });
+    }
+  };
+
+  // Helper function starting a session on this device: a Session row and both cookies
+  const startSession = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    user: {id: number; username: string},
+  ) => {
+    const secret = newRefreshSecret();
+    const userAgent = request.headers['user-agent'];
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashRefreshSecret(secret),
+        device: describeDevice(userAgent),
+        userAgent: userAgent ?? null,
+        ip: request.ip,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      },
+    });
+    setAuthCookie(reply, generateToken(user.id, user.username, session.id));
+    setRefreshCookie(reply, refreshToken(session.id, secret));
+  };
+
+  // Helper function remembering on this device that the user's password was checked, so
+  // verify-2fa only finishes logins that got past it
+  const startPendingLogin = async (reply: FastifyReply, userId: number) => {
+    const secret = newRefreshSecret();
+    const pendingLogin = await prisma.pendingLogin.create({
+      data: {
+        userId,
+        tokenHash: hashRefreshSecret(secret),
+        expiresAt: new Date(Date.now() + PENDING_LOGIN_TTL_MS),
+      },
+    });
+    setPendingLoginCookie(reply, refreshToken(pendingLogin.id, secret));
+  };
+
+  // Helper function reading the pending login of this device, with its user
+  const findPendingLogin = async (request: FastifyRequest) => {
+    const parsed = parseRefreshToken(request.cookies.pendingLogin);
+    const pendingLogin = parsed
+      ? await prisma.pendingLogin.findUnique({
+          where: {id: parsed.sessionId},
+          include: {user: true},
+        })
+      : null;
+    if (
+      !parsed ||
+      !pendingLogin ||
+      pendingLogin.usedAt ||
+      pendingLogin.expiresAt <= new Date() ||
+      hashRefreshSecret(parsed.secret) !== pendingLogin.tokenHash
+    ) {
+      throw new Error('LOGIN_EXPIRED');
+    }
+    return pendingLogin;
+  };
+
+  // Helper function for 429 responses, telling the client when to try again
+  const sendTooManyRequests = (
+    reply: FastifyReply,
+    retryAfterMs: number,
+    error: string,
+    message: string,
+  ) => {
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    const wait =
+      retryAfter < 120
+        ? `${retryAfter} seconds`
+        : `${Math.ceil(retryAfter / 60)} minutes`;
+    return reply
+      .status(429)
+      .header('Retry-After', String(retryAfter))
+      .send({error, message: `${message} Please try again in ${wait}.`, retryAfter});
+  };
+
+  // Route hook counting a request against a limiter, by IP or by account
+  const rateLimit =
+    (limiter: RateLimiter, key: (request: FastifyRequest) => string) =>
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const retryAfterMs = limiter.hit(key(request));
+      if (retryAfterMs > 0) {
+        return sendTooManyRequests(
+          reply,
+          retryAfterMs,
+          'TOO_MANY_REQUESTS',
+          'Too many requests.',
+        );
+      }
+    };
+
+  const byIp = (request: FastifyRequest) => request.ip;
+
+  // Helper function refusing a login attempt on a locked account, or one that failed too
+  // recently: each failure past the first few doubles the wait before the next attempt
+  const rejectThrottledAccount = (
+    reply: FastifyReply,
+    user: {
+      failedLoginAttempts: number;
+      lastFailedLoginAt: Date | null;
+      lockedUntil: Date | null;
+    },
+  ) => {
+    const now = Date.now();
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      return sendTooManyRequests(
+        reply,
+        user.lockedUntil.getTime() - now,
+        'ACCOUNT_LOCKED',
+        'This account is temporarily locked after too many failed attempts.',
+      );
+    }
+    const waitMs = user.lastFailedLoginAt
+      ? user.lastFailedLoginAt.getTime() +
+        failureDelayMs(user.failedLoginAttempts) -
+        now
+      : 0;
+    if (waitMs > 0) {
+      return sendTooManyRequests(
+        reply,
+        waitMs,
+        'TOO_MANY_ATTEMPTS',
+        'Too many failed attempts.',
+      );
+    }
+    return null;
+  };
+
+  // Helper function counting a failed password or 2FA code, locking the account at the threshold
+  const recordLoginFailure = async (
+    request: FastifyRequest,
+    user: {id: number; email: string; username: string},
+  ) => {
+    const {failedLoginAttempts} = await prisma.user.update({
+      where: {id: user.id},
+      data: {failedLoginAttempts: {increment: 1}, lastFailedLoginAt: new Date()},
+    });
+    if (failedLoginAttempts < LOCKOUT_THRESHOLD) {
+      return;
+    }
+
+    const lockedUntil = new Date(Date.now() + LOCKOUT_MS);
+    await prisma.user.update({
+      where: {id: user.id},
+      data: {failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil},
+    });
+    await sendAccountLockedEmail(
+      user.email,
+      user.username,
+      lockedUntil,
+      `${getBaseUrl(request)}/reset-password`,
+    ).catch(error => console.error('Failed to send account locked email:', error));
+  };
+
   // Helper function for friendship creation
   const createUserFriendships = async (newUser: {
     id: number;
@@ -191,16 +420,38 @@ export default function authRoutes(
     const verificationCode = await prisma.verificationCode.findFirst({
       where: {
         userId,
-        code,
         expiresAt: {gt: new Date()},
         usedAt: null,
       },
+      orderBy: {createdAt: 'desc'},
     });
 
     if (!verificationCode) {
       throw new Error('INVALID_CODE');
     }
 
+    const matches =
+      verificationCode.code.length === code.length &&
+      crypto.timingSafeEqual(
+        Buffer.from(verificationCode.code),
+        Buffer.from(code),
+      );
+    if (!matches) {
+      const {attempts} = await prisma.verificationCode.update({
+        where: {id: verificationCode.id},
+        data: {attempts: {increment: 1}},
+      });
+      // A code guessed at too often stops working; the user has to ask for a new one
+      if (attempts >= MAX_CODE_ATTEMPTS) {
+        await prisma.verificationCode.update({
+          where: {id: verificationCode.id},
+          data: {usedAt: new Date()},
+        });
+        throw new Error('CODE_ATTEMPTS_EXCEEDED');
+      }
+      throw new Error('INVALID_CODE');
+    }
+
     // Clean up verification codes
     await prisma.verificationCode.deleteMany({
       where: {userId},
@@ -209,6 +460,114 @@ export default function authRoutes(
     return verificationCode;
   };
 
+  // Helper function for authenticator app code validation
+  const validateAndConsumeTotpCode = async (
+    user: {id: number; twoFactorSecret: string | null; twoFactorLastStep: number | null},
+    code: string,
+  ) => {
+    const step = user.twoFactorSecret
+      ? verifyTotp(user.twoFactorSecret, code, user.twoFactorLastStep)
+      : null;
+    if (step === null) {
+      throw new Error('INVALID_CODE');
+    }
+
+    // Only one request can move the last step forward, so each code is accepted once
+    const {count} = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{twoFactorLastStep: null}, {twoFactorLastStep: {lt: step}}],
+      },
+      data: {twoFactorLastStep: step},
+    });
+    if (count === 0) {
+      throw new Error('INVALID_CODE');
+    }
+  };
+
+  // Helper function for recovery code validation, marking the code used
+  const validateAndConsumeRecoveryCode = async (userId: number, code: string) => {
+    const {count} = await prisma.recoveryCode.updateMany({
+      where: {userId, codeHash: hashRecoveryCode(code), usedAt: null},
+      data: {usedAt: new Date()},
+    });
+    if (count === 0) {
+      throw new Error('INVALID_CODE');
+    }
+  };
+
+  // Helper function replacing a user's recovery codes; returns the new codes, shown only once
+  const replaceRecoveryCodes = async (userId: number) => {
+    const codes = generateRecoveryCodes();
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({where: {userId}}),
+      prisma.recoveryCode.createMany({
+        data: codes.map(code => ({userId, codeHash: hashRecoveryCode(code)})),
+      }),
+    ]);
+    return codes;
+  };
+
+  // Helper function asking for the password again before 2FA settings change
+  const reauthenticate = async (userId: number, password: string) => {
+    const user = await prisma.user.findUnique({where: {id: userId}});
+    if (!user) {
+      throw new Error('USER_NOT_FOUND');
+    }
+    if (!user.password || !(await comparePasswords(password, user.password))) {
+      throw new Error('INVALID_PASSWORD');
+    }
+    return user;
+  };
+
+  // Helper function starting an authenticator app enrollment, kept pending until confirmed
+  const startTotpEnrollment = async (user: {id: number; email: string}) => {
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: {id: user.id},
+      data: {twoFactorPendingSecret: secret},
+    });
+
+    const otpauthUrl = totpUrl(secret, user.email);
+    return {
+      otpauthUrl,
+      qrCode: await totpQrCode(otpauthUrl),
+      // For apps set up by typing the key instead of scanning
+      secret,
+    };
+  };
+
+  // Shared responses for the errors of the 2FA settings endpoints
+  const sendTwoFactorSettingsError = (error: unknown, reply: FastifyReply) => {
+    if (!(error instanceof Error)) {
+      return null;
+    }
+    switch (error.message) {
+      case 'AUTHENTICATION_REQUIRED':
+        return reply.status(401).send({
+          error: 'AUTHENTICATION_REQUIRED',
+          message: 'Authentication required',
+        });
+      case 'USER_NOT_FOUND':
+        return reply.status(404).send({
+          error: 'USER_NOT_FOUND',
+          message: 'User not found',
+        });
+      // Not 401, which the frontend takes as the session having ended
+      case 'INVALID_PASSWORD':
+        return reply.status(403).send({
+          error: 'INVALID_PASSWORD',
+          message: 'Incorrect password',
+        });
+      default:
+        return null;
+    }
+  };
+
+  // Users log in with their authenticator app once they have chosen it and confirmed one
+  const usesTotp = (user: {twoFactorMethod: string; twoFactorRegistered: boolean}) =>
+    user.twoFactorMethod === 'totp' && user.twoFactorRegistered;
+
   // Helper function for updating user login status
   const updateUserLoginStatus = async (
     userId: number,
@@ -219,6 +578,9 @@ export default function authRoutes(
       data: {
         online_status: 'online',
         lastLogin: new Date(),
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
         ...additionalData,
       },
     });
@@ -302,9 +664,8 @@ export default function authRoutes(
           // Use helper function for status update
           await updateUserLoginStatus(user.id);
         }
-        // Use generateToken helper for consistent 1-hour expiry
-        const token = generateToken(user.id, user.username);
-        setAuthCookie(reply, token);
+        // Start a session like every other login
+        await startSession(request, reply, user);
 
         return reply.send({
           user: {
@@ -397,14 +758,6 @@ export default function authRoutes(
 
         const hashedPassword = await hashPassword(password);
 
-        const twoFactorSecret = generateTwoFactorSecret(email);
-        if (twoFactorSecret.otpauth_url === undefined) {
-          return reply.status(500).send({
-            error: '2FA_ERROR',
-            message: 'Failed to generate two-factor authentication secret',
-          });
-        }
-
         // Create new user
         const newUser = await prisma.user.create({
           data: {
@@ -412,8 +765,6 @@ export default function authRoutes(
             password: hashedPassword,
             email,
             isVerified: false,
-            twoFactorSecret: twoFactorSecret.base32,
-            twoFactorURL: twoFactorSecret.otpauth_url,
             auth_provider: 'email',
           },
         });
@@ -448,6 +799,7 @@ export default function authRoutes(
   app.post<{Body: VerifyInput}>(
     '/auth/verify-email',
     {
+      preHandler: [rateLimit(authLimiters.code, byIp)],
       schema: {
         body: {
           type: 'object',
@@ -477,7 +829,7 @@ export default function authRoutes(
         // Send registration success email
         await sendRegisterSuccessEmail(user.email, user.username, baseUrl);
 
-        // Return response with TOTP URL but don't log the user in
+        // Don't log the user in
         return reply.send({
           success: true,
           message: 'Email verified successfully. Please login to continue.',
@@ -487,7 +839,6 @@ export default function authRoutes(
             username: user.username,
             isVerified: true,
           },
-          totp_url: user.twoFactorURL,
         });
       } catch (error) {
         if (error instanceof Error && error.message === 'INVALID_CODE') {
@@ -496,6 +847,15 @@ export default function authRoutes(
             message: 'Invalid or expired verification code',
           });
         }
+        if (
+          error instanceof Error &&
+          error.message === 'CODE_ATTEMPTS_EXCEEDED'
+        ) {
+          return reply.status(429).send({
+            error: 'CODE_ATTEMPTS_EXCEEDED',
+            message: 'Too many wrong codes. Please request a new code.',
+          });
+        }
 
         console.error('Email verification error:', error);
         return reply.status(500).send({
@@ -510,12 +870,13 @@ export default function authRoutes(
    *                    USER LOGIN
    * Endpoint: POST /auth/login
    * Input: Username and password for authentication
-   * Output: 2FA requirement confirmation with user ID; 2FA code sent to user's email
-   * Description: Validates user credentials, generates 6-digit email verification code, and sends 2FA code to user's registered email address for login completion.
+   * Output: 2FA requirement confirmation with user ID and 2FA method; pending login started via httpOnly cookie; 2FA code sent to user's email unless they use an authenticator app
+   * Description: Validates user credentials, starts a pending login that only verify-2fa can finish, then either generates a 6-digit email verification code and sends it to user's registered email address, or asks for a code from their authenticator app, for login completion. Failed attempts make the account wait longer before the next one, and enough of them lock it for a while.
    ************************************************************************ */
   app.post<{Body: LoginInput}>(
     '/auth/login',
     {
+      preHandler: [rateLimit(authLimiters.login, byIp)],
       schema: {
         body: {
           type: 'object',
@@ -563,9 +924,15 @@ export default function authRoutes(
             });
         }
 
+        const throttled = rejectThrottledAccount(reply, user);
+        if (throttled) {
+          return throttled;
+        }
+
         // Verify password
         const passwordMatch = await comparePasswords(password, user.password);
         if (!passwordMatch) {
+          await recordLoginFailure(request, user);
           return reply
             .status(401)
             .send({
@@ -574,30 +941,25 @@ export default function authRoutes(
             });
         }
 
-        if (!user.twoFactorSecret) {
-          return reply.status(403).send({
-            error: 'INVALID_TWOFACTOR_SECRET',
-            message: 'Invalid 2 factor secret',
-          });
-        }
+        await startPendingLogin(reply, user.id);
 
-        if (!user.twoFactorURL) {
-          return reply.status(403).send({
-            error: 'INVALID_TWOFACTOR_URL',
-            message: 'Invalid 2 factor URL',
+        if (usesTotp(user)) {
+          return reply.send({
+            requires2FA: true,
+            userId: user.id,
+            method: 'totp',
+            message: 'Enter the code from your authenticator app to continue.',
           });
         }
 
-        const url = user.twoFactorRegistered ? null : user.twoFactorURL;
-
         // Use helper function for verification code creation and email sending
         await createAndSendVerificationCode(user, 'login-2fa');
 
         return reply.send({
           requires2FA: true,
           userId: user.id,
+          method: 'email',
           message: '2FA code sent to your email. Please verify to continue.',
-          url,
         });
       } catch (error) {
         console.error('Login error:', error);
@@ -612,56 +974,83 @@ export default function authRoutes(
   /* **********************************************************************
    *             2FA LOGIN VERIFICATION
    * Endpoint: POST /auth/verify-2fa
-   * Input: User ID and 6-digit verification code from login email
+   * Input: Pending login via httpOnly cookie from /auth/login, and the 6-digit code from the login email or the authenticator app, or a recovery code
    * Output: User details and session started via httpOnly cookie
-   * Description: Validates email verification code for 2FA login, creates user session, and marks TOTP as registered if first time setup.
+   * Description: Finishes the login whose password was checked on this device; the user comes from the pending login, which works once and expires after 10 minutes. Validates the code of the user's 2FA method (an authenticator app code is accepted within one time step of drift, and only once) or one of their unused recovery codes, then creates user session. Wrong codes count as failed login attempts; attempts are limited per IP and per account.
    ************************************************************************ */
-  app.post<{Body: VerifyInput}>(
+  app.post<{Body: TwoFactorLoginInput}>(
     '/auth/verify-2fa',
     {
+      preHandler: [rateLimit(authLimiters.code, byIp)],
       schema: {
         body: {
           type: 'object',
-          required: ['userId', 'code'],
           properties: {
-            userId: {type: 'number'},
             code: {type: 'string', minLength: 6, maxLength: 6},
+            recoveryCode: {type: 'string', minLength: 1, maxLength: 32},
           },
         },
       },
     },
     async (request, reply) => {
-      const {userId, code} = request.body;
+      const {code, recoveryCode} = request.body;
 
       try {
-        const user = await prisma.user.findUnique({where: {id: userId}});
+        const pendingLogin = await findPendingLogin(request);
+        const {user} = pendingLogin;
+
+        const retryAfterMs = authLimiters.codeAccount.hit(String(user.id));
+        if (retryAfterMs > 0) {
+          return sendTooManyRequests(
+            reply,
+            retryAfterMs,
+            'TOO_MANY_REQUESTS',
+            'Too many requests.',
+          );
+        }
 
-        if (!user) {
-          return reply.status(401).send({
-            error: 'USER_NOT_FOUND',
-            message: 'User not found',
-          });
+        const throttled = rejectThrottledAccount(reply, user);
+        if (throttled) {
+          return throttled;
         }
 
-        if (!user.twoFactorSecret) {
-          return reply.status(401).send({
-            error: 'TWOFACTOR_SECRET_NOT_FOUND',
-            message: 'twoFactorSecret not found',
-          });
+        // Use helper functions for validation; wrong codes count towards the lockout, which
+        // only logins that got past the password can reach
+        try {
+          if (recoveryCode !== undefined && user.twoFactorRegistered) {
+            await validateAndConsumeRecoveryCode(user.id, recoveryCode);
+          } else if (code === undefined) {
+            throw new Error('INVALID_CODE');
+          } else if (usesTotp(user)) {
+            await validateAndConsumeTotpCode(user, code);
+          } else {
+            await validateAndConsumeVerificationCode(user.id, code);
+          }
+        } catch (error) {
+          if (
+            error instanceof Error &&
+            ['INVALID_CODE', 'CODE_ATTEMPTS_EXCEEDED'].includes(error.message)
+          ) {
+            await recordLoginFailure(request, user);
+          }
+          throw error;
         }
 
-        // Use helper function for validation
-        await validateAndConsumeVerificationCode(userId, code);
+        // Only one request can finish a pending login
+        const {count} = await prisma.pendingLogin.updateMany({
+          where: {id: pendingLogin.id, usedAt: null},
+          data: {usedAt: new Date()},
+        });
+        if (count === 0) {
+          throw new Error('LOGIN_EXPIRED');
+        }
+        clearPendingLoginCookie(reply);
 
         // Use helper function for status update
-        const additionalData = !user.twoFactorRegistered
-          ? {twoFactorRegistered: true}
-          : {};
-        await updateUserLoginStatus(user.id, additionalData);
+        await updateUserLoginStatus(user.id);
 
-        // Generate JWT and set cookie
-        const authToken = generateToken(user.id, user.username);
-        setAuthCookie(reply, authToken);
+        // Start a session: JWT and refresh token cookies
+        await startSession(request, reply, user);
 
         // Return user data (no token in response body for security)
         return reply.send({
@@ -673,12 +1062,28 @@ export default function authRoutes(
           },
         });
       } catch (error) {
+        if (error instanceof Error && error.message === 'LOGIN_EXPIRED') {
+          clearPendingLoginCookie(reply);
+          return reply.status(401).send({
+            error: 'LOGIN_EXPIRED',
+            message: 'Your login has expired. Please login again.',
+          });
+        }
         if (error instanceof Error && error.message === 'INVALID_CODE') {
           return reply.status(401).send({
             error: 'INVALID_CODE',
             message: 'Invalid or expired verification code',
           });
         }
+        if (
+          error instanceof Error &&
+          error.message === 'CODE_ATTEMPTS_EXCEEDED'
+        ) {
+          return reply.status(429).send({
+            error: 'CODE_ATTEMPTS_EXCEEDED',
+            message: 'Too many wrong codes. Please request a new code.',
+          });
+        }
 
         console.error('2FA verification error:', error);
         return reply.status(500).send({
@@ -692,19 +1097,19 @@ export default function authRoutes(
   /* **********************************************************************
    *              RESEND VERIFICATION CODE (Unified)
    * Endpoint: POST /auth/resend-verification-code
-   * Input: User ID and context type (email-verification or login-2fa)
+   * Input: Context type (email-verification or login-2fa); the user ID for email verification, the pending login via httpOnly cookie for 2FA login
    * Output: Success confirmation; new verification code sent to user's email
-   * Description: Generates fresh 6-digit verification code for either email verification or 2FA login, invalidates old codes, and sends appropriate email.
+   * Description: Generates fresh 6-digit verification code for either email verification or 2FA login, invalidates old codes, and sends appropriate email. A 2FA login code is only resent for the login whose password was checked on this device; for email verification the answer is the same whether or not the user exists or still needs verifying.
    ************************************************************************ */
   app.post<{
-    Body: {userId: number; context?: 'email-verification' | 'login-2fa'};
+    Body: {userId?: number; context?: 'email-verification' | 'login-2fa'};
   }>(
     '/auth/resend-verification-code',
     {
+      preHandler: [rateLimit(authLimiters.resend, byIp)],
       schema: {
         body: {
           type: 'object',
-          required: ['userId'],
           properties: {
             userId: {type: 'number'},
             context: {
@@ -719,11 +1124,210 @@ export default function authRoutes(
     async (request, reply) => {
       const {userId, context = 'email-verification'} = request.body;
 
+      // Per account, so one inbox can't be flooded from many addresses
+      const rejectFloodedAccount = (id: number) => {
+        const retryAfterMs = authLimiters.resendAccount.hit(String(id));
+        return retryAfterMs > 0
+          ? sendTooManyRequests(
+              reply,
+              retryAfterMs,
+              'TOO_MANY_REQUESTS',
+              'Too many requests.',
+            )
+          : null;
+      };
+
       try {
-        // Find user
+        if (context === 'login-2fa') {
+          const {user} = await findPendingLogin(request);
+
+          const flooded = rejectFloodedAccount(user.id);
+          if (flooded) {
+            return flooded;
+          }
+
+          if (usesTotp(user)) {
+            return reply.status(400).send({
+              error: 'TOTP_ENABLED',
+              message: 'Use the code from your authenticator app to log in',
+            });
+          }
+
+          // Use helper function for verification code creation and email sending
+          await createAndSendVerificationCode(user, context);
+
+          return reply.send({
+            success: true,
+            message: 'New 2FA code sent to your email',
+          });
+        }
+
+        if (userId === undefined) {
+          return reply.status(400).send({
+            error: 'USER_ID_REQUIRED',
+            message: 'User ID is required',
+          });
+        }
+
+        const flooded = rejectFloodedAccount(userId);
+        if (flooded) {
+          return flooded;
+        }
+
+        // Only unverified users get a code, but every caller gets the same answer
         const user = await prisma.user.findUnique({
           where: {id: userId},
         });
+        if (user && !user.isVerified) {
+          await createAndSendVerificationCode(user, context);
+        }
+
+        return reply.send({
+          success: true,
+          message: 'New verification code sent to your email',
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'LOGIN_EXPIRED') {
+          clearPendingLoginCookie(reply);
+          return reply.status(401).send({
+            error: 'LOGIN_EXPIRED',
+            message: 'Your login has expired. Please login again.',
+          });
+        }
+        console.error('Resend verification code error:', error);
+        return reply.status(500).send({
+          error: 'RESEND_FAILED',
+          message: 'Failed to resend verification code. Please try again.',
+        });
+      }
+    },
+  );
+
+  /* **********************************************************************
+   *              2FA SETTINGS
+   * Endpoint: GET /auth/2fa
+   * Input: Authentication via httpOnly cookie
+   * Output: The user's 2FA method and whether an authenticator app is set up
+   * Description: Reports which second factor is asked for at login.
+   ************************************************************************ */
+  app.get('/auth/2fa', async (request, reply) => {
+    try {
+      const decoded = await verifyAuth(request);
+      const user = await prisma.user.findUnique({
+        where: {id: decoded.userId},
+        select: {
+          twoFactorMethod: true,
+          twoFactorRegistered: true,
+          auth_provider: true,
+          _count: {select: {recoveryCodes: {where: {usedAt: null}}}},
+        },
+      });
+
+      if (!user) {
+        return reply.status(404).send({
+          error: 'USER_NOT_FOUND',
+          message: 'User not found',
+        });
+      }
+
+      return reply.send({
+        method: user.twoFactorMethod,
+        totpEnabled: user.twoFactorRegistered,
+        recoveryCodesLeft: user._count.recoveryCodes,
+        // Google accounts sign in through Google and never get asked for a code
+        available: user.auth_provider === 'email',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'AUTHENTICATION_REQUIRED') {
+        return reply.status(401).send({
+          error: 'AUTHENTICATION_REQUIRED',
+          message: 'Authentication required',
+        });
+      }
+      console.error('Get 2FA settings error:', error);
+      return reply.status(500).send({
+        error: '2FA_SETTINGS_FETCH_FAILED',
+        message: 'Failed to fetch 2FA settings',
+      });
+    }
+  });
+
+  /* **********************************************************************
+   *              AUTHENTICATOR APP ENROLLMENT
+   * Endpoint: POST /auth/2fa/totp/setup
+   * Input: Authentication via httpOnly cookie
+   * Output: QR code (data URL), otpauth URL and secret of a new authenticator app secret
+   * Description: Generates a new TOTP secret and keeps it pending until a code from it is confirmed with /auth/2fa/totp/confirm.
+   ************************************************************************ */
+  app.post('/auth/2fa/totp/setup', async (request, reply) => {
+    try {
+      const decoded = await verifyAuth(request);
+      const user = await prisma.user.findUnique({where: {id: decoded.userId}});
+
+      if (!user) {
+        return reply.status(404).send({
+          error: 'USER_NOT_FOUND',
+          message: 'User not found',
+        });
+      }
+
+      if (user.auth_provider === 'google') {
+        return reply.status(400).send({
+          error: 'GOOGLE_OAUTH_USER',
+          message: 'Google Sign-In accounts do not use two-factor codes',
+        });
+      }
+
+      // Replacing the app of an account goes through /auth/2fa/totp/rotate, which asks for the password
+      if (user.twoFactorRegistered) {
+        return reply.status(409).send({
+          error: 'TOTP_ALREADY_ENABLED',
+          message: 'An authenticator app is already set up',
+        });
+      }
+
+      return reply.send(await startTotpEnrollment(user));
+    } catch (error) {
+      if (error instanceof Error && error.message === 'AUTHENTICATION_REQUIRED') {
+        return reply.status(401).send({
+          error: 'AUTHENTICATION_REQUIRED',
+          message: 'Authentication required',
+        });
+      }
+      console.error('TOTP setup error:', error);
+      return reply.status(500).send({
+        error: 'TOTP_SETUP_FAILED',
+        message: 'Failed to set up the authenticator app. Please try again.',
+      });
+    }
+  });
+
+  /* **********************************************************************
+   *              AUTHENTICATOR APP CONFIRMATION
+   * Endpoint: POST /auth/2fa/totp/confirm
+   * Input: Authentication via httpOnly cookie and a 6-digit code from the authenticator app
+   * Output: Success confirmation; authenticator app becomes the user's 2FA method; recovery codes on first enrollment
+   * Description: Checks a code from the pending secret, proving the app was set up, then makes it the user's TOTP secret. The first enrollment also generates the user's recovery codes.
+   ************************************************************************ */
+  app.post<{Body: TotpCodeInput}>(
+    '/auth/2fa/totp/confirm',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['code'],
+          properties: {
+            code: {type: 'string', minLength: 6, maxLength: 6},
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const {code} = request.body;
+
+      try {
+        const decoded = await verifyAuth(request);
+        const user = await prisma.user.findUnique({where: {id: decoded.userId}});
 
         if (!user) {
           return reply.status(404).send({
@@ -732,29 +1336,276 @@ export default function authRoutes(
           });
         }
 
-        // Context-specific validations
-        if (context === 'email-verification' && user.isVerified) {
+        if (!user.twoFactorPendingSecret) {
           return reply.status(400).send({
-            error: 'ALREADY_VERIFIED',
-            message: 'Email is already verified',
+            error: 'TOTP_SETUP_NOT_STARTED',
+            message: 'Start the authenticator app setup first',
           });
         }
 
-        // Use helper function for verification code creation and email sending
-        await createAndSendVerificationCode(user, context);
+        const step = verifyTotp(user.twoFactorPendingSecret, code, null);
+        if (step === null) {
+          throw new Error('INVALID_CODE');
+        }
+
+        await prisma.user.update({
+          where: {id: user.id},
+          data: {
+            twoFactorSecret: user.twoFactorPendingSecret,
+            twoFactorURL: totpUrl(user.twoFactorPendingSecret, user.email),
+            twoFactorPendingSecret: null,
+            twoFactorLastStep: step,
+            twoFactorRegistered: true,
+            twoFactorMethod: 'totp',
+          },
+        });
+
+        // A rotated secret keeps the recovery codes the user already has
+        const recoveryCodes = user.twoFactorRegistered
+          ? null
+          : await replaceRecoveryCodes(user.id);
 
         return reply.send({
           success: true,
-          message:
-            context === 'login-2fa'
-              ? 'New 2FA code sent to your email'
-              : 'New verification code sent to your email',
+          message: 'Authenticator app set up. You will be asked for its code at login.',
+          recoveryCodes,
         });
       } catch (error) {
-        console.error('Resend verification code error:', error);
+        if (error instanceof Error && error.message === 'AUTHENTICATION_REQUIRED') {
+          return reply.status(401).send({
+            error: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required',
+          });
+        }
+        if (error instanceof Error && error.message === 'INVALID_CODE') {
+          return reply.status(400).send({
+            error: 'INVALID_CODE',
+            message: 'Invalid code. Check the time on your device and try again.',
+          });
+        }
+        console.error('TOTP confirmation error:', error);
         return reply.status(500).send({
-          error: 'RESEND_FAILED',
-          message: 'Failed to resend verification code. Please try again.',
+          error: 'TOTP_CONFIRM_FAILED',
+          message: 'Failed to confirm the authenticator app. Please try again.',
+        });
+      }
+    },
+  );
+
+  /* **********************************************************************
+   *              RECOVERY CODES REGENERATION
+   * Endpoint: POST /auth/2fa/recovery-codes
+   * Input: Authentication via httpOnly cookie and the user's password
+   * Output: A new set of recovery codes, shown only this once
+   * Description: Re-authenticates the user, then replaces all their recovery codes, used or not, with new ones.
+   ************************************************************************ */
+  app.post<{Body: ReauthInput}>(
+    '/auth/2fa/recovery-codes',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['password'],
+          properties: {
+            password: {type: 'string'},
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const decoded = await verifyAuth(request);
+        const user = await reauthenticate(decoded.userId, request.body.password);
+
+        if (!user.twoFactorRegistered) {
+          return reply.status(400).send({
+            error: 'TOTP_NOT_ENABLED',
+            message: 'Recovery codes come with an authenticator app. Set one up first.',
+          });
+        }
+
+        return reply.send({recoveryCodes: await replaceRecoveryCodes(user.id)});
+      } catch (error) {
+        const sent = sendTwoFactorSettingsError(error, reply);
+        if (sent) {
+          return sent;
+        }
+        console.error('Recovery codes regeneration error:', error);
+        return reply.status(500).send({
+          error: 'RECOVERY_CODES_FAILED',
+          message: 'Failed to generate recovery codes. Please try again.',
+        });
+      }
+    },
+  );
+
+  /* **********************************************************************
+   *              AUTHENTICATOR APP ROTATION
+   * Endpoint: POST /auth/2fa/totp/rotate
+   * Input: Authentication via httpOnly cookie and the user's password
+   * Output: QR code (data URL), otpauth URL and secret of a new authenticator app secret
+   * Description: Re-authenticates the user, then starts enrolling a new TOTP secret. The current one keeps working until a code from the new one is confirmed with /auth/2fa/totp/confirm.
+   ************************************************************************ */
+  app.post<{Body: ReauthInput}>(
+    '/auth/2fa/totp/rotate',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['password'],
+          properties: {
+            password: {type: 'string'},
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const decoded = await verifyAuth(request);
+        const user = await reauthenticate(decoded.userId, request.body.password);
+
+        if (!user.twoFactorRegistered) {
+          return reply.status(400).send({
+            error: 'TOTP_NOT_ENABLED',
+            message: 'No authenticator app is set up yet',
+          });
+        }
+
+        return reply.send(await startTotpEnrollment(user));
+      } catch (error) {
+        const sent = sendTwoFactorSettingsError(error, reply);
+        if (sent) {
+          return sent;
+        }
+        console.error('TOTP rotation error:', error);
+        return reply.status(500).send({
+          error: 'TOTP_ROTATE_FAILED',
+          message: 'Failed to replace the authenticator app. Please try again.',
+        });
+      }
+    },
+  );
+
+  /* **********************************************************************
+   *              AUTHENTICATOR APP REMOVAL
+   * Endpoint: POST /auth/2fa/totp/disable
+   * Input: Authentication via httpOnly cookie and the user's password
+   * Output: Success confirmation; login codes are emailed again
+   * Description: Re-authenticates the user, then removes their TOTP secret and recovery codes and switches their 2FA method back to email.
+   ************************************************************************ */
+  app.post<{Body: ReauthInput}>(
+    '/auth/2fa/totp/disable',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['password'],
+          properties: {
+            password: {type: 'string'},
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const decoded = await verifyAuth(request);
+        const user = await reauthenticate(decoded.userId, request.body.password);
+
+        await prisma.$transaction([
+          prisma.recoveryCode.deleteMany({where: {userId: user.id}}),
+          prisma.user.update({
+            where: {id: user.id},
+            data: {
+              twoFactorSecret: null,
+              twoFactorURL: null,
+              twoFactorPendingSecret: null,
+              twoFactorLastStep: null,
+              twoFactorRegistered: false,
+              twoFactorMethod: 'email',
+            },
+          }),
+        ]);
+
+        return reply.send({
+          success: true,
+          message: 'Authenticator app removed. Login codes will be emailed to you.',
+        });
+      } catch (error) {
+        const sent = sendTwoFactorSettingsError(error, reply);
+        if (sent) {
+          return sent;
+        }
+        console.error('TOTP disable error:', error);
+        return reply.status(500).send({
+          error: 'TOTP_DISABLE_FAILED',
+          message: 'Failed to remove the authenticator app. Please try again.',
+        });
+      }
+    },
+  );
+
+  /* **********************************************************************
+   *              2FA METHOD CHOICE
+   * Endpoint: PUT /auth/2fa/method
+   * Input: Authentication via httpOnly cookie, the method (email or totp), and the user's password when leaving the authenticator app
+   * Output: Success confirmation with the method now used at login
+   * Description: Switches the second factor asked for at login between emailed codes and the authenticator app, which must be set up first. Moving away from the authenticator app re-authenticates the user.
+   ************************************************************************ */
+  app.put<{Body: TwoFactorMethodInput}>(
+    '/auth/2fa/method',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['method'],
+          properties: {
+            method: {type: 'string', enum: ['email', 'totp']},
+            password: {type: 'string'},
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const {method, password} = request.body;
+
+      try {
+        const decoded = await verifyAuth(request);
+        const user = await prisma.user.findUnique({where: {id: decoded.userId}});
+
+        if (!user) {
+          return reply.status(404).send({
+            error: 'USER_NOT_FOUND',
+            message: 'User not found',
+          });
+        }
+
+        // Weakening the second factor takes the password, like removing the app does
+        if (usesTotp(user) && method !== 'totp') {
+          await reauthenticate(user.id, password ?? '');
+        }
+
+        if (method === 'totp' && !user.twoFactorRegistered) {
+          return reply.status(400).send({
+            error: 'TOTP_NOT_ENABLED',
+            message: 'Set up an authenticator app first',
+          });
+        }
+
+        await prisma.user.update({
+          where: {id: user.id},
+          data: {twoFactorMethod: method},
+        });
+
+        return reply.send({success: true, method});
+      } catch (error) {
+        const sent = sendTwoFactorSettingsError(error, reply);
+        if (sent) {
+          return sent;
+        }
+        console.error('Update 2FA method error:', error);
+        return reply.status(500).send({
+          error: '2FA_METHOD_UPDATE_FAILED',
+          message: 'Failed to update 2FA method. Please try again.',
         });
       }
     },
@@ -770,6 +1621,12 @@ export default function authRoutes(
   app.post<{Body: ResetPasswordInput}>(
     '/auth/reset-password',
     {
+      preHandler: [
+        rateLimit(authLimiters.reset, byIp),
+        rateLimit(authLimiters.resetAccount, request =>
+          (request.body as ResetPasswordInput).email.toLowerCase(),
+        ),
+      ],
       schema: {
         body: {
           type: 'object',
@@ -847,8 +1704,8 @@ export default function authRoutes(
    *            PASSWORD CHANGE
    * Endpoint: POST /auth/change-password
    * Input: Reset token and new password for account recovery
-   * Output: Success confirmation; password updated and reset token invalidated
-   * Description: Validates reset token, updates user password with new hashed value, and removes the used reset token from database for security.
+   * Output: Success confirmation; password updated, reset token invalidated and all sessions ended
+   * Description: Validates reset token, updates user password with new hashed value, removes the used reset token from database and revokes the user's sessions on every device for security.
    ************************************************************************ */
   app.post<{Body: ChangePasswordInput}>(
     '/auth/change-password',
@@ -896,7 +1753,7 @@ export default function authRoutes(
 
         const hashedPassword = await bcrypt.hash(password, 10);
 
-        // Update password and delete reset token
+        // Update password, delete reset token and end every session, in case one was stolen
         await prisma.$transaction([
           prisma.user.update({
             where: {id: tokenRecord.userId},
@@ -905,6 +1762,14 @@ export default function authRoutes(
           prisma.passwordResetToken.delete({
             where: {id: tokenRecord.id},
           }),
+          prisma.session.updateMany({
+            where: {userId: tokenRecord.userId, revokedAt: null},
+            data: {revokedAt: new Date()},
+          }),
+          // Logins started with the old password can't be finished either
+          prisma.pendingLogin.deleteMany({
+            where: {userId: tokenRecord.userId},
+          }),
         ]);
 
         return reply.send({
@@ -922,6 +1787,228 @@ export default function authRoutes(
     },
   );
 
+  /* **********************************************************************
+   *              SESSION RENEWAL
+   * Endpoint: POST /auth/refresh
+   * Input: Refresh token via httpOnly cookie
+   * Output: Success confirmation; new access and refresh token cookies
+   * Description: Renews the access token of a session and rotates its refresh token. A refresh token that was already replaced means it was copied, so the whole session is revoked.
+   ************************************************************************ */
+  app.post('/auth/refresh', async (request, reply) => {
+    const rejectRefresh = (error: string, message: string) => {
+      clearAuthCookie(reply);
+      return reply.status(401).send({error, message});
+    };
+
+    try {
+      const parsed = parseRefreshToken(request.cookies.refreshToken);
+      if (!parsed) {
+        return rejectRefresh('REFRESH_TOKEN_INVALID', 'Please login again.');
+      }
+
+      const now = new Date();
+      const session = await prisma.session.findUnique({
+        where: {id: parsed.sessionId},
+        include: {user: {select: {id: true, username: true}}},
+      });
+      if (!session || session.revokedAt || session.expiresAt <= now) {
+        return rejectRefresh(
+          'SESSION_EXPIRED',
+          'Your session has expired. Please login again.',
+        );
+      }
+
+      const hash = hashRefreshSecret(parsed.secret);
+      if (hash !== session.tokenHash) {
+        // Another tab of this browser renewed the session a moment ago and got the new cookies
+        if (
+          hash === session.previousTokenHash &&
+          session.rotatedAt &&
+          now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_MS
+        ) {
+          return reply.send({success: true});
+        }
+
+        await prisma.session.update({
+          where: {id: session.id},
+          data: {revokedAt: now},
+        });
+        console.warn(
+          `Refresh token reuse on session ${session.id} of user ${session.userId}; session revoked`,
+        );
+        return rejectRefresh(
+          'REFRESH_TOKEN_REUSED',
+          'This session was ended for your security. Please login again.',
+        );
+      }
+
+      const secret = newRefreshSecret();
+      const {count} = await prisma.session.updateMany({
+        where: {id: session.id, tokenHash: hash, revokedAt: null},
+        data: {
+          tokenHash: hashRefreshSecret(secret),
+          previousTokenHash: hash,
+          rotatedAt: now,
+          lastUsedAt: now,
+          ip: request.ip,
+          expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+        },
+      });
+      // A request from another tab rotated it in between; that one sets the cookies
+      if (count === 0) {
+        return reply.send({success: true});
+      }
+
+      // The server may have marked everyone offline since (a restart or inactivity)
+      await prisma.user.update({
+        where: {id: session.userId},
+        data: {online_status: 'online'},
+      });
+
+      setAuthCookie(
+        reply,
+        generateToken(session.user.id, session.user.username, session.id),
+      );
+      setRefreshCookie(reply, refreshToken(session.id, secret));
+      return reply.send({success: true});
+    } catch (error) {
+      console.error('Session refresh error:', error);
+      return reply.status(500).send({
+        error: 'REFRESH_FAILED',
+        message: 'Failed to renew session. Please try again.',
+      });
+    }
+  });
+
+  /* **********************************************************************
+   *              SESSION LIST
+   * Endpoint: GET /auth/sessions
+   * Input: Authentication via httpOnly cookie
+   * Output: The user's active sessions with device, IP and last use; the current one flagged
+   * Description: Lists the devices the user is logged in on.
+   ************************************************************************ */
+  app.get('/auth/sessions', async (request, reply) => {
+    try {
+      const decoded = await verifyAuth(request);
+      const sessions = await prisma.session.findMany({
+        where: {
+          userId: decoded.userId,
+          revokedAt: null,
+          expiresAt: {gt: new Date()},
+        },
+        orderBy: {lastUsedAt: 'desc'},
+      });
+
+      return reply.send(
+        sessions.map(session => ({
+          id: session.id,
+          device: session.device,
+          userAgent: session.userAgent,
+          ip: session.ip,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          current: session.id === decoded.sessionId,
+        })),
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === 'AUTHENTICATION_REQUIRED') {
+        return reply.status(401).send({
+          error: 'AUTHENTICATION_REQUIRED',
+          message: 'Authentication required',
+        });
+      }
+      console.error('Get sessions error:', error);
+      return reply.status(500).send({
+        error: 'SESSIONS_FETCH_FAILED',
+        message: 'Failed to fetch sessions',
+      });
+    }
+  });
+
+  /* **********************************************************************
+   *              SESSION REVOCATION
+   * Endpoint: DELETE /auth/sessions/:id
+   * Input: Authentication via httpOnly cookie and the session ID
+   * Output: Success confirmation; that device is logged out
+   * Description: Revokes one of the user's sessions, so its refresh token stops working. Its access token runs out within minutes.
+   ************************************************************************ */
+  app.delete('/auth/sessions/:id', async (request, reply) => {
+    try {
+      const decoded = await verifyAuth(request);
+      const {id} = request.params as {id: string};
+
+      const {count} = await prisma.session.updateMany({
+        where: {id, userId: decoded.userId, revokedAt: null},
+        data: {revokedAt: new Date()},
+      });
+      if (count === 0) {
+        return reply.status(404).send({
+          error: 'SESSION_NOT_FOUND',
+          message: 'Session not found',
+        });
+      }
+
+      if (id === decoded.sessionId) {
+        clearAuthCookie(reply);
+      }
+      return reply.send({success: true, current: id === decoded.sessionId});
+    } catch (error) {
+      if (error instanceof Error && error.message === 'AUTHENTICATION_REQUIRED') {
+        return reply.status(401).send({
+          error: 'AUTHENTICATION_REQUIRED',
+          message: 'Authentication required',
+        });
+      }
+      console.error('Revoke session error:', error);
+      return reply.status(500).send({
+        error: 'SESSION_REVOKE_FAILED',
+        message: 'Failed to log out that device. Please try again.',
+      });
+    }
+  });
+
+  /* **********************************************************************
+   *              LOG OUT EVERYWHERE
+   * Endpoint: DELETE /auth/sessions
+   * Input: Authentication via httpOnly cookie
+   * Output: Success confirmation; every session of the user terminated
+   * Description: Revokes all of the user's sessions, this one included, sets them offline and clears the cookies.
+   ************************************************************************ */
+  app.delete('/auth/sessions', async (request, reply) => {
+    try {
+      const decoded = await verifyAuth(request);
+
+      await prisma.$transaction([
+        prisma.session.updateMany({
+          where: {userId: decoded.userId, revokedAt: null},
+          data: {revokedAt: new Date()},
+        }),
+        prisma.user.update({
+          where: {id: decoded.userId},
+          data: {online_status: 'offline'},
+        }),
+      ]);
+
+      clearAuthCookie(reply);
+      return reply.send({
+        success: true,
+        message: 'Logged out on all devices',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'AUTHENTICATION_REQUIRED') {
+        return reply.status(401).send({
+          error: 'AUTHENTICATION_REQUIRED',
+          message: 'Authentication required',
+        });
+      }
+      console.error('Revoke all sessions error:', error);
+      return reply.status(500).send({
+        error: 'SESSIONS_REVOKE_FAILED',
+        message: 'Failed to log out everywhere. Please try again.',
+      });
+    }
+  });
+
   /* **********************************************************************
    *              USER PROFILE
    * Endpoint: GET /profile
@@ -930,17 +2017,12 @@ export default function authRoutes(
    * Description: Retrieves authenticated user's profile information using JWT from cookie, returns user data excluding sensitive fields like password and secrets.
    ************************************************************************ */
   app.get('/profile', async (request, reply) => {
-    const token = request.cookies.authToken;
-
-    if (!token) {
+    if (!request.cookies.authToken) {
       return reply.status(401).send({message: 'Authentication required'});
     }
 
     try {
-      const decoded = app.jwt.verify(token) as {
-        userId: number;
-        username: string;
-      };
+      const decoded = await verifyAuth(request);
 
       const user = await prisma.user.findUnique({
         where: {id: decoded.userId},
@@ -952,6 +2034,7 @@ export default function authRoutes(
           profilePic: true,
           wins: true,
           losses: true,
+          draws: true,
           favAvatar: true,
           online_status: true,
           lastLogin: true,
@@ -984,12 +2067,27 @@ export default function authRoutes(
    * Endpoint: POST /auth/logout
    * Input: Authentication via httpOnly cookie (optional)
    * Output: Success confirmation; user session terminated
-   * Description: Sets user status to offline, clears authentication cookie, 
+   * Description: Sets user status to offline, revokes the session of this device, clears authentication cookies, 
    and terminates user session securely on both client and server.
    ************************************************************************ */
   app.post('/auth/logout', async (request, reply) => {
     const token = request.cookies.authToken;
 
+    // The refresh token of this device stops working
+    const refresh = parseRefreshToken(request.cookies.refreshToken);
+    if (refresh) {
+      await prisma.session
+        .updateMany({
+          where: {
+            id: refresh.sessionId,
+            tokenHash: hashRefreshSecret(refresh.secret),
+            revokedAt: null,
+          },
+          data: {revokedAt: new Date()},
+        })
+        .catch(error => console.error('Could not revoke session during logout:', error));
+    }
+
     if (token) {
       try {
         const decoded = app.jwt.verify(token) as {userId: number};
@@ -1016,7 +2114,7 @@ export default function authRoutes(
       }
     }
 
-    // Clear auth cookie
+    // Clear auth cookies
     clearAuthCookie(reply);
     return reply.send({
       success: true,
@@ -1026,8 +2124,11 @@ export default function authRoutes(
 
   const cleanupInactiveUsers = async () => {
     try {
-      // Mark users as offline if their JWT would have expired (1 hour + 5 min buffer)
-      const expiredTime = new Date(Date.now() - 65 * 60 * 1000); // 1 hour 5 minutes ago
+      // Mark users as offline once no session of theirs has been renewed
+      // since their access token would have expired (plus 5 min buffer)
+      const expiredTime = new Date(
+        Date.now() - (ACCESS_TOKEN_TTL_SECONDS + 5 * 60) * 1000,
+      );
 
       const result = await prisma.user.updateMany({
         where: {
@@ -1035,6 +2136,9 @@ export default function authRoutes(
           lastLogin: {
             lt: expiredTime,
           },
+          sessions: {
+            none: {revokedAt: null, lastUsedAt: {gte: expiredTime}},
+          },
         },
         data: {
           online_status: 'offline',
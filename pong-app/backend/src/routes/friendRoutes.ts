@@ -1,6 +1,7 @@
 // backend/src/routes/friendRoutes.ts
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { PrismaClient } from "@prisma/client";
+import { verifyAccessToken } from "../service/sessionService";
 
 interface FriendRoutesOptions {
   prisma: PrismaClient;
@@ -13,18 +14,13 @@ export default function friendRoutes(
   const { prisma } = options;
 
   // Helper function to verify authentication
-  const verifyAuth = (request: FastifyRequest) => {
-    const token = request.cookies.authToken;
-    if (!token) {
-      throw new Error("AUTHENTICATION_REQUIRED");
-    }
-    return app.jwt.verify(token) as { userId: number; username: string };
-  };
+  const verifyAuth = (request: FastifyRequest) =>
+    verifyAccessToken(app, prisma, request.cookies.authToken);
 
   // GET /friends - User's friends list (for RallySquadTab)
   app.get("/friend/friends", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
+      const decoded = await verifyAuth(request);
 
       const friendships = await prisma.friendship.findMany({
         where: {
@@ -108,7 +104,7 @@ export default function friendRoutes(
   // GET /friends/online - Online friends only (for OverviewTab)
   app.get("/friend/online", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
+      const decoded = await verifyAuth(request);
 
       const friendships = await prisma.friendship.findMany({
         where: {
@@ -172,7 +168,7 @@ export default function friendRoutes(
   // GET /friends/users/search - Search users (for RallySquadTab)
   app.get("/friend/users/search", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
+      const decoded = await verifyAuth(request);
       const { q, online_only } = request.query as {
         q?: string;
         online_only?: string;
@@ -241,7 +237,7 @@ export default function friendRoutes(
   // GET /friend/requests - Get both received and sent friend requests
   app.get("/friend/requests", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
+      const decoded = await verifyAuth(request);
 
       // Get requests TO this user (received)
       const receivedRequests = await prisma.friendship.findMany({
@@ -338,7 +334,7 @@ export default function friendRoutes(
     "/friend/request/:userId",
     async (request, reply) => {
       try {
-        const decoded = verifyAuth(request);
+        const decoded = await verifyAuth(request);
         const targetUserId = parseInt(request.params.userId);
 
         if (targetUserId === decoded.userId) {
@@ -438,7 +434,7 @@ export default function friendRoutes(
     "/friend/accept/:requestId",
     async (request, reply) => {
       try {
-        const decoded = verifyAuth(request);
+        const decoded = await verifyAuth(request);
         const [senderId, receiverId] = request.params.requestId
           .split("-")
           .map(Number);
@@ -493,7 +489,7 @@ export default function friendRoutes(
     "/friend/decline/:requestId",
     async (request, reply) => {
       try {
-        const decoded = verifyAuth(request);
+        const decoded = await verifyAuth(request);
         const [senderId, receiverId] = request.params.requestId
           .split("-")
           .map(Number);
@@ -544,7 +540,7 @@ export default function friendRoutes(
     "/friend/remove/:friendshipId",
     async (request, reply) => {
       try {
-        const decoded = verifyAuth(request);
+        const decoded = await verifyAuth(request);
         const [userId1, userId2] = request.params.friendshipId
           .split("-")
           .map(Number);
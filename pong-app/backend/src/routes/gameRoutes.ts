@@ -1,11 +1,20 @@
 // backend/src/routes/gameRoutes.ts
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { PrismaClient } from "@prisma/client";
+import { ReplayLog, renderReplay } from "../pongReplay.js";
+import { SIM_TICK_MS } from "../pongPhysics.js";
+import { INITIAL_RATING, INITIAL_RD } from "../ratings.js";
+import { verifyAccessToken } from "../service/sessionService.js";
 
 interface GameRoutesOptions {
   prisma: PrismaClient;
 }
 
+// Games the user played in, on either side and in either lane of a team game
+const playedBy = (userId: number) => ({
+  OR: [{ id_player1: userId }, { id_player2: userId }, { id_player3: userId }, { id_player4: userId }],
+});
+
 interface SaveGameInput {
   opponent: string;
   gameType: string;
@@ -23,13 +32,8 @@ export default function gameRoutes(
   const { prisma } = options;
 
   // Helper function to verify authentication
-  const verifyAuth = (request: FastifyRequest) => {
-    const token = request.cookies.authToken;
-    if (!token) {
-      throw new Error("AUTHENTICATION_REQUIRED");
-    }
-    return app.jwt.verify(token) as { userId: number; username: string };
-  };
+  const verifyAuth = (request: FastifyRequest) =>
+    verifyAccessToken(app, prisma, request.cookies.authToken);
 
   // Enhanced helper function to parse game data from either player perspective
   const parseGameData = (
@@ -38,29 +42,49 @@ export default function gameRoutes(
   ) => {
     let parsedRounds = [];
     let opponent = "Unknown";
+    let teammate: string | null = null;
     let result: "win" | "loss" | "draw" = "draw";
     let score = "0-0";
     let duration = "N/A";
     let mode = "unknown";
+    let rules = null;
+    let gameMode: string | null = null;
+    let opponentType = "human";
 
     try {
       if (game.rounds_json) {
         const gameData = JSON.parse(game.rounds_json);
         parsedRounds = gameData.rounds || [];
         mode = gameData.mode || "unknown";
-
-        const userIsPlayer1 = game.id_player1 === currentUser.userId;
-        const userIsPlayer2 = game.id_player2 === currentUser.userId;
+        rules = gameData.rules || null;
+        // Pong games saved before game modes were added are classic ones
+        if (game.game_name === "pingpong")
+          gameMode = gameData.rules?.mode || "classic";
+        opponentType = gameData.opponentType || "human";
+
+        // In a team game the front lane players (3 and 4) play for the sides of players 1 and 2
+        const userIsPlayer1 = game.id_player1 === currentUser.userId || game.id_player3 === currentUser.userId;
+        const userIsPlayer2 = game.id_player2 === currentUser.userId || game.id_player4 === currentUser.userId;
+        const teamName = (player: any) =>
+          player?.partner ? `${player.username} & ${player.partner.username}` : player?.username;
 
         // OPPONENT - Simple extraction
         if (userIsPlayer1) {
-          opponent = gameData.player2?.username || "Unknown";
+          opponent = teamName(gameData.player2) || "Unknown";
         } else if (userIsPlayer2) {
-          opponent = gameData.player1?.username || "Unknown";
+          opponent = teamName(gameData.player1) || "Unknown";
         }
 
-        // RESULT - Direct from isWinner flag
-        if (userIsPlayer1) {
+        // TEAMMATE - The other player on the user's side of a team game
+        const ownSide = userIsPlayer1 ? gameData.player1 : userIsPlayer2 ? gameData.player2 : null;
+        if (ownSide?.partner) {
+          teammate = ownSide.playerId === currentUser.userId ? ownSide.partner.username : ownSide.username;
+        }
+
+        // RESULT - Direct from isWinner flag, games saved as draws have no winner
+        if (game.draw && (userIsPlayer1 || userIsPlayer2)) {
+          result = "draw";
+        } else if (userIsPlayer1) {
           result = gameData.player1?.isWinner === true ? "win" : "loss";
         } else if (userIsPlayer2) {
           result = gameData.player2?.isWinner === true ? "win" : "loss";
@@ -106,10 +130,18 @@ export default function gameRoutes(
       date: game.date,
       gameType: game.game_name,
       opponent,
+      teammate,
       result,
       score,
       duration,
       mode,
+      rules,
+      gameMode,
+      opponentType,
+      hasReplay: !!game.replay,
+      // Only rated games have a rating change, from the current user's side
+      ratingChange: game.ratingChanges?.[0] ? Math.round(game.ratingChanges[0].change) : null,
+      ratingAfter: game.ratingChanges?.[0] ? Math.round(game.ratingChanges[0].rating_after) : null,
       rounds: parsedRounds,
     };
   };
@@ -119,7 +151,7 @@ export default function gameRoutes(
    ************************************************************************ */
   app.get("/game/history", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
+      const decoded = await verifyAuth(request);
       const { limit, offset } = request.query as {
         limit?: string;
         offset?: string;
@@ -129,14 +161,21 @@ export default function gameRoutes(
         `Fetching game history for user ${decoded.userId} (${decoded.username})`
       );
 
-      // Query for games where user was EITHER player1 OR player2
+      // Query for games where user was player1 or player2, or a teammate of either
       const games = await prisma.game.findMany({
         where: {
-          OR: [{ id_player1: decoded.userId }, { id_player2: decoded.userId }],
+          ...playedBy(decoded.userId),
         },
         orderBy: { date: "desc" },
         take: limit ? parseInt(limit) : 50,
         skip: offset ? parseInt(offset) : 0,
+        include: {
+          replay: { select: { id_game: true } },
+          ratingChanges: {
+            where: { userId: decoded.userId },
+            select: { change: true, rating_after: true },
+          },
+        },
       });
 
       console.log(
@@ -186,7 +225,7 @@ export default function gameRoutes(
  ************************************************************************ */
 app.get("/game/stats", async (request, reply) => {
   try {
-    const decoded = verifyAuth(request);
+    const decoded = await verifyAuth(request);
 
     console.log(
       `Fetching game stats for user ${decoded.userId} (${decoded.username})`
@@ -194,7 +233,7 @@ app.get("/game/stats", async (request, reply) => {
 
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: { wins: true, losses: true, username: true },
+      select: { wins: true, losses: true, draws: true, username: true },
     });
 
     if (!user) {
@@ -204,17 +243,17 @@ app.get("/game/stats", async (request, reply) => {
     }
 
     // USE USER TABLE AS SINGLE SOURCE OF TRUTH
-    const totalMatches = user.wins + user.losses;
+    const totalMatches = user.wins + user.losses + user.draws;
     const winRate = totalMatches > 0 ? (user.wins / totalMatches) * 100 : 0;
 
     console.log(
-      `User table stats: wins=${user.wins}, losses=${user.losses}, total=${totalMatches}`
+      `User table stats: wins=${user.wins}, losses=${user.losses}, draws=${user.draws}, total=${totalMatches}`
     );
 
     // Get all games for streak calculations
     const games = await prisma.game.findMany({
       where: {
-        OR: [{ id_player1: decoded.userId }, { id_player2: decoded.userId }],
+        ...playedBy(decoded.userId),
       },
       orderBy: { date: "desc" },
       take: 100,
@@ -222,13 +261,13 @@ app.get("/game/stats", async (request, reply) => {
 
     console.log(`Found ${games.length} games for streak/monthly calculations`);
 
-    // Helper function to check if user won a game
+    // Helper function to check if user won a game; a draw is not a win, so it ends a streak
     const isUserWin = (game: any): boolean => {
       try {
-        if (!game.rounds_json) return false;
+        if (game.draw || !game.rounds_json) return false;
         
         const gameData = JSON.parse(game.rounds_json);
-        const userIsPlayer1 = game.id_player1 === decoded.userId;
+        const userIsPlayer1 = game.id_player1 === decoded.userId || game.id_player3 === decoded.userId;
         
         if (userIsPlayer1) {
           return gameData.player1?.isWinner === true;
@@ -278,23 +317,59 @@ app.get("/game/stats", async (request, reply) => {
 
     const monthlyGames = await prisma.game.findMany({
       where: {
-        OR: [{ id_player1: decoded.userId }, { id_player2: decoded.userId }],
+        ...playedBy(decoded.userId),
         date: { gte: startOfMonth },
       },
     });
 
     const monthlyWins = monthlyGames.filter(game => isUserWin(game)).length;
 
+    // Skill ratings per game, unrated games show the starting rating
+    const ratingRows = await prisma.rating.findMany({
+      where: { userId: decoded.userId },
+    });
+    const ratingHistory = await prisma.ratingHistory.findMany({
+      where: { userId: decoded.userId },
+      orderBy: { date: "desc" },
+      take: 20,
+    });
+
+    const ratings = Object.fromEntries(
+      (["pingpong", "keyclash"] as const).map((gameName) => {
+        const row = ratingRows.find((r) => r.game_name === gameName);
+        const last = ratingHistory.find((h) => h.game_name === gameName);
+        return [
+          gameName,
+          {
+            rating: Math.round(row?.rating ?? INITIAL_RATING),
+            rd: Math.round(row?.rd ?? INITIAL_RD),
+            peakRating: Math.round(row?.peak ?? INITIAL_RATING),
+            ratedGames: row ? row.wins + row.losses + row.draws : 0,
+            lastChange: last ? Math.round(last.change) : null,
+          },
+        ];
+      })
+    );
+
     // Return stats
     const stats = {
       wins: user.wins,
       losses: user.losses,
+      draws: user.draws,
       totalMatches,
       winRate: Math.round(winRate * 10) / 10,
       currentWinStreak,
       longestWinStreak,
       monthlyWins,
       recentGamesCount: games.length,
+      ratings,
+      ratingHistory: ratingHistory.map((entry) => ({
+        gameId: entry.id_game.toString(),
+        gameType: entry.game_name,
+        date: entry.date,
+        rating: Math.round(entry.rating_after),
+        change: Math.round(entry.change),
+      })),
       source: "game_api",
     };
 
@@ -320,45 +395,69 @@ app.get("/game/stats", async (request, reply) => {
 });
 
   /* **********************************************************************
-   * GET /games/leaderboard - Global leaderboard (for MatchHistoryTab)
+   * GET /games/leaderboard - Rating leaderboard per game (for MatchHistoryTab)
    ************************************************************************ */
   app.get("/game/leaderboard", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
-      const { limit } = request.query as { limit?: string };
+      const decoded = await verifyAuth(request);
+      const { limit, game } = request.query as { limit?: string; game?: string };
 
-      const users = await prisma.user.findMany({
-        select: {
-          id: true,
-          username: true,
-          wins: true,
-          losses: true,
-          online_status: true,
-          profilePic: true,
-        },
+      if (game !== undefined && game !== "pingpong" && game !== "keyclash") {
+        return reply.status(400).send({
+          error: "INVALID_GAME",
+          message: "Game must be pingpong or keyclash",
+        });
+      }
+
+      const ratings = await prisma.rating.findMany({
         where: {
-          OR: [{ wins: { gt: 0 } }, { losses: { gt: 0 } }],
+          game_name: game ?? "pingpong",
+          OR: [{ wins: { gt: 0 } }, { losses: { gt: 0 } }, { draws: { gt: 0 } }],
+        },
+        include: {
+          user: {
+            select: {
+              username: true,
+              online_status: true,
+              profilePic: true,
+            },
+          },
         },
-        orderBy: [{ wins: "desc" }, { losses: "asc" }],
+        orderBy: [{ rating: "desc" }, { rd: "asc" }],
         take: limit ? parseInt(limit) : 10,
       });
 
-      const leaderboard = users.map((user, index) => {
-        const totalGames = user.wins + user.losses;
-        const winRate = totalGames > 0 ? (user.wins / totalGames) * 100 : 0;
-        const points = user.wins * 3 - user.losses;
+      // Latest rating change of every listed player
+      const lastChanges = await Promise.all(
+        ratings.map((entry) =>
+          prisma.ratingHistory.findFirst({
+            where: { userId: entry.userId, game_name: entry.game_name },
+            orderBy: { date: "desc" },
+            select: { change: true },
+          })
+        )
+      );
+
+      const leaderboard = ratings.map((entry, index) => {
+        const totalGames = entry.wins + entry.losses + entry.draws;
+        const winRate = totalGames > 0 ? (entry.wins / totalGames) * 100 : 0;
 
         return {
           rank: index + 1,
-          username: user.username,
-          wins: user.wins,
-          losses: user.losses,
+          username: entry.user.username,
+          gameType: entry.game_name,
+          rating: Math.round(entry.rating),
+          rd: Math.round(entry.rd),
+          peakRating: Math.round(entry.peak),
+          lastChange: lastChanges[index] ? Math.round(lastChanges[index]!.change) : null,
+          wins: entry.wins,
+          losses: entry.losses,
+          draws: entry.draws,
           totalGames,
           winRate: Math.round(winRate * 10) / 10,
-          points: Math.max(0, points),
-          online_status: user.online_status,
-          profilePic: user.profilePic,
-          isCurrentUser: user.id === decoded.userId,
+          online_status: entry.user.online_status,
+          profilePic: entry.user.profilePic,
+          isCurrentUser: entry.userId === decoded.userId,
         };
       });
 
@@ -405,7 +504,7 @@ app.get("/game/stats", async (request, reply) => {
     },
     async (request, reply) => {
       try {
-        const decoded = verifyAuth(request);
+        const decoded = await verifyAuth(request);
         const { opponent, gameType, mode, result, score, duration, rounds } =
           request.body;
 
@@ -437,6 +536,7 @@ app.get("/game/stats", async (request, reply) => {
             id_player1: decoded.userId,
             game_name: gameType as any,
             rounds_json: JSON.stringify(gameData),
+            draw: result === "draw",
             date: new Date(),
           },
         });
@@ -455,6 +555,11 @@ app.get("/game/stats", async (request, reply) => {
             where: { id: decoded.userId },
             data: { losses: { increment: 1 } },
           });
+        } else if (result === "draw") {
+          await prisma.user.update({
+            where: { id: decoded.userId },
+            data: { draws: { increment: 1 } },
+          });
         }
 
         return reply.status(201).send({
@@ -486,7 +591,7 @@ app.get("/game/stats", async (request, reply) => {
    ************************************************************************ */
   app.get("/game/recent", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
+      const decoded = await verifyAuth(request);
       const { limit } = request.query as { limit?: string };
 
       console.log(
@@ -495,10 +600,16 @@ app.get("/game/stats", async (request, reply) => {
 
       const games = await prisma.game.findMany({
         where: {
-          OR: [{ id_player1: decoded.userId }, { id_player2: decoded.userId }],
+          ...playedBy(decoded.userId),
         },
         orderBy: { date: "desc" },
         take: limit ? parseInt(limit) : 5,
+        include: {
+          ratingChanges: {
+            where: { userId: decoded.userId },
+            select: { change: true, rating_after: true },
+          },
+        },
       });
 
       console.log(
@@ -514,6 +625,7 @@ app.get("/game/stats", async (request, reply) => {
           mode: parsedGame.mode,
           result: parsedGame.result,
           score: parsedGame.score,
+          ratingChange: parsedGame.ratingChange,
           date: game.date,
         };
       });
@@ -536,4 +648,61 @@ app.get("/game/stats", async (request, reply) => {
       });
     }
   });
+
+  /* **********************************************************************
+   * GET /game/:id/replay - Re-simulated frames of a recorded pong match
+   ************************************************************************ */
+  app.get("/game/:id/replay", async (request, reply) => {
+    try {
+      await verifyAuth(request);
+      const { id } = request.params as { id: string };
+      const gameId = parseInt(id);
+      if (isNaN(gameId)) {
+        return reply.status(400).send({
+          error: "INVALID_GAME_ID",
+          message: "Invalid game id",
+        });
+      }
+
+      const replay = await prisma.gameReplay.findUnique({
+        where: { id_game: gameId },
+        include: { game: true },
+      });
+      if (!replay) {
+        return reply.status(404).send({
+          error: "REPLAY_NOT_FOUND",
+          message: "No replay recorded for this game",
+        });
+      }
+
+      const log = JSON.parse(replay.replay_json) as ReplayLog;
+      return reply.send({
+        id: gameId.toString(),
+        date: replay.game.date,
+        rules: log.rules,
+        left: log.left,
+        right: log.right,
+        teammates: log.teammates ?? null,
+        tickMs: SIM_TICK_MS,
+        ticks: log.ticks,
+        scores: log.scores,
+        frames: renderReplay(log),
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message === "AUTHENTICATION_REQUIRED"
+      ) {
+        return reply.status(401).send({
+          error: "AUTHENTICATION_REQUIRED",
+          message: "Authentication required",
+        });
+      }
+      console.error("Get replay error:", error);
+      return reply.status(500).send({
+        error: "REPLAY_FETCH_FAILED",
+        message: "Failed to fetch replay",
+      });
+    }
+  });
 }
@@ -5,6 +5,7 @@ import authRoutes from "./authRoutes";
 import userRoutes from "./userRoutes";
 import friendRoutes from "./friendRoutes";
 import gameRoutes from "./gameRoutes";
+import tournamentRoutes from "./tournamentRoutes";
 
 interface RouteOptions {
   prisma: PrismaClient;
@@ -18,4 +19,5 @@ export default async function registerRoutes(
   await app.register(userRoutes, options);
   await app.register(friendRoutes, options);
   await app.register(gameRoutes, options);
+  await app.register(tournamentRoutes, options);
 }
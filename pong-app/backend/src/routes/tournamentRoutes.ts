@@ -0,0 +1,199 @@
+// backend/src/routes/tournamentRoutes.ts
+import { FastifyInstance, FastifyRequest } from "fastify";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { Bracket, BracketNode, TournamentFormat, publicBracket } from "../bracket.js";
+import { Player } from "../types/lobby";
+import { verifyAccessToken } from "../service/sessionService.js";
+
+interface TournamentRoutesOptions {
+  prisma: PrismaClient;
+}
+
+const tournamentDetails = {
+  entrants: { orderBy: { seed: "asc" } },
+  matches: { include: { game: { select: { replay: { select: { id_game: true } } } } } },
+} satisfies Prisma.TournamentInclude;
+
+type TournamentWithDetails = Prisma.TournamentGetPayload<{ include: typeof tournamentDetails }>;
+
+// Rebuilds the draw of a saved tournament, so it is sent like the draw of a live one
+function savedBracket(tournament: TournamentWithDetails): Bracket {
+  const players = new Map<number, Player>(tournament.entrants.map((e) =>
+    [e.id, { playerId: e.userId, socketId: null, name: e.name, side: null }]));
+  const player = (id: number | null) => (id !== null ? players.get(id) ?? null : null);
+
+  const rounds: BracketNode[][] = [];
+  for (const slot of tournament.matches) {
+    const player1 = player(slot.id_player1);
+    const player2 = player(slot.id_player2);
+    const winner = player(slot.id_winner);
+    // Scores are saved once a match is over, so a played slot without a winner was a draw
+    const played = player1 && player2 && (winner || slot.p1score !== null || slot.id_game !== null);
+    (rounds[slot.round] ??= [])[slot.position] = {
+      player1,
+      player2,
+      // A bye in an elimination bracket sends the one player through
+      winner: winner ?? (slot.bye && tournament.format === "elimination" ? player1 ?? player2 : null),
+      bye: slot.bye,
+      match: played ? {
+        player1, player2, winner,
+        draw: !winner && slot.p1score !== null,
+        p1score: slot.p1score ?? 0,
+        p2score: slot.p2score ?? 0,
+        duration: 0,
+      } : null,
+    };
+  }
+  return {
+    format: tournament.format as TournamentFormat,
+    entrants: [...players.values()],
+    rounds: rounds.map((nodes) => nodes.filter(Boolean)),
+    totalRounds: tournament.total_rounds,
+    totalMatches: tournament.total_matches,
+  };
+}
+
+export default function tournamentRoutes(
+  app: FastifyInstance,
+  options: TournamentRoutesOptions
+) {
+  const { prisma } = options;
+
+  // Helper function to verify authentication
+  const verifyAuth = (request: FastifyRequest) =>
+    verifyAccessToken(app, prisma, request.cookies.authToken);
+
+  /* **********************************************************************
+   * GET /tournament/history - Past tournaments and their champions
+   ************************************************************************ */
+  app.get("/tournament/history", async (request, reply) => {
+    try {
+      const decoded = await verifyAuth(request);
+      const { limit, game, mine } = request.query as { limit?: string; game?: string; mine?: string };
+
+      if (game !== undefined && game !== "pingpong" && game !== "keyclash") {
+        return reply.status(400).send({
+          error: "INVALID_GAME",
+          message: "Game must be pingpong or keyclash",
+        });
+      }
+
+      const tournaments = await prisma.tournament.findMany({
+        where: {
+          status: { not: "in_progress" },
+          ...(game && { game_name: game }),
+          // Only the tournaments the current user played in
+          ...(mine === "true" && { entrants: { some: { userId: decoded.userId } } }),
+        },
+        include: {
+          winner: { select: { name: true, userId: true } },
+          entrants: { where: { userId: decoded.userId }, select: { placement: true } },
+          _count: { select: { entrants: true } },
+        },
+        orderBy: { startedAt: "desc" },
+        take: limit ? parseInt(limit) : 20,
+      });
+
+      return reply.send(tournaments.map((t) => ({
+        id: t.id,
+        code: t.code,
+        gameType: t.game_name,
+        mode: t.mode,
+        format: t.format,
+        status: t.status,
+        entrants: t._count.entrants,
+        champion: t.winner ? t.winner.name : null,
+        championIsCurrentUser: !!t.winner && t.winner.userId === decoded.userId,
+        placement: t.entrants[0]?.placement ?? null,
+        startedAt: t.startedAt,
+        finishedAt: t.finishedAt,
+      })));
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message === "AUTHENTICATION_REQUIRED"
+      ) {
+        return reply.status(401).send({
+          error: "AUTHENTICATION_REQUIRED",
+          message: "Authentication required",
+        });
+      }
+      console.error("Get tournament history error:", error);
+      return reply.status(500).send({
+        error: "TOURNAMENT_HISTORY_FETCH_FAILED",
+        message: "Failed to fetch tournament history",
+      });
+    }
+  });
+
+  /* **********************************************************************
+   * GET /tournament/:id - One saved tournament with its full draw
+   ************************************************************************ */
+  app.get("/tournament/:id", async (request, reply) => {
+    try {
+      await verifyAuth(request);
+      const { id } = request.params as { id: string };
+      const tournamentId = parseInt(id);
+      if (isNaN(tournamentId)) {
+        return reply.status(400).send({
+          error: "INVALID_TOURNAMENT_ID",
+          message: "Invalid tournament id",
+        });
+      }
+
+      const tournament = await prisma.tournament.findUnique({
+        where: { id: tournamentId },
+        include: tournamentDetails,
+      });
+      if (!tournament) {
+        return reply.status(404).send({
+          error: "TOURNAMENT_NOT_FOUND",
+          message: "Tournament not found",
+        });
+      }
+
+      return reply.send({
+        id: tournament.id,
+        code: tournament.code,
+        gameType: tournament.game_name,
+        mode: tournament.mode,
+        format: tournament.format,
+        size: tournament.size,
+        status: tournament.status,
+        startedAt: tournament.startedAt,
+        finishedAt: tournament.finishedAt,
+        entrants: tournament.entrants.map((e) => ({
+          name: e.name,
+          seed: e.seed,
+          placement: e.placement,
+          registered: e.userId !== null,
+        })),
+        // Saved games of the matches, by round and position, for replays and match details
+        games: tournament.matches
+          .filter((m) => m.id_game !== null)
+          .map((m) => ({
+            round: m.round,
+            position: m.position,
+            gameId: m.id_game!.toString(),
+            hasReplay: !!m.game?.replay,
+          })),
+        bracket: publicBracket(savedBracket(tournament)),
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message === "AUTHENTICATION_REQUIRED"
+      ) {
+        return reply.status(401).send({
+          error: "AUTHENTICATION_REQUIRED",
+          message: "Authentication required",
+        });
+      }
+      console.error("Get tournament error:", error);
+      return reply.status(500).send({
+        error: "TOURNAMENT_FETCH_FAILED",
+        message: "Failed to fetch tournament",
+      });
+    }
+  });
+}
@@ -2,6 +2,7 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { PrismaClient } from "@prisma/client";
 import validator from "validator";
+import { verifyAccessToken } from "../service/sessionService";
 
 interface UserRoutesOptions {
   prisma: PrismaClient;
@@ -23,18 +24,13 @@ export default function userRoutes(
   const { prisma } = options;
 
   // Helper function to verify authentication
-  const verifyAuth = (request: FastifyRequest) => {
-    const token = request.cookies.authToken;
-    if (!token) {
-      throw new Error("AUTHENTICATION_REQUIRED");
-    }
-    return app.jwt.verify(token) as { userId: number; username: string };
-  };
+  const verifyAuth = (request: FastifyRequest) =>
+    verifyAccessToken(app, prisma, request.cookies.authToken);
 
   // GET /user/profile - Full user profile data (for MyLockerTab)
   app.get("/user/profile", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
+      const decoded = await verifyAuth(request);
 
       const user = await prisma.user.findUnique({
         where: { id: decoded.userId },
@@ -49,6 +45,7 @@ export default function userRoutes(
           favAvatar: true,
           wins: true,
           losses: true,
+          draws: true,
           profilePic: true,
           online_status: true,
           lastLogin: true,
@@ -87,7 +84,7 @@ export default function userRoutes(
     "/user/profile",
     async (request, reply) => {
       try {
-        const decoded = verifyAuth(request);
+        const decoded = await verifyAuth(request);
         const {
           firstName,
           lastName,
@@ -150,6 +147,7 @@ export default function userRoutes(
             favAvatar: true,
             wins: true,
             losses: true,
+            draws: true,
             profilePic: true,
             isVerified: true,
           },
@@ -182,11 +180,11 @@ export default function userRoutes(
   // GET /user/stats - User statistics (for OverviewTab)
   app.get("/user/stats", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
+      const decoded = await verifyAuth(request);
 
       const user = await prisma.user.findUnique({
         where: { id: decoded.userId },
-        select: { wins: true, losses: true, createdAt: true },
+        select: { wins: true, losses: true, draws: true, createdAt: true },
       });
 
       if (!user) {
@@ -195,12 +193,13 @@ export default function userRoutes(
           .send({ error: "USER_NOT_FOUND", message: "User not found" });
       }
 
-      const totalMatches = user.wins + user.losses;
+      const totalMatches = user.wins + user.losses + user.draws;
       const winRate = totalMatches > 0 ? (user.wins / totalMatches) * 100 : 0;
 
       return reply.send({
         wins: user.wins,
         losses: user.losses,
+        draws: user.draws,
         totalMatches,
         winRate: Math.round(winRate * 10) / 10,
         currentWinStreak: 0,
@@ -229,7 +228,7 @@ export default function userRoutes(
   // POST /user/upload-avatar - Profile picture upload (placeholder)
   app.post("/user/avatar", async (request, reply) => {
     try {
-      const decoded = verifyAuth(request);
+      const decoded = await verifyAuth(request);
 
       return reply.status(501).send({
         error: "NOT_IMPLEMENTED",
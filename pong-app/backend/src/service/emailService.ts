@@ -152,3 +152,36 @@ export async function sendRegisterSuccessEmail(
     throw new Error("Failed to send welcome email");
   }
 }
+
+export async function sendAccountLockedEmail(
+  to: string,
+  username: string,
+  lockedUntil: Date,
+  resetLink: string
+): Promise<void> {
+  try {
+    await transporter.sendMail({
+      from: `${env.TEAM_NAME} <${env.EMAIL_FROM}>`,
+      to,
+      subject: "Your account has been temporarily locked",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #dc2626;">Account Locked</h2>
+          <p>Hello <strong>${username}</strong>,</p>
+          <p>There were too many failed attempts to log in to your account, so logins are blocked until ${lockedUntil.toUTCString()}.</p>
+          <p>If this wasn't you, someone may know or be guessing your password. We recommend resetting it:</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${resetLink}" style="background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">Reset Password</a>
+          </div>
+          <hr style="border: none; height: 1px; background-color: #e5e7eb; margin: 20px 0;">
+          <p style="font-size: 12px; color: #9ca3af;">
+            This is an automated message from ${env.TEAM_NAME}. Please do not reply to this email.
+          </p>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error("Error sending account locked email:", error);
+    throw new Error("Failed to send account locked email");
+  }
+}
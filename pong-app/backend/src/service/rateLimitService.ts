@@ -0,0 +1,69 @@
+// backend/src/service/rateLimitService.ts
+
+/*
+ * Throttling of the auth routes. Per IP and per account request limits are sliding windows kept
+ * in memory; failed logins of an account are counted in the database (User.failedLoginAttempts)
+ * so delays and lockouts survive a restart.
+ */
+
+export interface RateLimiter {
+  // Counts a request; returns 0 if it is allowed, or the ms until it would be
+  hit(key: string): number;
+}
+
+const MINUTE = 60 * 1000;
+
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const hits = new Map<string, number[]>();
+
+  // Drop keys with nothing left in their window, so the map doesn't grow forever
+  setInterval(() => {
+    const since = Date.now() - windowMs;
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= since) {
+        hits.delete(key);
+      }
+    }
+  }, windowMs).unref();
+
+  return {
+    hit(key) {
+      const now = Date.now();
+      const times = (hits.get(key) ?? []).filter(t => t > now - windowMs);
+      if (times.length >= limit) {
+        hits.set(key, times);
+        return times[0] + windowMs - now;
+      }
+      times.push(now);
+      hits.set(key, times);
+      return 0;
+    },
+  };
+}
+
+export const authLimiters = {
+  // Per IP
+  login: createRateLimiter(20, 15 * MINUTE),
+  code: createRateLimiter(20, 15 * MINUTE), // verify-email and verify-2fa
+  resend: createRateLimiter(5, 15 * MINUTE),
+  reset: createRateLimiter(5, 60 * MINUTE),
+  // Per account, so one inbox can't be flooded from many addresses
+  resendAccount: createRateLimiter(3, 15 * MINUTE),
+  codeAccount: createRateLimiter(10, 15 * MINUTE), // verify-2fa
+  resetAccount: createRateLimiter(3, 60 * MINUTE),
+};
+
+// Wrong codes an emailed verification code takes before it stops working
+export const MAX_CODE_ATTEMPTS = 5;
+
+// Failed logins in a row before the account is locked, and for how long
+export const LOCKOUT_THRESHOLD = 10;
+export const LOCKOUT_MS = 15 * MINUTE;
+// Failures allowed before each further attempt has to wait, doubling up to the max
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_MS = MINUTE;
+
+// How long after its last failure an account must wait before the next attempt
+export function failureDelayMs(failures: number): number {
+  return failures < FREE_ATTEMPTS ? 0 : Math.min(1000 * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+}
@@ -0,0 +1,89 @@
+// backend/src/service/sessionService.ts
+import crypto from "crypto";
+import { FastifyInstance } from "fastify";
+import { PrismaClient } from "@prisma/client";
+
+// Lifetime of the access token in the authToken cookie; the refresh token renews it
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+// A session that isn't renewed for this long ends
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// How long a replaced refresh token still works, for tabs that renew at the same time
+export const ROTATION_GRACE_MS = 10 * 1000;
+// How long after the password a login can be finished with its 2FA code
+export const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+// Refresh tokens are "<session id>.<secret>", pending login tokens "<pending login id>.<secret>";
+// only a hash of the secret is kept
+export function newRefreshSecret(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export function hashRefreshSecret(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+export function refreshToken(sessionId: string, secret: string): string {
+  return `${sessionId}.${secret}`;
+}
+
+export function parseRefreshToken(token: string | undefined): { sessionId: string; secret: string } | null {
+  const [sessionId, secret, ...rest] = (token ?? "").split(".");
+  if (!sessionId || !secret || rest.length) {
+    return null;
+  }
+  return { sessionId, secret };
+}
+
+// Short description of a browser for the session list, like "Firefox on Windows"
+export function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os =
+    /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export interface AccessTokenUser {
+  userId: number;
+  username: string;
+  sessionId: string;
+}
+
+// Reads the access token of a request or socket. It only counts while its session is live, so a
+// revoked or logged out device loses access right away instead of when the token expires
+export async function verifyAccessToken(
+  app: FastifyInstance,
+  prisma: PrismaClient,
+  token: string | undefined
+): Promise<AccessTokenUser> {
+  if (!token) {
+    throw new Error("AUTHENTICATION_REQUIRED");
+  }
+  let decoded: Partial<AccessTokenUser>;
+  try {
+    decoded = app.jwt.verify(token);
+  } catch {
+    // An expired or forged token counts as no token
+    throw new Error("AUTHENTICATION_REQUIRED");
+  }
+  const session = decoded.sessionId
+    ? await prisma.session.findUnique({ where: { id: decoded.sessionId } })
+    : null;
+  if (!session || session.userId !== decoded.userId || session.revokedAt || session.expiresAt <= new Date()) {
+    throw new Error("AUTHENTICATION_REQUIRED");
+  }
+  return { userId: session.userId, username: decoded.username!, sessionId: session.id };
+}
@@ -0,0 +1,66 @@
+// backend/src/service/twoFactorService.ts
+import crypto from "crypto";
+import speakeasy from "speakeasy";
+import QRCode from "qrcode";
+import env from "../env";
+
+// Seconds each authenticator code is valid for
+const TOTP_STEP = 30;
+// Codes from this many steps before or after the current one are accepted, for clock drift
+const TOTP_WINDOW = 1;
+// Recovery codes handed out at a time
+const RECOVERY_CODE_COUNT = 10;
+
+export function generateTotpSecret(): string {
+  return speakeasy.generateSecret({ length: 20 }).base32;
+}
+
+// otpauth:// URL an authenticator app is set up from
+export function totpUrl(secret: string, email: string): string {
+  const issuer = env.TEAM_NAME ?? "Hivers5 Asteroids";
+  return speakeasy.otpauthURL({
+    secret,
+    encoding: "base32",
+    label: `${encodeURIComponent(issuer)}:${encodeURIComponent(email)}`,
+    issuer,
+    period: TOTP_STEP,
+  });
+}
+
+// QR code of an otpauth URL as a data URL, for the authenticator app to scan
+export function totpQrCode(otpauthUrl: string): Promise<string> {
+  return QRCode.toDataURL(otpauthUrl);
+}
+
+/*
+ * Checks a code from an authenticator app. Returns the time step the code belongs to, or null
+ * if it doesn't match or belongs to a step at or before lastStep (a code that was already used).
+ */
+export function verifyTotp(secret: string, token: string, lastStep: number | null): number | null {
+  const match = speakeasy.totp.verifyDelta({
+    secret,
+    encoding: "base32",
+    token,
+    step: TOTP_STEP,
+    window: TOTP_WINDOW,
+  });
+  if (!match) {
+    return null;
+  }
+  const step = Math.floor(Date.now() / 1000 / TOTP_STEP) + match.delta;
+  return lastStep !== null && step <= lastStep ? null : step;
+}
+
+// Random codes like "3f9a1-c07e2"; only their hashes are kept
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+// Recovery codes are random enough that a plain hash is safe; case, spaces and dashes don't count
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
@@ -0,0 +1,43 @@
+import { Namespace, Socket } from "socket.io";
+import { FastifyInstance } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { verifyAccessToken } from "./service/sessionService";
+
+/*
+ * Who is behind a socket comes from the authToken cookie sent with the handshake, never from
+ * ids in the events. The token's session must still be live, so a logged out or revoked device
+ * can't open sockets until the token expires. A socket without a valid token is a guest: socket.data.guest is set and
+ * it has no userId, so it can't take a registered player's seat or have results saved.
+ */
+
+export function authenticateSockets(namespace: Namespace, prisma: PrismaClient, app: FastifyInstance,
+                                    required = false) {
+    namespace.use(async (socket, next) => {
+        socket.data.userId = null;
+        socket.data.username = null;
+        socket.data.guest = true;
+        try {
+            const token = app.parseCookie(socket.handshake.headers.cookie ?? "").authToken;
+            if (token) {
+                const user = await verifyAccessToken(app, prisma, token);
+                socket.data.userId = user.userId;
+                socket.data.username = user.username;
+                socket.data.guest = false;
+            }
+        } catch {
+            // An expired, forged or revoked token counts as no token
+        }
+        if (required && socket.data.guest)
+            return next(new Error("AUTHENTICATION_REQUIRED"));
+        next();
+    });
+}
+
+export function socketUserId(socket: Socket): number | null {
+    return socket.data.userId ?? null;
+}
+
+// Lobby and remote seat name: registered players appear under their username, guests are labelled as such
+export function socketDisplayName(socket: Socket): string {
+    return socket.data.username ?? `Guest-${socket.id.slice(0, 3)}`;
+}
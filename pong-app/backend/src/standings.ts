@@ -0,0 +1,98 @@
+import { Player, Match } from "./types/lobby";
+
+/*
+ * League table of round-robin and Swiss tournaments. A win is worth WIN_POINTS, a draw DRAW_POINTS
+ * and a Swiss bye counts as a win. Players level on points are split by score differential, then by the points
+ * they took off each other (head-to-head), then by the scores they made and finally by seed.
+ */
+
+export const WIN_POINTS = 3;
+export const DRAW_POINTS = 1;
+
+export interface Standing {
+    player: Player;
+    seed: number;       // 1 is the top seed
+    played: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    byes: number;
+    points: number;
+    scoreFor: number;
+    scoreAgainst: number;
+}
+
+const scoreDiff = (s: Standing) => s.scoreFor - s.scoreAgainst;
+
+// A match is over once it has a winner or was recorded as a draw
+export function isFinished(match: Match) {
+    return !!match.winner || !!match.draw;
+}
+
+// Points won in the matches between the given players only
+function headToHead(group: Standing[], matches: Match[]) {
+    const players = new Set(group.map(s => s.player));
+    const points = new Map<Player, number>();
+    for (const match of matches) {
+        if (!players.has(match.player1) || !players.has(match.player2))
+            continue;
+        if (match.winner)
+            points.set(match.winner, (points.get(match.winner) ?? 0) + WIN_POINTS);
+        else if (match.draw) {
+            for (const player of [match.player1, match.player2])
+                points.set(player, (points.get(player) ?? 0) + DRAW_POINTS);
+        }
+    }
+    return (s: Standing) => points.get(s.player) ?? 0;
+}
+
+// entrants in seeding order; matches are the finished ones, byes lists a player once per bye
+export function computeStandings(entrants: Player[], matches: Match[], byes: Player[] = []): Standing[] {
+    const rows = new Map<Player, Standing>(entrants.map((player, i) => [player, {
+        player, seed: i + 1, played: 0, wins: 0, losses: 0, draws: 0, byes: 0, points: 0, scoreFor: 0, scoreAgainst: 0,
+    }]));
+    for (const match of matches) {
+        const one = rows.get(match.player1);
+        const two = rows.get(match.player2);
+        if (!one || !two || !isFinished(match))
+            continue;
+        for (const [row, scored, conceded] of [[one, match.p1score, match.p2score], [two, match.p2score, match.p1score]] as const) {
+            row.played++;
+            row.scoreFor += scored;
+            row.scoreAgainst += conceded;
+            if (match.winner === row.player) {
+                row.wins++;
+                row.points += WIN_POINTS;
+            }
+            else if (match.draw) {
+                row.draws++;
+                row.points += DRAW_POINTS;
+            }
+            else
+                row.losses++;
+        }
+    }
+    for (const player of byes) {
+        const row = rows.get(player);
+        if (row) {
+            row.byes++;
+            row.points += WIN_POINTS;
+        }
+    }
+
+    const sorted = [...rows.values()].sort((a, b) => b.points - a.points || scoreDiff(b) - scoreDiff(a));
+    const table: Standing[] = [];
+    for (let i = 0; i < sorted.length;) {
+        let j = i + 1;
+        while (j < sorted.length && sorted[j].points === sorted[i].points && scoreDiff(sorted[j]) === scoreDiff(sorted[i]))
+            j++;
+        const group = sorted.slice(i, j);
+        if (group.length > 1) {
+            const h2h = headToHead(group, matches);
+            group.sort((a, b) => h2h(b) - h2h(a) || b.scoreFor - a.scoreFor || a.seed - b.seed);
+        }
+        table.push(...group);
+        i = j;
+    }
+    return table;
+}
@@ -1,21 +1,26 @@
 import { Server, Socket } from "socket.io";
+import { FastifyInstance } from "fastify";
+import { PrismaClient } from "@prisma/client";
 import { playersOnlineTournament, pongTournaments, keyClashTournaments, getTournamentLobbyState } from "./gameData";
 import PingPongGame from "./PingPongGame";
-import { state } from "./KeyClashGame";
+import { DEFAULT_MATCH_RULES, TIE_BREAKS, isTieBreak, validateMatchRules } from "./matchRules";
+import { state, PROMPT_MODES, isPromptMode, emptyStats } from "./KeyClashGame";
+import { authenticateSockets, socketUserId, socketDisplayName } from "./socketAuth";
+import { BRACKET_SIZES, TOURNAMENT_FORMATS, isBracketSize, isTournamentFormat } from "./bracket";
 
-export function setupTournamentLobby(io: Server) {
+export function setupTournamentLobby(io: Server, prisma: PrismaClient, app: FastifyInstance) {
     const tournamentLobbyNamespace = io.of('/tournament');
+    authenticateSockets(tournamentLobbyNamespace, prisma, app);
 
     tournamentLobbyNamespace.on("connection", (socket: Socket) => {
       console.log(`Player connected: ${socket.id}`);
 
-      socket.on("name", (name: string | null, playerId: number | null, callback: Function) => {
+      // The name and id sent by older clients are ignored, both come from the auth cookie
+      socket.on("name", (_name: string | null, _playerId: number | null, callback: Function) => {
+        const playerId = socketUserId(socket);
         if (playerId && playersOnlineTournament.some(p => p.playerId === playerId))
           return callback({ error: "You're already in the lobby" });
-        if (name)
-          socket.data.name = name
-        else
-          socket.data.name = `Guest-${socket.id.slice(0, 3)}`;
+        socket.data.name = socketDisplayName(socket);
 
         playersOnlineTournament.push({ playerId: playerId, socketId: socket.id, name: socket.data.name, side: null });
 
@@ -23,11 +28,42 @@ export function setupTournamentLobby(io: Server) {
       })
 
   
-      socket.on("create_game", (game: "pong" | "keyclash", mode: "local" | "remote") => {
+      // options.size: most entrants of a remote tournament, local tournaments are always 4 players
+      // options.format: elimination (default), round-robin or swiss
+      // options.tieBreak: for Key Clash, pong tournaments have it in their rules
+      // options.promptMode: classic (default), sequences, speed or mirror, for Key Clash
+      socket.on("create_game", (game: "pong" | "keyclash", mode: "local" | "remote",
+                                options?: { rules?: unknown, size?: unknown, format?: unknown, tieBreak?: unknown,
+                                            promptMode?: unknown },
+                                callback?: Function) => {
         const id = Math.random().toString(36).substring(2, 6);
+        const fail = (error: string) => { if (typeof callback === "function") callback({ error }); };
 
-        if (game === "pong") pongTournaments.push(new PingPongGame(id, mode, "tournament"));
+        const size = options?.size ?? 4;
+        if (!isBracketSize(size))
+          return fail(`A tournament is for ${BRACKET_SIZES.join(", ")} players`);
+        if (mode === "local" && size !== 4)
+          return fail("Local tournaments are for 4 players");
+        const format = options?.format ?? "elimination";
+        if (!isTournamentFormat(format))
+          return fail(`Unknown tournament format, use one of: ${TOURNAMENT_FORMATS.join(", ")}`);
+
+        if (game === "pong") {
+          const checked = validateMatchRules(options?.rules);
+          if ("error" in checked)
+            return fail(checked.error);
+          const tournament = new PingPongGame(id, mode, "tournament", checked.rules);
+          tournament.state.size = size;
+          tournament.state.format = format;
+          pongTournaments.push(tournament);
+        }
         else {
+          const tieBreak = options?.tieBreak ?? DEFAULT_MATCH_RULES.tieBreak;
+          if (!isTieBreak(tieBreak))
+            return fail(`Tie break must be one of: ${TIE_BREAKS.join(", ")}`);
+          const promptMode = options?.promptMode ?? "classic";
+          if (!isPromptMode(promptMode))
+            return fail(`Prompt mode must be one of: ${PROMPT_MODES.join(", ")}`);
           let newKeyClash: state = {
             id: id,
             score1: 0,
@@ -45,6 +81,19 @@ export function setupTournamentLobby(io: Server) {
             mode: mode,
 			      type: "tournament",
             round: 0,
+            spectators: 0,
+            size: size,
+            format: format,
+            bracket: null,
+            tieBreak: tieBreak,
+            overtime: null,
+            promptMode: promptMode,
+            sequences: [[], []],
+            progress: [0, 0],
+            streaks: [0, 0],
+            promptTimers: [null, null],
+            promptIssuedAt: [0, 0],
+            stats: [emptyStats(), emptyStats()],
           }
           keyClashTournaments.push(newKeyClash);
         }
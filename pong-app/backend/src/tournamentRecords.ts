@@ -0,0 +1,110 @@
+import { PrismaClient, GameName } from "@prisma/client";
+import { Player, Match } from "./types/lobby";
+import { Bracket, bracketWinner, finalPlacings } from "./bracket.js";
+import { isFinished } from "./standings.js";
+
+/*
+ * Tournaments kept in the database for /tournament/history. A tournament gets its row when its
+ * draw is made; after that every change of the draw (a match coming up or finishing, a Swiss
+ * round being paired) is written to its TournamentMatch rows, and the Game row of each match
+ * is linked to its slot. Writes of one tournament are chained so they land in order.
+ */
+
+// Per draw: resolves to the id of the Tournament row once the previous write is done
+const records = new WeakMap<Bracket, Promise<number | null>>();
+
+function chain(bracket: Bracket, write: (id: number) => Promise<unknown>) {
+    const previous = records.get(bracket);
+    if (!previous)
+        return;
+    records.set(bracket, previous.then(async (id) => {
+        if (id !== null)
+            await write(id).catch((error) => console.error("Failed to save tournament:", error));
+        return id;
+    }));
+}
+
+// Called once the draw is made, with the room id the tournament had in the lobby
+export function openTournamentRecord(prisma: PrismaClient, game: GameName, code: string,
+                                     mode: "local" | "remote", size: number, bracket: Bracket) {
+    records.set(bracket, prisma.tournament.create({
+        data: {
+            code,
+            game_name: game,
+            mode,
+            format: bracket.format,
+            size,
+            total_rounds: bracket.totalRounds,
+            total_matches: bracket.totalMatches,
+            entrants: {
+                create: bracket.entrants.map((player, i) => ({
+                    userId: player.playerId,
+                    name: player.name ?? `Player ${i + 1}`,
+                    seed: i + 1,
+                })),
+            },
+        },
+    }).then(tournament => tournament.id).catch((error) => {
+        console.error("Failed to save tournament:", error);
+        return null;
+    }));
+    saveTournamentProgress(prisma, bracket);
+}
+
+/*
+ * Writes the current state of the draw. ended is set when the tournament's room is closed:
+ * a tournament without a winner by then was abandoned
+ */
+export function saveTournamentProgress(prisma: PrismaClient, bracket: Bracket, ended = false) {
+    chain(bracket, async (id) => {
+        const entrants = await prisma.tournamentEntrant.findMany({ where: { id_tournament: id } });
+        const entrantId = (player: Player | null) =>
+            player ? entrants.find(e => e.seed === bracket.entrants.indexOf(player) + 1)?.id ?? null : null;
+
+        const slots = bracket.rounds.flatMap((nodes, round) => nodes.map((node, position) => {
+            const data = {
+                id_player1: entrantId(node.player1),
+                id_player2: entrantId(node.player2),
+                id_winner: entrantId(node.match?.winner ?? null),
+                p1score: node.match && isFinished(node.match) ? node.match.p1score : null,
+                p2score: node.match && isFinished(node.match) ? node.match.p2score : null,
+                bye: node.bye,
+            };
+            return prisma.tournamentMatch.upsert({
+                where: { id_tournament_round_position: { id_tournament: id, round, position } },
+                create: { id_tournament: id, round, position, ...data },
+                update: data,
+            });
+        }));
+
+        const winner = bracketWinner(bracket);
+        const placings = winner ? [...finalPlacings(bracket)] : [];
+        await prisma.$transaction([
+            ...slots,
+            ...placings.map(([player, placement]) => prisma.tournamentEntrant.update({
+                where: { id: entrantId(player)! },
+                data: { placement },
+            })),
+            prisma.tournament.updateMany({
+                where: { id, status: "in_progress" },
+                data: winner ? { status: "finished", id_winner: entrantId(winner), finishedAt: new Date() }
+                             : ended ? { status: "abandoned", finishedAt: new Date() } : {},
+            }),
+        ]);
+    });
+}
+
+// Links the saved Game row of a tournament match to its slot in the draw
+export function linkTournamentGame(prisma: PrismaClient, bracket: Bracket, match: Match, gameId: Promise<number | null>) {
+    chain(bracket, async (id) => {
+        const round = bracket.rounds.findIndex(nodes => nodes.some(n => n.match === match));
+        const position = bracket.rounds[round]?.findIndex(n => n.match === match) ?? -1;
+        const id_game = await gameId;
+        if (id_game === null || position === -1)
+            return;
+        await prisma.tournamentMatch.updateMany({
+            where: { id_tournament: id, round, position },
+            data: { id_game },
+        });
+    });
+}
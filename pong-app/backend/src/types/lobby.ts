@@ -1,18 +1,54 @@
 // src/types/lobby.ts
+import { MatchRules } from "../matchRules";
+import { PublicBracket, TournamentFormat } from "../bracket";
+
+export type BotDifficulty = "easy" | "medium" | "hard";
+
+// Paddle a player drives in 2v2 team play: the back one on the goal line or the front one
+export type Lane = "back" | "front";
+
 export interface Player {
-    playerId: number | null, socketId: string | null, name: string | null, side: "left" | "right" | null   
+    playerId: number | null, socketId: string | null, name: string | null, side: "left" | "right" | null,
+    disconnected?: boolean, // seat held for a registered player who dropped out of a remote match
+    bot?: BotDifficulty, // seat taken by the server-side Pong bot
+    lane?: Lane, // only set in team rooms
+    ready?: boolean // pressed ready in a team room, a side is ready once both of its players are
 };
+
+export interface Match {
+    player1: Player;
+    player2: Player;
+    p1score: number;
+    p2score: number;
+    winner: Player | null;
+    duration: number;
+    forfeitedBy?: Player | null;
+    draw?: boolean; // ended level with no winner
+    partner1?: Player | null; // front lane teammates in 2v2 team play
+    partner2?: Player | null;
+}
   
 export interface pongGame {
     id: string;
     players: Player[];
     status: "waiting" | "in-progress" | "finished" | "paused" | "starting";
+    mode: "local" | "remote";
+    spectators: number;
+    rules: MatchRules;
+    size?: number; // tournament entrants, or 4 for a team room
+    format?: TournamentFormat;
+    bracket?: PublicBracket | null;
 }
 
 export interface keyClashGame {
   id: string;
   players: {},
-  status: "waiting" | "starting" | "in-progress" | "finished";
+  status: "waiting" | "starting" | "in-progress" | "paused" | "finished";
+  mode: "local" | "remote";
+  spectators: number;
+  size?: number;
+  format?: TournamentFormat;
+  bracket?: PublicBracket | null;
 }
 
 export interface LobbyState {
@@ -31,6 +67,8 @@ export interface GameResult {
       avatar: string;
       score: number;
       isWinner: boolean;
+      bot?: BotDifficulty | null;
+      partner?: { username: string | null; playerId: number | null } | null; // teammate in 2v2 team play
     };
     player2: {
       username: string | null;
@@ -38,9 +76,15 @@ export interface GameResult {
       avatar: string;
       score: number;
       isWinner: boolean;
+      bot?: BotDifficulty | null;
+      partner?: { username: string | null; playerId: number | null } | null; // teammate in 2v2 team play
     };
     winner: Player | null;
+    draw?: boolean;
+    opponentType: "human" | "bot";
+    forfeit?: string | null; // name of the player who forfeited by not reconnecting
     duration: number; // in seconds
+    rules?: MatchRules; // pong match rules the game was played with
     rounds?: any[]; // detailed round data
     timestamp: Date;
   }
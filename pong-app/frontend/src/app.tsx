@@ -16,7 +16,9 @@ const ChangePasswordPage = lazy(
   () => import("./pages/unauthorised/changePassword")
 );
 const PlayPage = lazy(() => import("./pages/game/playPage"));
+const ReplayPage = lazy(() => import("./pages/game/replayPage"));
 const LobbyPage = lazy(() => import("./pages/authorised/lobby"));
+const InvitePage = lazy(() => import("./pages/authorised/invite"));
 const QuickMatchPage = lazy(() => import("./pages/authorised/quickmatch"));
 const TournamentPage = lazy(() => import("./pages/authorised/tournament"));
 const AvatarPage = lazy(() => import("./pages/general/avatar"));
@@ -86,6 +88,14 @@ const App = () => {
             <Route path="/play" element={<PlayPage />} />
             <Route path="/avatar" element={<AvatarPage />} />
             <Route path="/:game/:mode/:type/:gameId" element={<PlayPage />} />
+            <Route
+              path="/replay/:gameId"
+              element={
+                <ProtectedRoute>
+                  <ReplayPage />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Public routes with layout */}
             <Route element={<Layout />}>
@@ -156,6 +166,7 @@ const App = () => {
 
             <Route element={<Layout />}>
               <Route path="/quickmatch" element={<QuickMatchPage />} />
+              <Route path="/invite/:code" element={<InvitePage />} />
             </Route>
 
             {/* Catch all route */}
@@ -0,0 +1,78 @@
+// frontend/src/components/lobby/ChallengeInbox.tsx
+import React from "react";
+
+export type ChallengeGame = "pong" | "keyclash";
+
+export interface Challenge {
+  id: string;
+  game: ChallengeGame;
+  from: { id: number; username: string };
+  to: { id: number; username: string };
+  expiresIn: number;
+}
+
+interface ChallengeInboxProps {
+  incoming: Challenge[];
+  outgoing: Challenge | null;
+  onRespond: (id: string, accept: boolean) => void;
+  onCancel: (id: string) => void;
+}
+
+const GAME_LABELS: Record<ChallengeGame, string> = {
+  pong: "🏓 Pong",
+  keyclash: "⌨️ Key Clash",
+};
+
+// Floating cards for friend challenges, both received and the one we sent
+export const ChallengeInbox: React.FC<ChallengeInboxProps> = ({
+  incoming,
+  outgoing,
+  onRespond,
+  onCancel,
+}) => {
+  if (!incoming.length && !outgoing) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-3 w-72">
+      {outgoing && (
+        <div className="bg-gray-800 border border-purple-500 rounded-lg p-4 shadow-lg">
+          <p className="text-sm">
+            Waiting for <strong>{outgoing.to.username}</strong> to accept your{" "}
+            {GAME_LABELS[outgoing.game]} challenge...
+          </p>
+          <button
+            onClick={() => onCancel(outgoing.id)}
+            className="mt-3 bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+      {incoming.map((challenge) => (
+        <div
+          key={challenge.id}
+          className="bg-gray-800 border border-yellow-500 rounded-lg p-4 shadow-lg"
+        >
+          <p className="text-sm">
+            <strong>{challenge.from.username}</strong> challenges you to{" "}
+            {GAME_LABELS[challenge.game]}!
+          </p>
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => onRespond(challenge.id, true)}
+              className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm transition-colors"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => onRespond(challenge.id, false)}
+              className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-sm transition-colors"
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
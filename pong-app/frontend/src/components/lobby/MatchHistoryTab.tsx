@@ -1,25 +1,42 @@
 // frontend/src/components/lobby/MatchHistoryTab.tsx
 import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "../../contexts/AuthContext";
 import api from "../../utils/api";
+import { MatchRules, describeMatchRules } from "../../utils/matchRules";
+import {
+  GameRating,
+  RatedGame,
+  RATED_GAMES,
+  formatRatingChange,
+  ratingChangeColor,
+} from "../../utils/ratings";
 
 interface Match {
   id: string;
   date: string;
   gameType: string;
   opponent: string;
+  teammate?: string | null; // the user's partner in a 2v2 team game
   result: string;
   score: string;
   duration: string;
   mode: string;
+  rules?: MatchRules | null;
+  opponentType?: "human" | "bot";
+  hasReplay?: boolean;
+  ratingChange?: number | null;
+  ratingAfter?: number | null;
   rounds?: any[];
 }
 
 interface Stats {
   wins: number;
   losses: number;
+  draws: number;
   totalMatches: number;
   winRate: number;
+  ratings?: Record<RatedGame, GameRating>;
 }
 
 interface Profile {
@@ -33,9 +50,12 @@ interface Profile {
 interface LeaderboardPlayer {
   rank: number;
   username: string;
+  rating: number;
+  peakRating: number;
+  lastChange: number | null;
   wins: number;
   losses: number;
-  points: number;
+  draws: number;
   online_status: string;
   profilePic?: string;
   isCurrentUser: boolean;
@@ -48,9 +68,12 @@ export const MatchHistoryTab: React.FC = () => {
   const [stats, setStats] = useState<Stats | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [leaderboard, setLeaderboard] = useState<LeaderboardPlayer[]>([]);
+  const [leaderboardGame, setLeaderboardGame] =
+    useState<RatedGame>("pingpong");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedGameId, setExpandedGameId] = useState<number | null>(null);
+  const navigate = useNavigate();
 
   useEffect(() => {
     const fetchAllData = async () => {
@@ -63,12 +86,10 @@ export const MatchHistoryTab: React.FC = () => {
           matchHistoryResponse,
           statsResponse,
           profileResponse,
-          leaderboardResponse,
         ] = await Promise.all([
           api.get("/game/history"),
           api.get("/game/stats"),
           api.get("/user/profile"),
-          api.get("/game/leaderboard"),
         ]);
 
         setMatches(matchHistoryResponse.data);
@@ -80,7 +101,6 @@ export const MatchHistoryTab: React.FC = () => {
           online_status: profileResponse.data.online_status,
           createdAt: profileResponse.data.createdAt,
         });
-        setLeaderboard(leaderboardResponse.data);
       } catch (error) {
         console.error("Failed to fetch match history data:", error);
         setError("Failed to load game statistics. Please try again.");
@@ -94,6 +114,17 @@ export const MatchHistoryTab: React.FC = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+    api
+      .get(`/game/leaderboard?game=${leaderboardGame}`)
+      .then((response) => setLeaderboard(response.data))
+      .catch((error) => {
+        console.error("Failed to fetch leaderboard:", error);
+        setLeaderboard([]);
+      });
+  }, [user, leaderboardGame]);
+
   const toggleGameDetails = (gameId: string) => {
     const numericId = parseInt(gameId);
     setExpandedGameId(expandedGameId === numericId ? null : numericId);
@@ -136,10 +167,47 @@ export const MatchHistoryTab: React.FC = () => {
           </div>
           <div>
             <strong className="text-blue-300">Opponent:</strong>
-            <span className="ml-2">{match.opponent}</span>
+            <span className="ml-2">
+              {match.opponent}
+              {match.opponentType === "bot" && " 🤖"}
+            </span>
           </div>
+          {match.teammate && (
+            <div>
+              <strong className="text-blue-300">Teammate:</strong>
+              <span className="ml-2">{match.teammate}</span>
+            </div>
+          )}
+          {match.ratingChange != null && (
+            <div>
+              <strong className="text-blue-300">Rating:</strong>
+              <span className="ml-2">
+                {match.ratingAfter}
+                <span
+                  className={`ml-2 ${ratingChangeColor(match.ratingChange)}`}
+                >
+                  ({formatRatingChange(match.ratingChange)})
+                </span>
+              </span>
+            </div>
+          )}
+          {match.rules && (
+            <div>
+              <strong className="text-blue-300">Rules:</strong>
+              <span className="ml-2">{describeMatchRules(match.rules)}</span>
+            </div>
+          )}
         </div>
 
+        {match.hasReplay && (
+          <button
+            onClick={() => navigate(`/replay/${match.id}`)}
+            className="mb-4 bg-blue-500 hover:bg-blue-600 px-4 py-2 rounded-lg font-semibold shadow-md"
+          >
+            ▶ Watch replay
+          </button>
+        )}
+
         {match.rounds &&
         Array.isArray(match.rounds) &&
         match.rounds.length > 0 ? (
@@ -166,6 +234,33 @@ export const MatchHistoryTab: React.FC = () => {
                       Duration: {round.duration}
                     </div>
                   )}
+                  {Array.isArray(round.players) && (
+                    <div className="mt-2 grid grid-cols-2 gap-2 text-sm text-gray-300">
+                      {round.players.map((stats: any, i: number) => (
+                        <div key={i} className="bg-gray-700 p-2 rounded">
+                          <div className="font-semibold text-white">
+                            {stats.name ?? `Player ${i + 1}`}
+                          </div>
+                          <div>
+                            Reaction: {formatMs(stats.mean)} avg,{" "}
+                            {formatMs(stats.p50)} p50, {formatMs(stats.p95)} p95
+                          </div>
+                          <div>
+                            Accuracy:{" "}
+                            {stats.accuracy !== null
+                              ? `${Math.round(stats.accuracy * 100)}%`
+                              : "-"}{" "}
+                            ({stats.hits} hits, {stats.misses} misses)
+                          </div>
+                          {stats.throttled > 0 && (
+                            <div className="text-yellow-300">
+                              {stats.throttled} presses over the rate limit
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -179,6 +274,9 @@ export const MatchHistoryTab: React.FC = () => {
     );
   };
 
+  const formatMs = (ms: number | null): string =>
+    ms === null || ms === undefined ? "-" : `${ms} ms`;
+
   const formatDate = (dateString: string): string => {
     return new Date(dateString).toLocaleString("en-US", {
       month: "short",
@@ -310,6 +408,12 @@ export const MatchHistoryTab: React.FC = () => {
                     </div>
                     <div className="text-sm text-gray-300">Losses</div>
                   </div>
+                  <div className="bg-gray-700 p-3 rounded-lg text-center">
+                    <div className="text-2xl font-bold text-gray-200">
+                      {stats.draws ?? 0}
+                    </div>
+                    <div className="text-sm text-gray-300">Draws</div>
+                  </div>
                   <div className="bg-gray-700 p-3 rounded-lg text-center">
                     <div className="text-2xl font-bold text-blue-400">
                       {stats.totalMatches}
@@ -322,6 +426,31 @@ export const MatchHistoryTab: React.FC = () => {
                     </div>
                     <div className="text-sm text-gray-300">Win Rate</div>
                   </div>
+                  {stats.ratings &&
+                    RATED_GAMES.map(({ id, label }) => (
+                      <div
+                        key={id}
+                        className="bg-gray-700 p-3 rounded-lg text-center"
+                      >
+                        <div className="text-2xl font-bold text-purple-400">
+                          {stats.ratings![id].rating}
+                          {stats.ratings![id].lastChange !== null && (
+                            <span
+                              className={`ml-2 text-sm ${ratingChangeColor(
+                                stats.ratings![id].lastChange!
+                              )}`}
+                            >
+                              {formatRatingChange(
+                                stats.ratings![id].lastChange!
+                              )}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-sm text-gray-300">
+                          {label} Rating (peak {stats.ratings![id].peakRating})
+                        </div>
+                      </div>
+                    ))}
                 </div>
               )}
             </div>
@@ -330,9 +459,24 @@ export const MatchHistoryTab: React.FC = () => {
 
         {/* Leaderboard Section */}
         <div className="bg-gray-800 p-6 rounded-xl shadow-lg mb-8">
-          <h2 className="text-2xl font-bold mb-6 text-center text-yellow-300">
+          <h2 className="text-2xl font-bold mb-4 text-center text-yellow-300">
             🏅 Game Leaderboard
           </h2>
+          <div className="flex justify-center gap-2 mb-6">
+            {RATED_GAMES.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setLeaderboardGame(id)}
+                className={`px-4 py-2 rounded-lg font-semibold ${
+                  leaderboardGame === id
+                    ? "bg-yellow-500 text-black"
+                    : "bg-gray-700 hover:bg-gray-600"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
 
           {leaderboard.length > 0 ? (
             <div className="overflow-x-auto">
@@ -341,9 +485,11 @@ export const MatchHistoryTab: React.FC = () => {
                   <tr className="bg-gray-700">
                     <th className="p-3 font-semibold">Rank</th>
                     <th className="p-3 font-semibold">Player</th>
+                    <th className="p-3 font-semibold">Rating</th>
+                    <th className="p-3 font-semibold">Peak</th>
                     <th className="p-3 font-semibold">Wins</th>
                     <th className="p-3 font-semibold">Losses</th>
-                    <th className="p-3 font-semibold">Points</th>
+                    <th className="p-3 font-semibold">Draws</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -395,14 +541,29 @@ export const MatchHistoryTab: React.FC = () => {
                           </div>
                         </div>
                       </td>
+                      <td className="p-3 font-bold text-yellow-400">
+                        {player.rating}
+                        {player.lastChange !== null && (
+                          <span
+                            className={`ml-2 text-xs ${ratingChangeColor(
+                              player.lastChange
+                            )}`}
+                          >
+                            {formatRatingChange(player.lastChange)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="p-3 text-gray-300">
+                        {player.peakRating}
+                      </td>
                       <td className="p-3 text-green-400 font-semibold">
                         {player.wins}
                       </td>
                       <td className="p-3 text-red-400 font-semibold">
                         {player.losses}
                       </td>
-                      <td className="p-3 font-bold text-yellow-400">
-                        {player.points}
+                      <td className="p-3 text-gray-300 font-semibold">
+                        {player.draws ?? 0}
                       </td>
                     </tr>
                   ))}
@@ -413,7 +574,7 @@ export const MatchHistoryTab: React.FC = () => {
             <div className="text-center text-gray-400 py-8">
               <p className="text-lg">No leaderboard data available yet.</p>
               <p className="text-sm">
-                Play some games to appear on the leaderboard!
+                Play rated online games to appear on the leaderboard!
               </p>
             </div>
           )}
@@ -477,6 +638,15 @@ export const MatchHistoryTab: React.FC = () => {
                         </span>
                         <div className="text-right">
                           <div className="font-mono text-lg">{match.score}</div>
+                          {match.ratingChange != null && (
+                            <div
+                              className={`text-sm font-semibold ${ratingChangeColor(
+                                match.ratingChange
+                              )}`}
+                            >
+                              {formatRatingChange(match.ratingChange)}
+                            </div>
+                          )}
                           <div className="text-sm text-gray-300">
                             {match.duration}
                           </div>
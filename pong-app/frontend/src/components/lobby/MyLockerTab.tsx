@@ -2,6 +2,8 @@
 import React, { useState, useRef, useEffect } from "react";
 import { useAuth } from "../../contexts/AuthContext";
 import api from "../../utils/api";
+import { SecuritySettings } from "./SecuritySettings";
+import { SessionsList } from "./SessionsList";
 
 interface Avatar {
   id: string;
@@ -19,6 +21,7 @@ interface Profile {
   profilePic?: string;
   wins?: number;
   losses?: number;
+  draws?: number;
 }
 
 export const MyLockerTab: React.FC = () => {
@@ -393,6 +396,12 @@ export const MyLockerTab: React.FC = () => {
                   {profile?.losses ?? 0}
                 </span>
               </div>
+              <div>
+                <span className="text-gray-400">Draws:</span>{" "}
+                <span className="font-bold text-gray-300">
+                  {profile?.draws ?? 0}
+                </span>
+              </div>
             </div>
           </div>
         </div>
@@ -499,6 +508,8 @@ export const MyLockerTab: React.FC = () => {
           </div>
         )}
       </form>
+      <SecuritySettings />
+      <SessionsList />
     </div>
   );
 };
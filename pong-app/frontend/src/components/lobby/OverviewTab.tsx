@@ -1,6 +1,13 @@
 // frontend/src/components/lobby/OverviewTab.tsx
 import React, { useEffect, useState } from "react";
 import api from "../../utils/api";
+import {
+  GameRating,
+  RatedGame,
+  RATED_GAMES,
+  formatRatingChange,
+  ratingChangeColor,
+} from "../../utils/ratings";
 
 interface DisplayStats {
   totalMatches: number;
@@ -10,6 +17,7 @@ interface DisplayStats {
   longestWinStreak: number;
   wins: number;
   losses: number;
+  ratings?: Record<RatedGame, GameRating>;
   source?: string;
 }
 
@@ -26,6 +34,7 @@ interface RecentMatch {
   mode: string;
   result: string;
   score: string;
+  ratingChange?: number | null;
   date: string;
 }
 
@@ -220,6 +229,29 @@ export const OverviewTab: React.FC = () => {
             <span>Longest Streak:</span>
             <span>{displayStats.longestWinStreak}</span>
           </div>
+          {displayStats.ratings &&
+            RATED_GAMES.map(({ id, label }) => {
+              const rating = displayStats.ratings![id];
+              return (
+                <div key={id} className="flex justify-between items-center">
+                  <span>{label} Rating:</span>
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-blue-400 text-lg">
+                      {rating.rating}
+                    </span>
+                    {rating.lastChange !== null && (
+                      <span
+                        className={`text-xs ${ratingChangeColor(
+                          rating.lastChange
+                        )}`}
+                      >
+                        {formatRatingChange(rating.lastChange)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
         </div>
       </div>
 
@@ -299,7 +331,18 @@ export const OverviewTab: React.FC = () => {
                   >
                     {match.result.toUpperCase()}
                   </div>
-                  <div className="text-xs text-gray-400">{match.score}</div>
+                  <div className="text-xs text-gray-400">
+                    {match.score}
+                    {match.ratingChange != null && (
+                      <span
+                        className={`ml-1 ${ratingChangeColor(
+                          match.ratingChange
+                        )}`}
+                      >
+                        {formatRatingChange(match.ratingChange)}
+                      </span>
+                    )}
+                  </div>
                 </div>
               </div>
             ))
@@ -1,6 +1,7 @@
 // frontend/src/components/lobby/RallySquadTab.tsx
 import React, { useState, useEffect } from "react";
 import api from "../../utils/api";
+import { ChallengeGame } from "./ChallengeInbox";
 
 interface User {
   id: number;
@@ -24,7 +25,11 @@ interface FriendRequest {
   user: User;
 }
 
-export const RallySquadTab = () => {
+interface RallySquadTabProps {
+  onChallenge?: (friendId: number, game: ChallengeGame) => void;
+}
+
+export const RallySquadTab = ({ onChallenge }: RallySquadTabProps) => {
   const [allUsers, setAllUsers] = useState<User[]>([]);
   const [friends, setFriends] = useState<Friend[]>([]);
   const [friendRequests, setFriendRequests] = useState<FriendRequest[]>([]);
@@ -249,12 +254,32 @@ export const RallySquadTab = () => {
     switch (actionStatus.type) {
       case "friend":
         return (
-          <button
-            onClick={() => removeFriend(actionStatus.friendshipId!)}
-            className="bg-red-600 hover:bg-red-700 text-white px-2 sm:px-3 py-1 rounded text-xs sm:text-sm transition-colors whitespace-nowrap"
-          >
-            Remove
-          </button>
+          <div className="flex gap-1">
+            {onChallenge && (
+              <>
+                <button
+                  onClick={() => onChallenge(user.id, "pong")}
+                  title="Challenge to Pong"
+                  className="bg-yellow-600 hover:bg-yellow-700 text-white px-2 py-1 rounded text-xs transition-colors whitespace-nowrap"
+                >
+                  Challenge 🏓
+                </button>
+                <button
+                  onClick={() => onChallenge(user.id, "keyclash")}
+                  title="Challenge to Key Clash"
+                  className="bg-yellow-600 hover:bg-yellow-700 text-white px-2 py-1 rounded text-xs transition-colors whitespace-nowrap"
+                >
+                  Challenge ⌨️
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => removeFriend(actionStatus.friendshipId!)}
+              className="bg-red-600 hover:bg-red-700 text-white px-2 sm:px-3 py-1 rounded text-xs sm:text-sm transition-colors whitespace-nowrap"
+            >
+              Remove
+            </button>
+          </div>
         );
 
       case "received":
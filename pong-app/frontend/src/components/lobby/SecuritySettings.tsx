@@ -0,0 +1,311 @@
+// frontend/src/components/lobby/SecuritySettings.tsx
+import React, { useEffect, useState } from "react";
+import api from "../../utils/api";
+
+type TwoFactorMethod = "email" | "totp";
+
+// Changes that ask for the password again
+type ProtectedAction = "recovery-codes" | "rotate" | "disable" | "use-email";
+
+interface TwoFactorSettings {
+  method: TwoFactorMethod;
+  totpEnabled: boolean;
+  recoveryCodesLeft: number;
+  available: boolean;
+}
+
+interface TotpSetup {
+  qrCode: string;
+  secret: string;
+}
+
+const ACTION_LABELS: Record<ProtectedAction, string> = {
+  "recovery-codes": "New recovery codes",
+  rotate: "Replace authenticator app",
+  disable: "Remove authenticator app",
+  "use-email": "Switch to emailed codes",
+};
+
+// Offered as buttons once an authenticator app is set up; switching to email goes through the method choice
+const MENU_ACTIONS: ProtectedAction[] = ["recovery-codes", "rotate", "disable"];
+
+// Security section of My Locker: the second factor asked for at login and its recovery
+export const SecuritySettings: React.FC = () => {
+  const [settings, setSettings] = useState<TwoFactorSettings | null>(null);
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<ProtectedAction | null>(null);
+  const [password, setPassword] = useState("");
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api
+      .get("/auth/2fa")
+      .then((response) => setSettings(response.data))
+      .catch((err) => console.error("Failed to load 2FA settings:", err));
+  }, []);
+
+  const run = async (request: () => Promise<void>) => {
+    setBusy(true);
+    setMessage("");
+    setError("");
+    try {
+      await request();
+    } catch (err: any) {
+      setError(err.response?.data?.message || "Something went wrong. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      const response = await api.post("/auth/2fa/totp/setup");
+      setSetup(response.data);
+      setCode("");
+    });
+
+  const confirmSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const response = await api.post("/auth/2fa/totp/confirm", { code });
+      const codes: string[] | null = response.data.recoveryCodes;
+      setSetup(null);
+      setSettings(
+        (prev) =>
+          prev && {
+            ...prev,
+            method: "totp",
+            totpEnabled: true,
+            recoveryCodesLeft: codes ? codes.length : prev.recoveryCodesLeft,
+          }
+      );
+      if (codes) setRecoveryCodes(codes);
+      setMessage(response.data.message);
+    });
+  };
+
+  const chooseMethod = (method: TwoFactorMethod) => {
+    if (method === "email" && settings?.method === "totp") {
+      setAction("use-email");
+      setPassword("");
+      setMessage("");
+      setError("");
+      return;
+    }
+    run(async () => {
+      await api.put("/auth/2fa/method", { method });
+      setSettings((prev) => prev && { ...prev, method });
+      setMessage(
+        method === "totp"
+          ? "You will be asked for a code from your authenticator app at login."
+          : "You will be emailed a code at login."
+      );
+    });
+  };
+
+  const runProtectedAction = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (action === "recovery-codes") {
+        const response = await api.post("/auth/2fa/recovery-codes", { password });
+        setRecoveryCodes(response.data.recoveryCodes);
+        setSettings(
+          (prev) => prev && { ...prev, recoveryCodesLeft: response.data.recoveryCodes.length }
+        );
+      } else if (action === "rotate") {
+        const response = await api.post("/auth/2fa/totp/rotate", { password });
+        setSetup(response.data);
+        setCode("");
+      } else if (action === "disable") {
+        const response = await api.post("/auth/2fa/totp/disable", { password });
+        setSettings(
+          (prev) =>
+            prev && { ...prev, method: "email", totpEnabled: false, recoveryCodesLeft: 0 }
+        );
+        setRecoveryCodes(null);
+        setMessage(response.data.message);
+      } else if (action === "use-email") {
+        await api.put("/auth/2fa/method", { method: "email", password });
+        setSettings((prev) => prev && { ...prev, method: "email" });
+        setMessage("You will be emailed a code at login.");
+      }
+      setAction(null);
+      setPassword("");
+    });
+  };
+
+  if (!settings?.available) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-8 mt-6">
+      <h3 className="text-2xl font-bold mb-4 text-center text-blue-300">
+        🔒 Security
+      </h3>
+
+      <div className="mb-4">
+        <p className="text-gray-400 mb-2">Two-factor code at login:</p>
+        <div className="flex gap-3">
+          {(["email", "totp"] as TwoFactorMethod[]).map((method) => (
+            <button
+              key={method}
+              type="button"
+              disabled={busy || (method === "totp" && !settings.totpEnabled)}
+              onClick={() => chooseMethod(method)}
+              className={`flex-1 py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                settings.method === method
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-600 hover:bg-gray-700 text-white"
+              }`}
+            >
+              {method === "email" ? "📧 Email" : "📱 Authenticator app"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!settings.totpEnabled && !setup && (
+        <button
+          type="button"
+          disabled={busy}
+          onClick={startSetup}
+          className="w-full bg-purple-600 hover:bg-purple-700 text-white py-2 px-4 rounded-lg"
+        >
+          Set up an authenticator app
+        </button>
+      )}
+
+      {settings.totpEnabled && !setup && (
+        <div>
+          <p className="text-gray-400 mb-2">
+            Recovery codes left:{" "}
+            <span
+              className={`font-bold ${
+                settings.recoveryCodesLeft > 2 ? "text-green-400" : "text-yellow-400"
+              }`}
+            >
+              {settings.recoveryCodesLeft}
+            </span>
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {MENU_ACTIONS.map((key) => (
+              <button
+                key={key}
+                type="button"
+                disabled={busy}
+                onClick={() => {
+                  setAction(key);
+                  setPassword("");
+                  setMessage("");
+                  setError("");
+                }}
+                className={`flex-1 py-2 px-4 rounded-lg text-white transition-colors ${
+                  key === "disable"
+                    ? "bg-red-600 hover:bg-red-700"
+                    : "bg-gray-600 hover:bg-gray-700"
+                }`}
+              >
+                {ACTION_LABELS[key]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {action && (
+        <form onSubmit={runProtectedAction} className="mt-4 flex flex-col items-center gap-3">
+          <p className="text-gray-300">
+            Enter your password to continue: {ACTION_LABELS[action]}
+          </p>
+          <input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoFocus
+            className="w-64 px-3 py-2 border rounded-md text-black bg-white"
+          />
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={busy || !password}
+              className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg"
+            >
+              Continue
+            </button>
+            <button
+              type="button"
+              onClick={() => setAction(null)}
+              className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded-lg"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes && (
+        <div className="mt-4 bg-gray-700 rounded-lg p-4">
+          <p className="text-yellow-300 mb-2 text-center">
+            Save these recovery codes somewhere safe. Each one logs you in once
+            without your authenticator app, and they won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-center">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setRecoveryCodes(null)}
+            className="mt-3 w-full bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded-lg"
+          >
+            I've saved them
+          </button>
+        </div>
+      )}
+
+      {setup && (
+        <form onSubmit={confirmSetup} className="flex flex-col items-center gap-3">
+          <p className="text-gray-300 text-center">
+            Scan this QR code with your authenticator app, then enter the
+            6-digit code it shows.
+          </p>
+          <img src={setup.qrCode} alt="Authenticator QR code" className="w-48 h-48 bg-white p-2 rounded" />
+          <p className="text-xs text-gray-400 break-all text-center">
+            Can't scan it? Enter this key: <span className="font-mono">{setup.secret}</span>
+          </p>
+          <input
+            type="text"
+            placeholder="6-digit code"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+            className="w-48 px-3 py-2 border rounded-md text-center tracking-widest text-black bg-white"
+          />
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={busy || code.length !== 6}
+              className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg"
+            >
+              Confirm
+            </button>
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded-lg"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {message && <div className="mt-3 text-center text-green-400">{message}</div>}
+      {error && <div className="mt-3 text-center text-red-400">{error}</div>}
+    </div>
+  );
+};
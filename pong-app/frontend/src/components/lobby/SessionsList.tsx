@@ -0,0 +1,106 @@
+// frontend/src/components/lobby/SessionsList.tsx
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../../contexts/AuthContext";
+import api from "../../utils/api";
+
+interface Session {
+  id: string;
+  device: string;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+// Devices the user is logged in on, each of which can be logged out
+export const SessionsList: React.FC = () => {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api
+      .get("/auth/sessions")
+      .then((response) => setSessions(response.data))
+      .catch((err) => console.error("Failed to load sessions:", err));
+  }, []);
+
+  const revoke = async (session: Session) => {
+    setBusy(true);
+    setError("");
+    try {
+      await api.delete(`/auth/sessions/${session.id}`);
+      if (session.current) return logout();
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (err: any) {
+      setError(err.response?.data?.message || "Failed to log out that device.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeAll = async () => {
+    if (!window.confirm("Log out on every device, this one included?")) return;
+    setBusy(true);
+    setError("");
+    try {
+      await api.delete("/auth/sessions");
+      logout();
+    } catch (err: any) {
+      setError(err.response?.data?.message || "Failed to log out everywhere.");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-8 mt-6">
+      <h3 className="text-2xl font-bold mb-4 text-center text-blue-300">
+        💻 Logged-in Devices
+      </h3>
+
+      <div className="space-y-3">
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className="bg-gray-700 rounded-lg p-3 flex justify-between items-center"
+          >
+            <div>
+              <div className="font-semibold">
+                {session.device}
+                {session.current && (
+                  <span className="ml-2 bg-green-600 px-2 py-0.5 rounded text-xs">
+                    This device
+                  </span>
+                )}
+              </div>
+              <div className="text-sm text-gray-400">
+                {session.ip ?? "Unknown IP"} · Last active{" "}
+                {new Date(session.lastUsedAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => revoke(session)}
+              className="bg-gray-600 hover:bg-gray-500 text-white px-3 py-1 rounded text-sm transition-colors"
+            >
+              Log out
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        disabled={busy}
+        onClick={revokeAll}
+        className="mt-4 w-full bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-lg"
+      >
+        Log out everywhere
+      </button>
+
+      {error && <div className="mt-3 text-center text-red-400">{error}</div>}
+    </div>
+  );
+};
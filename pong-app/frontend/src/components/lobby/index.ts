@@ -3,3 +3,4 @@ export { MatchHistoryTab } from "./MatchHistoryTab";
 export { MyLockerTab } from "./MyLockerTab";
 export { OverviewTab } from "./OverviewTab";
 export { RallySquadTab } from "./RallySquadTab";
+export { ChallengeInbox } from "./ChallengeInbox";
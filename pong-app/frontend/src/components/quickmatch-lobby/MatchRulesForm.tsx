@@ -0,0 +1,117 @@
+import { MatchRules, PONG_MODES, PongMode, TIE_BREAKS, TieBreak } from "../../utils/matchRules";
+
+interface MatchRulesFormProps {
+  rules: MatchRules;
+  onChange: (rules: MatchRules) => void;
+}
+
+const SCORE_LIMITS = [3, 5, 7, 11, 21];
+const DURATIONS = [60, 120, 180, 300, 600];
+const BALL_SPEEDS = [{ label: "Slow", value: 4 }, { label: "Normal", value: 6 }, { label: "Fast", value: 9 }];
+const ACCELERATIONS = [{ label: "None", value: 1 }, { label: "Normal", value: 1.05 }, { label: "Quick", value: 1.1 }];
+const PADDLE_SIZES = [{ label: "Small", value: 2 }, { label: "Normal", value: 3 }, { label: "Large", value: 4.5 }];
+
+export default function MatchRulesForm({ rules, onChange }: MatchRulesFormProps) {
+  const update = (changes: Partial<MatchRules>) => onChange({ ...rules, ...changes });
+
+  // A match needs at least one way to end, so only one of the two limits can be switched off
+  const toNumberOrNull = (value: string) => (value === "none" ? null : Number(value));
+  // Survival matches end when a side runs out of lives
+  const survival = rules.mode === "survival";
+
+  return (
+    <fieldset style={{ border: "1px solid #ccc", padding: "0.5rem", margin: "0.5rem 0" }}>
+      <legend>Match rules</legend>
+      <label>
+        Mode{" "}
+        <select value={rules.mode} onChange={(e) => update({ mode: e.target.value as PongMode })}>
+          {PONG_MODES.map((o) => (
+            <option key={o.id} value={o.id}>{o.label}</option>
+          ))}
+        </select>
+      </label>{" "}
+      <label>
+        <input
+          type="checkbox"
+          checked={rules.powerUps}
+          onChange={(e) => update({ powerUps: e.target.checked })}
+        />{" "}
+        Power-ups
+      </label>{" "}
+      <label>
+        Score limit{" "}
+        <select
+          value={rules.scoreLimit ?? "none"}
+          disabled={survival}
+          onChange={(e) => update({ scoreLimit: toNumberOrNull(e.target.value) })}
+        >
+          {SCORE_LIMITS.map((n) => (
+            <option key={n} value={n}>First to {n}</option>
+          ))}
+          <option value="none" disabled={rules.duration === null}>No limit</option>
+        </select>
+      </label>{" "}
+      <label>
+        <input
+          type="checkbox"
+          checked={rules.winByTwo}
+          disabled={survival || rules.scoreLimit === null}
+          onChange={(e) => update({ winByTwo: e.target.checked })}
+        />{" "}
+        Win by two
+      </label>{" "}
+      <label>
+        Duration{" "}
+        <select
+          value={rules.duration ?? "none"}
+          disabled={survival}
+          onChange={(e) => update({ duration: toNumberOrNull(e.target.value) })}
+        >
+          {DURATIONS.map((s) => (
+            <option key={s} value={s}>{s / 60} min</option>
+          ))}
+          <option value="none" disabled={rules.scoreLimit === null}>Untimed</option>
+        </select>
+      </label>{" "}
+      <label>
+        Ball speed{" "}
+        <select value={rules.ballSpeed} onChange={(e) => update({ ballSpeed: Number(e.target.value) })}>
+          {BALL_SPEEDS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </label>{" "}
+      <label>
+        Speed-up per hit{" "}
+        <select
+          value={rules.ballAcceleration}
+          onChange={(e) => update({ ballAcceleration: Number(e.target.value) })}
+        >
+          {ACCELERATIONS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </label>{" "}
+      <label>
+        Paddle size{" "}
+        <select value={rules.paddleSize} onChange={(e) => update({ paddleSize: Number(e.target.value) })}>
+          {PADDLE_SIZES.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </label>{" "}
+      <label>
+        When tied at time{" "}
+        <select
+          value={rules.tieBreak}
+          disabled={survival || rules.duration === null}
+          onChange={(e) => update({ tieBreak: e.target.value as TieBreak })}
+        >
+          {TIE_BREAKS.map((o) => (
+            <option key={o.id} value={o.id}>{o.label}</option>
+          ))}
+        </select>
+      </label>
+    </fieldset>
+  );
+}
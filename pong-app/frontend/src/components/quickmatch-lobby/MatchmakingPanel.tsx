@@ -0,0 +1,44 @@
+export type QueuedGame = "pong" | "keyclash";
+
+// Progress of a rated match search, as sent by the quickmatch queue
+export interface QueueStatus {
+  game: QueuedGame;
+  rating: number;
+  window: number;
+  waited: number;
+  timeout: number;
+}
+
+interface MatchmakingPanelProps {
+  search: QueueStatus | null;
+  canSearch: boolean;
+  onFind: (game: QueuedGame) => void;
+  onCancel: () => void;
+}
+
+const GAME_LABELS: Record<QueuedGame, string> = { pong: "Pong", keyclash: "Key Clash" };
+
+export default function MatchmakingPanel({ search, canSearch, onFind, onCancel }: MatchmakingPanelProps) {
+  return (
+    <fieldset style={{ border: "1px solid #ccc", padding: "0.5rem", margin: "0.5rem 0" }}>
+      <legend>Find a rated match</legend>
+      {!canSearch ? (
+        <p>Log in to be matched with players of your level.</p>
+      ) : search ? (
+        <div>
+          Searching for a {GAME_LABELS[search.game]} opponent rated {search.rating - search.window}–
+          {search.rating + search.window} ({search.waited}s / {search.timeout}s){" "}
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      ) : (
+        <div>
+          {(Object.keys(GAME_LABELS) as QueuedGame[]).map((game) => (
+            <button key={game} onClick={() => onFind(game)} style={{ marginRight: "0.5rem" }}>
+              Find {GAME_LABELS[game]} Match
+            </button>
+          ))}
+        </div>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,20 @@
+import { PROMPT_MODES, PromptMode } from "../../utils/keyClashModes";
+
+interface PromptModeSelectProps {
+  value: PromptMode;
+  onChange: (mode: PromptMode) => void;
+}
+
+// How Key Clash prompts are played, for the Key Clash games created from a lobby
+export default function PromptModeSelect({ value, onChange }: PromptModeSelectProps) {
+  return (
+    <label>
+      Key Clash mode{" "}
+      <select value={value} onChange={(e) => onChange(e.target.value as PromptMode)}>
+        {PROMPT_MODES.map((m) => (
+          <option key={m.id} value={m.id} title={m.hint}>{m.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -12,8 +12,10 @@ import {
 } from "../../shared/utils";
 import { Avatar, AvatarData, GameType } from "../../shared/types";
 
+export type BotDifficulty = "easy" | "medium" | "hard";
+
 interface QuickmatchPlayerFormProps {
-  onCreate: (type: GameType) => void;
+  onCreate: (type: GameType, bot?: BotDifficulty) => void;
 }
 
 export default function QuickmatchPlayerForm({ onCreate }: QuickmatchPlayerFormProps) {
@@ -39,6 +41,9 @@ export default function QuickmatchPlayerForm({ onCreate }: QuickmatchPlayerFormP
 
   const [availableAvatars, setAvailableAvatars] = useState<Avatar[]>([]);
 
+  // Bot opponent state
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>("medium");
+
   // Handle return from avatar selection
   useEffect(() => {
     const state = location.state as {
@@ -354,6 +359,30 @@ export default function QuickmatchPlayerForm({ onCreate }: QuickmatchPlayerFormP
               </p>
             </div>
         </div>
+
+        {/* Bot Opponent - no guest needed */}
+        <div className="bg-gray-800 p-6 rounded-xl shadow-lg">
+          <h2 className="text-2xl font-bold mb-6 text-center">Or Play Against a Bot</h2>
+
+          <div className="flex flex-col md:flex-row gap-6 items-center justify-center">
+            <select
+              value={botDifficulty}
+              onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+              className="px-4 py-2 rounded bg-gray-600 text-white font-bold"
+            >
+              <option value="easy">Easy</option>
+              <option value="medium">Medium</option>
+              <option value="hard">Hard</option>
+            </select>
+
+            <button
+              onClick={() => onCreate("pong", botDifficulty)}
+              className="p-6 rounded-xl text-xl font-bold shadow-lg transition-all bg-gradient-to-r from-yellow-500 to-orange-600 hover:from-yellow-600 hover:to-orange-700 text-white"
+            >
+              {"🤖 Start Ping Pong vs Bot"}
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   );
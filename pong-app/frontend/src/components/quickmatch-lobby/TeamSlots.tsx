@@ -0,0 +1,42 @@
+interface TeamPlayer {
+  name: string;
+  side?: "left" | "right" | null;
+  lane?: "back" | "front";
+}
+
+interface TeamSlotsProps {
+  players: TeamPlayer[];
+}
+
+const TEAMS = [
+  { side: "left", label: "Left team" },
+  { side: "right", label: "Right team" },
+] as const;
+
+const LANES = [
+  { lane: "back", label: "Back" },
+  { lane: "front", label: "Front" },
+] as const;
+
+// The four seats of a 2v2 team room, with the open ones left to fill
+export default function TeamSlots({ players }: TeamSlotsProps) {
+  return (
+    <div style={{ display: "flex", gap: "2rem" }}>
+      {TEAMS.map(({ side, label }) => (
+        <div key={side}>
+          <strong>{label}</strong>
+          <ul>
+            {LANES.map(({ lane, label: laneLabel }) => {
+              const player = players.find((p) => p.side === side && p.lane === lane);
+              return (
+                <li key={lane}>
+                  {laneLabel}: {player ? player.name : <em>open</em>}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { BracketMatch, BracketStanding, PublicBracket } from "../../utils/bracket";
+
+interface TournamentBracketProps {
+  bracket: PublicBracket;
+}
+
+function BracketSlot({ name, won, score }: { name: string | null; won: boolean; score: number | null }) {
+  return (
+    <div style={{ display: "flex", justifyContent: "space-between", fontWeight: won ? "bold" : "normal" }}>
+      <span>{name ?? "—"}</span>
+      {score !== null && <span>{score}</span>}
+    </div>
+  );
+}
+
+function MatchBox({ match }: { match: BracketMatch }) {
+  return (
+    <div
+      style={{
+        border: `1px solid ${match.live ? "#4ade80" : "#ccc"}`,
+        padding: "0.25rem 0.5rem",
+        minWidth: "9rem",
+        opacity: match.bye ? 0.6 : 1,
+      }}
+    >
+      <BracketSlot name={match.player1} won={!!match.winner && match.winner === match.player1} score={match.score?.[0] ?? null} />
+      <BracketSlot name={match.player2} won={!!match.winner && match.winner === match.player2} score={match.score?.[1] ?? null} />
+      {match.bye && <small>bye</small>}
+      {match.live && <small>playing now</small>}
+    </div>
+  );
+}
+
+function StandingsTable({ standings }: { standings: BracketStanding[] }) {
+  return (
+    <table style={{ margin: "0.5rem 0", borderCollapse: "collapse" }}>
+      <thead>
+        <tr>
+          {["#", "Player", "P", "W", "D", "L", "+/-", "Pts"].map((heading) => (
+            <th key={heading} style={{ padding: "0 0.5rem", textAlign: "left" }}>{heading}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map((row, i) => (
+          <tr key={row.name ?? i}>
+            {[i + 1, row.name, row.played, row.wins, row.draws, row.losses, row.scoreDiff > 0 ? `+${row.scoreDiff}` : row.scoreDiff, row.points]
+              .map((cell, j) => (
+                <td key={j} style={{ padding: "0 0.5rem" }}>{cell}</td>
+              ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// One column per round, the final last; league formats show their table above the rounds
+export default function TournamentBracket({ bracket }: TournamentBracketProps) {
+  return (
+    <div>
+      {bracket.winner && <strong>🏆 {bracket.winner}</strong>}
+      {bracket.standings && <StandingsTable standings={bracket.standings} />}
+      <div style={{ display: "flex", gap: "1rem", overflowX: "auto", margin: "0.5rem 0" }}>
+        {bracket.rounds.map((round) => (
+          <div
+            key={round.name}
+            style={{ display: "flex", flexDirection: "column", justifyContent: "space-around", gap: "0.5rem" }}
+          >
+            <strong>{round.name}</strong>
+            {round.matches.map((match, i) => (
+              <MatchBox key={i} match={match} />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
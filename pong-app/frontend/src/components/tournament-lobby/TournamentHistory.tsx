@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import api from "../../utils/api";
+import { PublicBracket, TOURNAMENT_FORMATS, TournamentFormat } from "../../utils/bracket";
+import TournamentBracket from "./TournamentBracket";
+
+// Finished and abandoned tournaments as returned by /tournament/history and /tournament/:id
+
+interface PastTournament {
+  id: number;
+  gameType: "pingpong" | "keyclash";
+  mode: "local" | "remote";
+  format: TournamentFormat;
+  status: "finished" | "abandoned";
+  entrants: number;
+  champion: string | null;
+  championIsCurrentUser: boolean;
+  placement: number | null;
+  startedAt: string;
+}
+
+interface TournamentDetails {
+  id: number;
+  entrants: { name: string; seed: number; placement: number | null }[];
+  games: { round: number; position: number; gameId: string; hasReplay: boolean }[];
+  bracket: PublicBracket;
+}
+
+const GAME_LABELS = { pingpong: "🏓 Pong", keyclash: "⌨️ Key Clash" };
+
+const formatLabel = (format: TournamentFormat) =>
+  TOURNAMENT_FORMATS.find((f) => f.id === format)?.label ?? format;
+
+export default function TournamentHistory() {
+  const navigate = useNavigate();
+  const [tournaments, setTournaments] = useState<PastTournament[]>([]);
+  const [mine, setMine] = useState(false);
+  const [selected, setSelected] = useState<TournamentDetails | null>(null);
+
+  useEffect(() => {
+    api
+      .get<PastTournament[]>("/tournament/history", { params: mine ? { mine: "true" } : {} })
+      .then((response) => setTournaments(response.data))
+      .catch((error) => console.error("Failed to load tournament history:", error));
+  }, [mine]);
+
+  const open = (id: number) => {
+    if (selected?.id === id) return setSelected(null);
+    api
+      .get<TournamentDetails>(`/tournament/${id}`)
+      .then((response) => setSelected(response.data))
+      .catch((error) => alert(error.response?.data?.message || "Failed to load tournament"));
+  };
+
+  return (
+    <div>
+      <h2>Past Tournaments</h2>
+      <label>
+        <input type="checkbox" checked={mine} onChange={(e) => setMine(e.target.checked)} /> Only mine
+      </label>
+      {tournaments.length === 0 && <p>No tournaments yet.</p>}
+      <ul>
+        {tournaments.map((t) => (
+          <li
+            key={t.id}
+            style={{ cursor: "pointer", padding: "0.5rem", border: "1px solid #ccc", margin: "0.5rem 0" }}
+            onClick={() => open(t.id)}
+          >
+            <strong>{GAME_LABELS[t.gameType]}</strong> — {formatLabel(t.format)} — {t.entrants} players —{" "}
+            {new Date(t.startedAt).toLocaleDateString()} —{" "}
+            {t.status === "finished" ? `🏆 ${t.champion}${t.championIsCurrentUser ? " (you)" : ""}` : "abandoned"}
+            {t.placement !== null && !t.championIsCurrentUser && <> — you placed #{t.placement}</>}
+            {selected?.id === t.id && (
+              <div onClick={(e) => e.stopPropagation()} style={{ cursor: "default" }}>
+                <TournamentBracket bracket={selected.bracket} />
+                <ol>
+                  {[...selected.entrants]
+                    .sort((a, b) => (a.placement ?? Infinity) - (b.placement ?? Infinity) || a.seed - b.seed)
+                    .map((e) => (
+                      <li key={e.seed}>
+                        {e.name} (seed {e.seed}){e.placement !== null && <> — #{e.placement}</>}
+                      </li>
+                    ))}
+                </ol>
+                {selected.games
+                  .filter((g) => g.hasReplay)
+                  .map((g) => (
+                    <button key={g.gameId} onClick={() => navigate(`/replay/${g.gameId}`)} style={{ marginRight: "0.5rem" }}>
+                      ▶ {selected.bracket.rounds[g.round]?.name} #{g.position + 1}
+                    </button>
+                  ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import React, {
   ReactNode,
   useRef,
 } from "react";
-import api from "../utils/api";
+import api, { refreshSession } from "../utils/api";
 
 interface User {
   id: number;
@@ -25,6 +25,9 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// The access token lasts 15 minutes; it is renewed before then so games and sockets never see it expire
+const RENEW_EVERY_MS = 10 * 60 * 1000;
+
 let authChannel: BroadcastChannel | null = null;
 
 const getAuthChannel = (): BroadcastChannel => {
@@ -116,6 +119,20 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
     };
   }, [user, authChecked]);
 
+  // Silent renewal while logged in
+  useEffect(() => {
+    if (!user) return;
+
+    const timer = setInterval(async () => {
+      if (!(await refreshSession())) {
+        // The session was revoked or ran out
+        setUser(null);
+        getAuthChannel().postMessage({ type: "LOGOUT" });
+      }
+    }, RENEW_EVERY_MS);
+    return () => clearInterval(timer);
+  }, [user]);
+
   const login = (userData: User) => {
     setUser(userData);
     setIsLoading(false);
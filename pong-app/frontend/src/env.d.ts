@@ -4,6 +4,7 @@ interface ImportMetaEnv {
   readonly VITE_API_URL: string;
   // add other environment variables here as needed
   readonly VITE_GOOGLE_CLIENT_ID: string; // for Google Sign-In
+  readonly VITE_PONG_INTERPOLATION_DELAY?: string; // render delay for remote pong snapshots, in ms
   // You can add more environment variables as needed
 }
 
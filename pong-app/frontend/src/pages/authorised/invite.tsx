@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { io, Socket } from "socket.io-client";
+import { useAuth } from "../../contexts/AuthContext";
+
+// Opened from a private room's invite link: joins the room through the quickmatch lobby
+export default function InvitePage() {
+  const socketRef = useRef<Socket | null>(null);
+  const navigate = useNavigate();
+  const { code } = useParams<{ code: string }>();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    const name = user?.username ?? null;
+    const playerId = user?.id ?? null;
+    socketRef.current = io("/quickmatch", {
+      path: "/socket.io",
+      transports: ["websocket"],
+      secure: true,
+    });
+
+    const fail = (res: { error?: string }) => {
+      if (!res.error) return;
+      alert(res.error);
+      navigate("/quickmatch");
+    };
+
+    socketRef.current.on("connect", () => {
+      socketRef.current?.emit("name", name, playerId, fail);
+      socketRef.current?.emit("join_invite", code, fail);
+    });
+
+    socketRef.current.on("joined_game", (gameId, game, mode) => {
+      socketRef.current?.disconnect();
+      socketRef.current = null;
+      navigate(`/${game}/${mode}/1v1/${gameId}`, {
+        state: { name, playerId },
+        replace: true,
+      });
+    });
+
+    return () => {
+      socketRef.current?.disconnect();
+      socketRef.current = null;
+    };
+  }, [code, user]);
+
+  return <div style={{ padding: "1rem" }}>Joining private room...</div>;
+}
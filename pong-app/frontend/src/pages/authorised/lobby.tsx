@@ -1,12 +1,19 @@
 // frontend/src/pages/authorised/lobby.tsx
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { io, Socket } from "socket.io-client";
+import { useAuth } from "../../contexts/AuthContext";
 import {
   OverviewTab,
   MyLockerTab,
   RallySquadTab,
   MatchHistoryTab,
+  ChallengeInbox,
 } from "../../components/lobby";
+import {
+  Challenge,
+  ChallengeGame,
+} from "../../components/lobby/ChallengeInbox";
 
 const TABS = [
   { key: "overview", label: "Overview", icon: "🏠" },
@@ -18,6 +25,83 @@ const TABS = [
 export default function LobbyPage() {
   const [activeTab, setActiveTab] = useState("overview" || null);
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const challengeSocket = useRef<Socket | null>(null);
+  const [incoming, setIncoming] = useState<Challenge[]>([]);
+  const [outgoing, setOutgoing] = useState<Challenge | null>(null);
+
+  // Friend challenges arrive in real time while the lobby is open
+  useEffect(() => {
+    if (!user) return;
+    const socket = io("/challenge", {
+      path: "/socket.io",
+      transports: ["websocket"],
+      secure: true,
+    });
+    challengeSocket.current = socket;
+
+    const drop = (id: string) => {
+      setIncoming((list) => list.filter((c) => c.id !== id));
+      setOutgoing((current) => (current?.id === id ? null : current));
+    };
+
+    socket.on("challenge_received", (challenge: Challenge) => {
+      setIncoming((list) =>
+        list.some((c) => c.id === challenge.id) ? list : [...list, challenge]
+      );
+    });
+    socket.on("challenge_closed", drop);
+    socket.on("challenge_expired", drop);
+    socket.on("challenge_declined", (id: string) => {
+      drop(id);
+      alert("Your challenge was declined");
+    });
+    socket.on(
+      "challenge_accepted",
+      (id: string, gameId: string, game: ChallengeGame) => {
+        drop(id);
+        socket.disconnect();
+        navigate(`/${game}/remote/1v1/${gameId}`, {
+          state: { name: user.username, playerId: user.id },
+        });
+      }
+    );
+
+    return () => {
+      socket.disconnect();
+      challengeSocket.current = null;
+    };
+  }, [user]);
+
+  const sendChallenge = (friendId: number, game: ChallengeGame) => {
+    challengeSocket.current?.emit(
+      "challenge",
+      friendId,
+      game,
+      (res: { error?: string; challenge?: Challenge }) => {
+        if (res.error) alert(res.error);
+        else if (res.challenge) setOutgoing(res.challenge);
+      }
+    );
+  };
+
+  const respondChallenge = (id: string, accept: boolean) => {
+    challengeSocket.current?.emit(
+      "respond_challenge",
+      id,
+      accept,
+      (res: { error?: string }) => {
+        if (res.error) alert(res.error);
+        setIncoming((list) => list.filter((c) => c.id !== id));
+      }
+    );
+  };
+
+  const cancelChallenge = (id: string) => {
+    challengeSocket.current?.emit("cancel_challenge", id, () =>
+      setOutgoing(null)
+    );
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#1b1443] to-[#4f1461] text-white">
@@ -98,9 +182,18 @@ export default function LobbyPage() {
       <div className="max-w-7xl mx-auto px-4 pb-8 md:pb-16">
         {activeTab === "overview" && <OverviewTab />}
         {activeTab === "my-locker" && <MyLockerTab />}
-        {activeTab === "rally-squad" && <RallySquadTab />}
+        {activeTab === "rally-squad" && (
+          <RallySquadTab onChallenge={sendChallenge} />
+        )}
         {activeTab === "match-history" && <MatchHistoryTab />}
       </div>
+
+      <ChallengeInbox
+        incoming={incoming}
+        outgoing={outgoing}
+        onRespond={respondChallenge}
+        onCancel={cancelChallenge}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -2,17 +2,29 @@ import { useEffect, useState, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { io, Socket } from "socket.io-client";
 import { useAuth } from "../../contexts/AuthContext";
-import QuickmatchPlayerForm from "../../components/quickmatch-lobby/QuickmatchPlayerForm";
+import QuickmatchPlayerForm, { BotDifficulty } from "../../components/quickmatch-lobby/QuickmatchPlayerForm";
+import MatchRulesForm from "../../components/quickmatch-lobby/MatchRulesForm";
+import MatchmakingPanel, { QueuedGame, QueueStatus } from "../../components/quickmatch-lobby/MatchmakingPanel";
+import TeamSlots from "../../components/quickmatch-lobby/TeamSlots";
+import PromptModeSelect from "../../components/quickmatch-lobby/PromptModeSelect";
+import { MatchRules, DEFAULT_MATCH_RULES, describeMatchRules } from "../../utils/matchRules";
 import { GameType } from "../../shared/types";
+import { PromptMode } from "../../utils/keyClashModes";
 
 interface Player {
   socketId: string;
   name: string;
+  side?: "left" | "right" | null;
+  lane?: "back" | "front"; // seat in a 2v2 team room
 }
 interface GameRoom {
   id: string;
-  status: "waiting" | "in-progress" | "finished";
+  status: "waiting" | "starting" | "in-progress" | "paused" | "finished";
   players: Player[];
+  mode: "local" | "remote";
+  spectators: number;
+  rules?: MatchRules;
+  size?: number; // 4 for a 2v2 team room
 }
 
 export default function QuickmatchPage() {
@@ -21,6 +33,11 @@ export default function QuickmatchPage() {
   const [players, setPlayers] = useState<Player[]>([]);
   const [pongGames, setPongGames] = useState<GameRoom[]>([]);
   const [keyClashGames, setKeyClashGames] = useState<GameRoom[]>([]);
+  const [pongRules, setPongRules] = useState<MatchRules>(DEFAULT_MATCH_RULES);
+  const [promptMode, setPromptMode] = useState<PromptMode>("classic");
+  const [search, setSearch] = useState<QueueStatus | null>(null);
+  const [privateRoom, setPrivateRoom] = useState(false);
+  const [inviteCode, setInviteCode] = useState("");
   const { user } = useAuth();
   let name: string | null = null;
   let playerId: number | null = null;
@@ -56,8 +73,15 @@ export default function QuickmatchPage() {
       setKeyClashGames(data.keyClashGames);
     });
 
-    socketRef.current.on("created_game", (gameId, game, mode) => {
+    socketRef.current.on("created_game", (gameId, game, mode, invite: string | null) => {
       try {
+        // Private rooms are only reachable through their invite link
+        if (invite) {
+          const link = `${window.location.origin}/invite/${invite}`;
+          navigator.clipboard?.writeText(link).catch(() => {});
+          alert(`Private room created, the invite link was copied:\n${link}`);
+        }
+
         // Get guest name from localStorage
         const storedGuest = localStorage.getItem("quickmatch_guestName");
         console.log("📦 Retrieved stored guest:", storedGuest);
@@ -93,6 +117,15 @@ export default function QuickmatchPage() {
       }
     });
 
+    socketRef.current.on("queue_status", (status: QueueStatus) => {
+      setSearch(status);
+    });
+
+    socketRef.current.on("queue_timeout", () => {
+      setSearch(null);
+      alert("No opponent found, try again later");
+    });
+
     socketRef.current.on("joined_game", (gameId, game, mode) => {
       socketRef.current?.disconnect();
       socketRef.current = null;
@@ -109,13 +142,46 @@ export default function QuickmatchPage() {
   }, [user]);
 
   const createRemotePong = () => {
-    socketRef.current?.emit("create_game", "pong", "remote");
+    socketRef.current?.emit("create_game", "pong", "remote", { rules: pongRules, private: privateRoom }, onCreateError);
   };
+  // Key Clash rounds take the tie break chosen in the match rules
   const createRemoteKeyClash = () => {
-    socketRef.current?.emit("create_game", "keyclash", "remote");
+    socketRef.current?.emit("create_game", "keyclash", "remote", { private: privateRoom, tieBreak: pongRules.tieBreak, promptMode }, onCreateError);
   };
-  const createLocalGame = (type: GameType) => {
-    socketRef.current?.emit("create_game", type, "local");
+  const joinInvite = () => {
+    // Accept a whole invite link as well as the bare code
+    const code = inviteCode.trim().split("/").pop();
+    if (!code) return;
+    socketRef.current?.emit("join_invite", code, onCreateError);
+  };
+  const createLocalGame = (type: GameType, bot?: BotDifficulty) => {
+    socketRef.current?.emit("create_game", type, "local", { rules: pongRules, bot, tieBreak: pongRules.tieBreak, promptMode }, onCreateError);
+  };
+
+  const onCreateError = (res: { error: string }) => {
+    if (res.error) alert(res.error);
+  };
+
+  const findMatch = (game: QueuedGame) => {
+    socketRef.current?.emit("find_match", game, (res: QueueStatus & { error?: string }) => {
+      if (res.error) alert(res.error);
+      else setSearch(res);
+    });
+  };
+  const cancelMatch = () => {
+    socketRef.current?.emit("cancel_match", () => setSearch(null));
+  };
+
+  const watchGame = (
+    gameId: string,
+    game: "pong" | "keyclash",
+    mode: "local" | "remote"
+  ) => {
+    socketRef.current?.disconnect();
+    socketRef.current = null;
+    navigate(`/${game}/${mode}/1v1/${gameId}`, {
+      state: { spectate: true, playerId: user?.id ?? null },
+    });
   };
 
   const joinGame = (
@@ -152,6 +218,33 @@ export default function QuickmatchPage() {
         ))}
       </ul>
 
+      <MatchmakingPanel
+        search={search}
+        canSearch={!!user}
+        onFind={findMatch}
+        onCancel={cancelMatch}
+      />
+
+      <fieldset style={{ border: "1px solid #ccc", padding: "0.5rem", margin: "0.5rem 0" }}>
+        <legend>Private rooms</legend>
+        <label>
+          <input
+            type="checkbox"
+            checked={privateRoom}
+            onChange={(e) => setPrivateRoom(e.target.checked)}
+          />{" "}
+          Create remote rooms as private (invite only)
+        </label>
+        <div>
+          <input
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            placeholder="Invite code or link"
+          />{" "}
+          <button onClick={joinInvite}>Join</button>
+        </div>
+      </fieldset>
+
       <div>
         <button onClick={popup}>Create A Local Quickmatch</button>
         <div id="overlay"></div>
@@ -179,16 +272,32 @@ export default function QuickmatchPage() {
                 joinGame(game.id, "pong", "remote");
             }}
           >
-            <strong>Room-{game.id}</strong> — {game.players.length}/2 players —{" "}
-            {game.status}
-            <ul>
-              {game.players.map((p) => (
-                <li key={p.socketId}>{p.name}</li>
-              ))}
-            </ul>
+            <strong>Room-{game.id}</strong> — {game.players.length}/{game.size ?? 2} players —{" "}
+            {game.status} — {game.spectators} watching
+            {game.status !== "waiting" && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  watchGame(game.id, "pong", game.mode);
+                }}
+              >
+                Watch
+              </button>
+            )}
+            <div>{describeMatchRules(game.rules)}</div>
+            {game.size === 4 ? (
+              <TeamSlots players={game.players} />
+            ) : (
+              <ul>
+                {game.players.map((p) => (
+                  <li key={p.socketId}>{p.name}</li>
+                ))}
+              </ul>
+            )}
           </li>
         ))}
         <ul>
+          <MatchRulesForm rules={pongRules} onChange={setPongRules} />
           <button onClick={createRemotePong}>
             Create New Remote Pong Game
           </button>
@@ -212,7 +321,17 @@ export default function QuickmatchPage() {
             }}
           >
             <strong>Room-{game.id}</strong> — {game.players.length}/2 players —{" "}
-            {game.status}
+            {game.status} — {game.spectators} watching
+            {game.status !== "waiting" && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  watchGame(game.id, "keyclash", game.mode);
+                }}
+              >
+                Watch
+              </button>
+            )}
             <ul>
               {game.players.map((p) => (
                 <li key={p.socketId}>{p.name}</li>
@@ -221,6 +340,7 @@ export default function QuickmatchPage() {
           </li>
         ))}
         <ul>
+          <PromptModeSelect value={promptMode} onChange={setPromptMode} />
           <button onClick={createRemoteKeyClash}>
             Create New Remote Key Clash Game
           </button>
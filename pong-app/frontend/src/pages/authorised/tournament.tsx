@@ -3,6 +3,13 @@ import { useNavigate } from "react-router-dom";
 import { io, Socket } from "socket.io-client";
 import { useAuth } from "../../contexts/AuthContext";
 import TournamentPlayerForm from "../../components/tournament-lobby/TournamentPlayerForm";
+import MatchRulesForm from "../../components/quickmatch-lobby/MatchRulesForm";
+import PromptModeSelect from "../../components/quickmatch-lobby/PromptModeSelect";
+import TournamentBracket from "../../components/tournament-lobby/TournamentBracket";
+import TournamentHistory from "../../components/tournament-lobby/TournamentHistory";
+import { MatchRules, DEFAULT_MATCH_RULES, describeMatchRules } from "../../utils/matchRules";
+import { BRACKET_SIZES, TOURNAMENT_FORMATS, PublicBracket, TournamentFormat } from "../../utils/bracket";
+import { PromptMode } from "../../utils/keyClashModes";
 
 interface Player {
   socketId: string;
@@ -10,8 +17,14 @@ interface Player {
 }
 interface GameRoom {
   id: string;
-  status: "waiting" | "in-progress" | "finished";
+  status: "waiting" | "starting" | "in-progress" | "paused" | "finished";
   players: Player[];
+  mode: "local" | "remote";
+  spectators: number;
+  rules?: MatchRules;
+  size?: number;
+  format?: TournamentFormat;
+  bracket?: PublicBracket | null;
 }
 
 export default function TournamentPage() {
@@ -22,6 +35,10 @@ export default function TournamentPage() {
   const [keyClashTournaments, setKeyClashTournaments] = useState<GameRoom[]>(
     []
   );
+  const [pongRules, setPongRules] = useState<MatchRules>(DEFAULT_MATCH_RULES);
+  const [size, setSize] = useState(BRACKET_SIZES[0]);
+  const [format, setFormat] = useState<TournamentFormat>("elimination");
+  const [promptMode, setPromptMode] = useState<PromptMode>("classic");
   const { user } = useAuth();
   let name: string | null = null;
   let playerId: number | null = null;
@@ -115,10 +132,26 @@ export default function TournamentPage() {
   }, [user]);
 
   const createRemotePong = () => {
-    socketRef.current?.emit("create_game", "pong", "remote");
+    socketRef.current?.emit("create_game", "pong", "remote", { rules: pongRules, size, format }, onCreateError);
   };
   const createRemoteKeyClash = () => {
-    socketRef.current?.emit("create_game", "keyclash", "remote");
+    socketRef.current?.emit("create_game", "keyclash", "remote", { size, format, tieBreak: pongRules.tieBreak, promptMode }, onCreateError);
+  };
+
+  const onCreateError = (res: { error: string }) => {
+    if (res.error) alert(res.error);
+  };
+
+  const watchGame = (
+    gameId: string,
+    game: "pong" | "keyclash",
+    mode: "local" | "remote"
+  ) => {
+    socketRef.current?.disconnect();
+    socketRef.current = null;
+    navigate(`/${game}/${mode}/tournament/${gameId}`, {
+      state: { spectate: true, playerId: user?.id ?? null },
+    });
   };
 
   const joinGame = (
@@ -169,7 +202,7 @@ export default function TournamentPage() {
       console.log("Stored tournament players:", playerNamesObject);
 
       // Create the game - event handler manages navigation
-      socketRef.current.emit("create_game", gameType, "local");
+      socketRef.current.emit("create_game", gameType, "local", { rules: pongRules, format, tieBreak: pongRules.tieBreak, promptMode }, onCreateError);
       console.log("Emitted create_game event");
     } catch (error) {
       console.error("Error starting tournament:", error);
@@ -204,6 +237,27 @@ export default function TournamentPage() {
         </div>
       </div>
 
+      <label>
+        Remote tournament size{" "}
+        <select value={size} onChange={(e) => setSize(Number(e.target.value))}>
+          {BRACKET_SIZES.map((n) => (
+            <option key={n} value={n}>
+              {n} players
+            </option>
+          ))}
+        </select>
+      </label>{" "}
+      <label>
+        Format{" "}
+        <select value={format} onChange={(e) => setFormat(e.target.value as TournamentFormat)}>
+          {TOURNAMENT_FORMATS.map((f) => (
+            <option key={f.id} value={f.id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
       <h2>Pong Tournaments</h2>
       <ul>
         {pongTournaments.map((game) => (
@@ -220,16 +274,33 @@ export default function TournamentPage() {
                 joinGame(game.id, "pong", "remote");
             }}
           >
-            <strong>Tournament-{game.id}</strong> — {game.players.length}/4
-            players — {game.status}
-            <ul>
-              {game.players.map((p) => (
-                <li key={p.socketId}>{p.name}</li>
-              ))}
-            </ul>
+            <strong>Tournament-{game.id}</strong> — {game.players.length}/{game.size ?? 4}
+            players — {TOURNAMENT_FORMATS.find((f) => f.id === game.format)?.label}
+            — {game.status} — {game.spectators} watching
+            {game.status !== "waiting" && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  watchGame(game.id, "pong", game.mode);
+                }}
+              >
+                Watch
+              </button>
+            )}
+            <div>{describeMatchRules(game.rules)}</div>
+            {game.bracket ? (
+              <TournamentBracket bracket={game.bracket} />
+            ) : (
+              <ul>
+                {game.players.map((p) => (
+                  <li key={p.socketId}>{p.name}</li>
+                ))}
+              </ul>
+            )}
           </li>
         ))}
         <ul>
+          <MatchRulesForm rules={pongRules} onChange={setPongRules} />
           <button onClick={createRemotePong}>
             Create New Remote Pong Tournament
           </button>
@@ -252,21 +323,39 @@ export default function TournamentPage() {
                 joinGame(game.id, "keyclash", "remote");
             }}
           >
-            <strong>Tournament-{game.id}</strong> — {game.players.length}/4
-            players — {game.status}
-            <ul>
-              {game.players.map((p) => (
-                <li key={p.socketId}>{p.name}</li>
-              ))}
-            </ul>
+            <strong>Tournament-{game.id}</strong> — {game.players.length}/{game.size ?? 4}
+            players — {TOURNAMENT_FORMATS.find((f) => f.id === game.format)?.label}
+            — {game.status} — {game.spectators} watching
+            {game.status !== "waiting" && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  watchGame(game.id, "keyclash", game.mode);
+                }}
+              >
+                Watch
+              </button>
+            )}
+            {game.bracket ? (
+              <TournamentBracket bracket={game.bracket} />
+            ) : (
+              <ul>
+                {game.players.map((p) => (
+                  <li key={p.socketId}>{p.name}</li>
+                ))}
+              </ul>
+            )}
           </li>
         ))}
         <ul>
+          <PromptModeSelect value={promptMode} onChange={setPromptMode} />
           <button onClick={createRemoteKeyClash}>
             Create New Remote Key Clash Tournament
           </button>
         </ul>
       </ul>
+
+      <TournamentHistory />
     </div>
   );
 }
@@ -16,6 +16,7 @@ const PlayPage: React.FC = () => {
   useEffect(() => {
     let name: string | null = null;
     let playerId: number | null = null;
+    const spectator = location.state?.spectate === true;
     if (location.state?.name) name = location.state.name;
     if (location.state?.playerId) playerId = location.state.playerId;
     if (containerRef.current && gameId && mode && type && game === "pong") {
@@ -26,7 +27,8 @@ const PlayPage: React.FC = () => {
         type,
         navigate,
         name,
-        playerId
+        playerId,
+        { spectator }
       );
       return () => {
         if (pongInstance.current) {
@@ -48,7 +50,8 @@ const PlayPage: React.FC = () => {
         type,
         navigate,
         name,
-        playerId
+        playerId,
+        spectator
       );
       return cleanup;
     } else {
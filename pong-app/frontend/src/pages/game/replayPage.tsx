@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import PingPongClient from "../../utils/PingPongClient";
+import api from "../../utils/api";
+import { ReplayData } from "../../utils/pongReplay";
+
+const ReplayPage: React.FC = () => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pongInstance = useRef<PingPongClient>(null);
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+  const [replay, setReplay] = useState<ReplayData | null>(null);
+
+  useEffect(() => {
+    if (!gameId) return;
+    api
+      .get<ReplayData>(`/game/${gameId}/replay`)
+      .then((response) => setReplay(response.data))
+      .catch((error) => {
+        alert(error.response?.data?.message || "Failed to load replay");
+        navigate("/lobby");
+      });
+  }, [gameId]);
+
+  useEffect(() => {
+    if (!containerRef.current || !gameId || !replay) return;
+    pongInstance.current = new PingPongClient(
+      containerRef.current,
+      gameId,
+      "local",
+      "1v1",
+      navigate,
+      null,
+      null,
+      { replay }
+    );
+    return () => {
+      pongInstance.current?.dispose?.();
+      pongInstance.current = null;
+    };
+  }, [gameId, replay]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="flex-grow relative w-full h-full bg-black"
+    />
+  );
+};
+
+export default ReplayPage;
@@ -73,14 +73,12 @@ export default function LoginPage() {
       });
 
       if (response.data.requires2FA) {
-        if (response.data.url) {
-          sessionStorage.setItem("url", response.data.url);
-        }
+        sessionStorage.setItem("twoFactorMethod", response.data.method);
 
         navigate("/verify-2fa", {
           state: {
             userId: response.data.userId,
-            url: response.data.url,
+            method: response.data.method,
           },
         });
       } else {
@@ -48,6 +48,14 @@ export default function VerifyCodePage() {
   const [isLoading, setIsLoading] = useState(false);
   const [isResending, setIsResending] = useState(false);
 
+  // Login codes come by email or from an authenticator app
+  const usesTotp =
+    verificationType === "login-2fa" &&
+    (location.state?.method ?? sessionStorage.getItem("twoFactorMethod")) ===
+      "totp";
+  // Authenticator app users who lost their device log in with a recovery code
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
   // Configuration based on verification type
   const getConfig = (): VerificationConfig => {
     if (verificationType === "email-verification") {
@@ -72,15 +80,16 @@ export default function VerifyCodePage() {
     } else {
       return {
         title: "2FA Verification",
-        description:
-          "We've sent a 6-digit verification code to your email address. Please check your inbox and enter the code below.",
+        description: usesTotp
+          ? "Open your authenticator app and enter the 6-digit code it shows for this account."
+          : "We've sent a 6-digit verification code to your email address. Please check your inbox and enter the code below.",
         endpoint: "/auth/verify-2fa",
         resendContext: "login-2fa",
         sessionKeys: { userId: "userId", email: "userEmail" },
         fallbackRoute: "/login",
         onSuccess: (response, navigate, login, setError) => {
           sessionStorage.removeItem("userId");
-          sessionStorage.removeItem("url");
+          sessionStorage.removeItem("twoFactorMethod");
           if (response.data.user) {
             login(response.data.user);
             navigate("/lobby", { replace: true });
@@ -128,10 +137,14 @@ export default function VerifyCodePage() {
     setSuccess("");
 
     try {
-      const response = await api.post(config.endpoint, {
-        userId: parseInt(userId),
-        code,
-      });
+      const response = await api.post(
+        config.endpoint,
+        verificationType === "email-verification"
+          ? { userId: parseInt(userId), code }
+          : useRecoveryCode
+            ? { recoveryCode: code }
+            : { code }
+      );
 
       config.onSuccess(response, navigate, login, setError);
     } catch (error: any) {
@@ -152,10 +165,12 @@ export default function VerifyCodePage() {
     setSuccess("");
 
     try {
-      await api.post("/auth/resend-verification-code", {
-        userId: parseInt(userId),
-        context: config.resendContext,
-      });
+      await api.post(
+        "/auth/resend-verification-code",
+        verificationType === "email-verification"
+          ? { userId: parseInt(userId), context: config.resendContext }
+          : { context: config.resendContext }
+      );
 
       setSuccess("A new verification code has been sent to your email");
       setTimeout(() => setSuccess(""), 5000);
@@ -170,7 +185,9 @@ export default function VerifyCodePage() {
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/\D/g, "").slice(0, 6);
+    const value = useRecoveryCode
+      ? e.target.value.slice(0, 11)
+      : e.target.value.replace(/\D/g, "").slice(0, 6);
     setCode(value);
     setError("");
     setSuccess("");
@@ -219,7 +236,9 @@ export default function VerifyCodePage() {
           <form onSubmit={handleVerify} className="space-y-4">
             <input
               type="text"
-              placeholder="Enter 6-digit code"
+              placeholder={
+                useRecoveryCode ? "Enter a recovery code" : "Enter 6-digit code"
+              }
               value={code}
               onChange={handleChange}
               autoFocus
@@ -228,7 +247,9 @@ export default function VerifyCodePage() {
 
             <button
               type="submit"
-              disabled={isLoading || code.length !== 6}
+              disabled={
+                isLoading || (useRecoveryCode ? code.length < 10 : code.length !== 6)
+              }
               className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed active:scale-95 transition-transform text-white py-2 px-4 rounded-lg flex justify-center items-center shadow-md"
             >
               {isLoading ? (
@@ -242,16 +263,33 @@ export default function VerifyCodePage() {
           </form>
 
           <div className="mt-6 text-center text-sm space-y-3">
-            <p className="text-gray-400">
-              Didn't receive the code?{" "}
+            {usesTotp && (
               <button
-                onClick={handleResendCode}
-                disabled={isResending}
-                className="text-blue-400 hover:text-blue-300 underline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode("");
+                  setError("");
+                }}
+                className="block mx-auto text-blue-400 hover:text-blue-300 underline"
               >
-                {isResending ? "Sending..." : "Request new code"}
+                {useRecoveryCode
+                  ? "Use a code from your authenticator app"
+                  : "Lost your device? Use a recovery code"}
               </button>
-            </p>
+            )}
+
+            {!usesTotp && (
+              <p className="text-gray-400">
+                Didn't receive the code?{" "}
+                <button
+                  onClick={handleResendCode}
+                  disabled={isResending}
+                  className="text-blue-400 hover:text-blue-300 underline"
+                >
+                  {isResending ? "Sending..." : "Request new code"}
+                </button>
+              </p>
+            )}
 
             <button
               onClick={() => navigate(config.fallbackRoute)}
@@ -2,6 +2,23 @@ import * as THREE from 'three';
 import { io, Socket } from 'socket.io-client';
 import { NavigateFunction } from 'react-router-dom';
 import { getValidatedPlayerName } from './keyClashClient';
+import { FRONT_LANE_X, Frame, PaddleInput, PaddlePredictor, Snapshot, SnapshotBuffer, decodeFrame } from './pongNetcode';
+import { BASE_PADDLE_SIZE, MatchRules } from './matchRules';
+import { REPLAY_SPEEDS, ReplayData, ReplayPlayer, formatReplayTime } from './pongReplay';
+import { MIN_ENTRANTS } from './bracket';
+
+// How far in the past the ball and the opponent paddle are rendered, in ms
+const DEFAULT_INTERPOLATION_DELAY = Number(import.meta.env.VITE_PONG_INTERPOLATION_DELAY) || 100;
+
+// Power-ups as the server sends them, see pongPowerUps.ts in the backend
+const POWER_UP_COLORS: Record<string, number> = {
+	"grow": 0x4caf50,
+	"shrink": 0xff9800,
+	"multi-ball": 0xe040fb,
+	"speed": 0xffeb3b,
+	"shield": 0x00e5ff,
+};
+const EFFECT_SCALES: Record<string, number> = { grow: 1.5, shrink: 0.6 };
 
 export default class PingPongClient {
 	private groundEmission = 0.5;
@@ -24,6 +41,16 @@ export default class PingPongClient {
 
 	private leftPaddle: THREE.Mesh;
 	private rightPaddle: THREE.Mesh;
+	// Doubles: the front lane paddles
+	private leftPartner: THREE.Mesh;
+	private rightPartner: THREE.Mesh;
+
+	// Power-ups: extra balls, pickups on the table and shields on the goal lines
+	private extraBalls: THREE.Mesh[] = [];
+	private powerUpGeo = new THREE.OctahedronGeometry(0.5);
+	private powerUpMeshes: THREE.Mesh[] = [];
+	private shieldGeo = new THREE.BoxGeometry(0.15, 0.6, 11.2);
+	private shields: { left: THREE.Mesh, right: THREE.Mesh };
 
 	private ballGeo = new THREE.SphereGeometry(0.45, 32, 32);
 	private ballMat = new THREE.MeshStandardMaterial({
@@ -34,18 +61,26 @@ export default class PingPongClient {
 		metalness: 0.8,
 	});
 	private ball: THREE.Mesh;
-	private ballVel = new THREE.Vector3(6.0, 0, 3.5);
-	private latestBallZ: number;
-	private latestBallX: number;
 
 	private bounds = { x: 9.6, z: 5.6 };
 	private keys = { w: false, s: false, ArrowUp: false, ArrowDown: false };
+	private inputSeq = 0;
+	private sentInputs: { left: PaddleInput, right: PaddleInput } = { left: "stop", right: "stop" };
+	private predictors = { left: new PaddlePredictor(), right: new PaddlePredictor() };
+	private snapshots: SnapshotBuffer;
+	private publicState: any = null;
+	private pendingStart = false;
 
 	private lastFrame: DOMHighResTimeStamp;
 
 	private hud: HTMLDivElement;
 	private scoreDisplay: HTMLDivElement;
 	private restartButton: HTMLButtonElement;
+	private botControls: HTMLDivElement;
+	private startNowButton: HTMLButtonElement;
+	private replayControls: HTMLDivElement | null = null;
+	private replayPlayButton: HTMLButtonElement | null = null;
+	private replaySeek: HTMLInputElement | null = null;
 	private timerDisplay: HTMLDivElement;
 	private matchInfoDisplay: HTMLDivElement;
   	private backButton: HTMLButtonElement;
@@ -53,10 +88,11 @@ export default class PingPongClient {
 	private socket: Socket | null = null;
 	private gameId: string;
 	private playerSide: "left" | "right" | null = null;
+	private playerLane: "back" | "front" = "back"; // in a team room, the paddle this player drives
+	private botSides: ("left" | "right")[] = [];
 	private mode: "local" | "remote" | undefined;
 	private type: "1v1" | "tournament";
 	private status: "waiting" | "in-progress" | "finished" | "paused" = "waiting";
-	private updated: boolean;
 	private navigate: NavigateFunction;
 	private players: {
 		player1: string | null,
@@ -65,6 +101,8 @@ export default class PingPongClient {
 		player4: string | null
 	}
 	private playerId: number | null;
+	private spectator: boolean;
+	private replay: ReplayPlayer | null = null;
 
 	constructor(
 		containerId: string | HTMLElement,
@@ -73,7 +111,8 @@ export default class PingPongClient {
 		type: "1v1" | "tournament",
 		navigate: NavigateFunction,
 		name: string | null | { player1: string | null, player2: string | null, player3: string | null, player4: string | null },
-		playerId: number | null
+		playerId: number | null,
+		options: { interpolationDelay?: number, spectator?: boolean, replay?: ReplayData } = {}
 	) {
 		if (typeof containerId === 'string') {
 			const el = document.getElementById(containerId);
@@ -93,8 +132,9 @@ export default class PingPongClient {
 		this.gameId = gameId;
 		this.mode = mode;
 		this.type = type;
-		this.updated = false;
 		this.playerId = playerId;
+		this.snapshots = new SnapshotBuffer(options.interpolationDelay ?? DEFAULT_INTERPOLATION_DELAY);
+		this.spectator = options.spectator ?? false;
 
 		this.navigate = navigate;
 
@@ -157,18 +197,31 @@ export default class PingPongClient {
 		this.leftPaddle.position.set(-8.2, 0.5, 0);
 		this.rightPaddle.position.set(8.2, 0.5, 0);
 		this.scene.add(this.leftPaddle, this.rightPaddle);
+		this.leftPartner = new THREE.Mesh(this.paddleGeo, this.leftMat);
+		this.rightPartner = new THREE.Mesh(this.paddleGeo, this.rightMat);
+		this.leftPartner.position.set(-FRONT_LANE_X, 0.5, 0);
+		this.rightPartner.position.set(FRONT_LANE_X, 0.5, 0);
+		this.leftPartner.visible = false;
+		this.rightPartner.visible = false;
+		this.scene.add(this.leftPartner, this.rightPartner);
+
+		const shieldMat = new THREE.MeshStandardMaterial({ color: 0x00e5ff, emissive: 0x00e5ff, transparent: true, opacity: 0.5 });
+		this.shields = { left: new THREE.Mesh(this.shieldGeo, shieldMat), right: new THREE.Mesh(this.shieldGeo, shieldMat) };
+		this.shields.left.position.set(-this.bounds.x, 0.5, 0);
+		this.shields.right.position.set(this.bounds.x, 0.5, 0);
+		this.shields.left.visible = false;
+		this.shields.right.visible = false;
+		this.scene.add(this.shields.left, this.shields.right);
 
 		// Ball
 		this.ball = new THREE.Mesh(this.ballGeo, this.ballMat);
 		this.ball.position.set(0, 0.6, 0);
 		this.scene.add(this.ball);
-		this.latestBallX = 0;
-		this.latestBallZ = 0;
 
 		// HUD
 		this.hud = document.createElement('div');
 		this.hud.className = 'overlay';
-		this.hud.innerHTML = 'W/S: left paddle &nbsp; ArrowUp/Down: right paddle &nbsp; Esc: pause';
+		this.hud.innerHTML = this.spectator ? 'Spectating' : 'W/S: left paddle &nbsp; ArrowUp/Down: right paddle &nbsp; Esc: pause';
 		document.body.appendChild(this.hud);
 
 		// Score Display
@@ -203,6 +256,44 @@ export default class PingPongClient {
 		document.body.appendChild(this.restartButton);
 		this.restartButton.addEventListener('click', () => this.socket?.emit("restart"));
 
+		// Add Bot controls, to fill the empty seats of a remote tournament
+		this.botControls = document.createElement('div');
+		Object.assign(this.botControls.style, {
+			position: 'absolute',
+			top: '50px',
+			left: '50%',
+			transform: 'translateX(-50%)',
+			marginTop: '15px',
+			display: 'none',
+		});
+		const botDifficulty = document.createElement('select');
+		for (const difficulty of ["easy", "medium", "hard"]) {
+			const option = document.createElement('option');
+			option.value = difficulty;
+			option.textContent = difficulty[0].toUpperCase() + difficulty.slice(1);
+			botDifficulty.appendChild(option);
+		}
+		botDifficulty.value = "medium";
+		const botButton = document.createElement('button');
+		botButton.textContent = '🤖 Add Bot';
+		Object.assign(botButton.style, { padding: '8px 18px', fontSize: '18px', marginLeft: '8px', cursor: 'pointer' });
+		// Starts the tournament before it is full, the empty seats become byes
+		this.startNowButton = document.createElement('button');
+		this.startNowButton.textContent = '▶ Start now';
+		Object.assign(this.startNowButton.style, { padding: '8px 18px', fontSize: '18px', marginLeft: '8px', cursor: 'pointer' });
+		this.botControls.append(botDifficulty, botButton, this.startNowButton);
+		document.body.appendChild(this.botControls);
+		botButton.addEventListener('click', () => {
+			this.socket?.emit("add_bot", botDifficulty.value, (callback: { error?: string }) => {
+				if (callback.error) alert(callback.error);
+			});
+		});
+		this.startNowButton.addEventListener('click', () => {
+			this.socket?.emit("start_tournament", (callback: { error?: string }) => {
+				if (callback.error) alert(callback.error);
+			});
+		});
+
     // Back Button
       this.backButton = document.createElement('button');
       this.backButton.textContent = '🔙 Back to Lobby'
@@ -240,7 +331,10 @@ export default class PingPongClient {
 		document.body.appendChild(this.matchInfoDisplay);
 
 		this.lastFrame = performance.now();
-		this.connect(typeof name === 'string' ? name : null);
+		if (options.replay)
+			this.startReplay(options.replay);
+		else
+			this.connect(typeof name === 'string' ? name : null);
 		this.animate();
 	}
 
@@ -254,7 +348,15 @@ export default class PingPongClient {
 		this.socket.on('connect', () => {
 			console.log('Connected to server:', this.socket?.id);
 
-			if (this.type === "1v1") {
+			if (this.spectator) {
+				this.socket?.emit('spectate_game_room', this.gameId, (callback: { error: string }) => {
+					if (callback.error) {
+						alert(callback.error);
+						this.navigate(this.type === "1v1" ? "/quickmatch" : "/tournament");
+					}
+				});
+			}
+			else if (this.type === "1v1") {
 				this.socket?.emit('join_game_room', this.gameId, this.playerId, (callback: { error: string }) => {
 					if (callback.error) {
 						alert(callback.error);
@@ -277,7 +379,8 @@ export default class PingPongClient {
 				this.players.player1 = getValidatedPlayerName("Enter name for player1:", "Guest", this.players);
 			else if (name && !this.players.player1)
 				this.players.player1 = name;
-			if (this.mode === "local") {
+			// Against the bot the server fills the second seat itself
+			if (this.mode === "local" && !this.publicState?.bot) {
 				if (!this.players.player2) {
 					this.players.player2 = getValidatedPlayerName("Enter name for player2:", "Guest", this.players);
 				}
@@ -293,77 +396,49 @@ export default class PingPongClient {
 			this.socket?.emit("names", this.players);
 		})
 
-		this.socket.on('playerSide', (side) => {
+		this.socket.on('playerSide', (side, lane) => {
 			this.playerSide = side;
+			this.playerLane = lane ?? "back";
+			this.resetInputs();
 		});
 		this.socket.on('refreshPlayerSides', (players) => {
 			const player = players.find(p => p.socketId === this.socket?.id);
-			this.playerSide = player.side;
+			this.playerSide = player?.side ?? null;
+			this.playerLane = player?.lane ?? "back";
+			this.updateBotSides(players);
+			this.resetInputs();
 		})
 
-		this.socket.on('stateUpdate', (state, start: string | null) => {
-			if (this.mode === "remote" && (this.playerSide === "left" || this.playerSide === null))
-				this.rightPaddle.position.setZ(state.rightPaddle.z);
-			if (this.mode === "remote" && (this.playerSide === "right" || this.playerSide === null))
-				this.leftPaddle.position.setZ(state.leftPaddle.z);
-			if (start) {
-				this.rightPaddle.position.setZ(state.rightPaddle.z);
-				this.leftPaddle.position.setZ(state.leftPaddle.z);
-			}
-			this.latestBallX = state.ball.x;
-			this.latestBallZ = state.ball.z;
-			this.updated = true;
-			this.ballVel.setX(state.ball.vx);
-			this.ballVel.setZ(state.ball.vz);
-			if (this.ball.material.color !== state.ball.color) {
-				this.ball.material.color.set(state.ball.color);
-				this.ball.material.emissive.set(state.ball.color);
-			}
-			if (this.scoreDisplay.textContent !== state.scoreDisplay) {
-				this.scoreDisplay.textContent = state.scoreDisplay;
-			}
-			this.timerDisplay.textContent = state.timerDisplay;
-			if (this.matchInfoDisplay.textContent !== state.matchInfo) {
-				this.matchInfoDisplay.textContent = state.matchInfo;
-			}
-			this.status = state.status;
-      if (this.status === 'in-progress')
-        this.backButton.style.display = "none";
-      else 
-        this.backButton.style.display = "block";
-			if (this.type === "1v1" && (state.status === "finished")) {
-				this.restartButton.style.display = "block";
-			}
-			else this.restartButton.style.display = "none";
-			if (state.status === "finished" || state.type === "tournament" && state.status === "starting") {
-				this.matchInfoDisplay.style.display = "block";
-			}
-			else this.matchInfoDisplay.style.display = "none";
-			if (((this.type === "1v1" && state.players.length === 2) ||
-				(this.type === "tournament" && state.players.length === 4)) &&
-				state.status === "starting" && state.mode === "remote") {
-				let readyCount = 0;
-				if (state.player1ready) readyCount++;
-				if (state.player2ready) readyCount++;
-				this.timerDisplay.textContent = `Ready? Press SPACE (Players ready: ${readyCount}/2)`;
-			}
-			else if (this.type === "tournament" && state.players.length === 4 &&
-				state.status === "starting" && state.mode === "local") {
-				if (state.round === 1) this.timerDisplay.textContent = "Press SPACE to start the tournament!";
-				else this.timerDisplay.textContent = "Press SPACE to start the next round";
-			}
+		// Full state on join, then only changed fields and binary position frames
+		this.socket.on('keyframe', (state, frame: ArrayBuffer) => {
+			this.publicState = state;
+			this.applyState(state);
+			this.applyFrame(decodeFrame(frame));
+		});
+		this.socket.on('delta', (delta, start: string | null) => {
+			if (!this.publicState) return;
+			Object.assign(this.publicState, delta);
+			if (start) this.pendingStart = true;
+			this.applyState(this.publicState);
+		});
+		this.socket.on('frame', (frame: ArrayBuffer) => {
+			if (this.publicState)
+				this.applyFrame(decodeFrame(frame));
 		});
 
 		this.socket.on('waiting', (state) => {
-			if (this.type === "1v1")
+			if (this.type === "1v1" && state.size === 4)
+				this.scoreDisplay.textContent = `Waiting for players... (${state.players.length}/4)`;
+			else if (this.type === "1v1")
 				this.scoreDisplay.textContent = 'Waiting for opponent...';
 			else {
-				this.scoreDisplay.textContent = `Waiting for opponents... (${state.players.length}/4)`;
+				this.scoreDisplay.textContent = `Waiting for opponents... (${state.players.length}/${state.size})`;
 			}
 			this.restartButton.style.display = "none";
 			this.matchInfoDisplay.style.display = "none";
 			this.scoreDisplay.style.display = "none";
 			this.status = "waiting";
+			this.showBotControls(state);
 		});
 
 		this.socket.on('disconnection', () => {
@@ -372,16 +447,308 @@ export default class PingPongClient {
 		})
 	}
 
+	private applyState(state: any) {
+		if (state.rules)
+			this.showTableExtras(state.rules, state.powerUps ?? [], (state.effects ?? []).map((e: any) => [e.kind, e.side]));
+		if (this.spectator)
+			this.hud.textContent = `Spectating (${state.spectators} watching)`;
+		this.updateBotSides(state.players);
+		this.showBotControls(state);
+		if (this.ball.material.color !== state.ballColor) {
+			this.ball.material.color.set(state.ballColor);
+			this.ball.material.emissive.set(state.ballColor);
+		}
+		if (this.scoreDisplay.textContent !== state.scoreDisplay) {
+			this.scoreDisplay.textContent = state.scoreDisplay;
+		}
+		this.timerDisplay.textContent = state.timerDisplay;
+		if (this.matchInfoDisplay.textContent !== state.matchInfo) {
+			this.matchInfoDisplay.textContent = state.matchInfo;
+		}
+		this.status = state.status;
+		if (this.status === 'in-progress')
+			this.backButton.style.display = "none";
+		else
+			this.backButton.style.display = "block";
+		if (this.type === "1v1" && (state.status === "finished")) {
+			this.restartButton.style.display = "block";
+		}
+		else this.restartButton.style.display = "none";
+		if (state.status === "finished" || state.type === "tournament" && state.status === "starting") {
+			this.matchInfoDisplay.style.display = "block";
+		}
+		else this.matchInfoDisplay.style.display = "none";
+		if (((this.type === "1v1" && state.players.length === state.size) ||
+			(this.type === "tournament" && state.bracket)) &&
+			state.status === "starting" && state.mode === "remote") {
+			let readyCount = 0;
+			if (state.player1ready) readyCount++;
+			if (state.player2ready) readyCount++;
+			// In a team room every player presses ready, a side is ready once both of its players are
+			if (this.type === "1v1" && state.size === 4)
+				this.timerDisplay.textContent = `Ready? Press SPACE (Players ready: ${state.players.filter((p: { ready?: boolean }) => p.ready).length}/4)`;
+			else
+				this.timerDisplay.textContent = `Ready? Press SPACE (Players ready: ${readyCount}/2)`;
+		}
+		else if (this.type === "tournament" && state.bracket &&
+			state.status === "starting" && state.mode === "local") {
+			if (state.round === 1) this.timerDisplay.textContent = "Press SPACE to start the tournament!";
+			else this.timerDisplay.textContent = "Press SPACE to start the next round";
+		}
+	}
+
+	private applyFrame(frame: Frame) {
+		const now = performance.now();
+		const start = this.pendingStart;
+		this.pendingStart = false;
+		if (start || this.status !== "in-progress") {
+			// Nothing to predict or interpolate: show the server state as is
+			this.snapshots.clear();
+			this.predictors.left.reset(this.ownPaddleZ(frame, "left"));
+			this.predictors.right.reset(this.ownPaddleZ(frame, "right"));
+			this.leftPaddle.position.setZ(frame.leftPaddle.z);
+			this.rightPaddle.position.setZ(frame.rightPaddle.z);
+			this.ball.position.x = frame.ball.x;
+			this.ball.position.z = frame.ball.z;
+			this.showPartners(frame.partners.left.z, frame.partners.right.z);
+			this.showExtraBalls(frame.extraBalls);
+			if (start)
+				this.resetInputs();
+		}
+		if (this.status === "in-progress") {
+			this.snapshots.push(frame, now);
+			if (!start) {
+				for (const side of this.predictedSides()) {
+					const seq = this.playerLane === "front" ? frame.inputSeq[`${side}Front`] : frame.inputSeq[side];
+					this.predictors[side].reconcile(this.ownPaddleZ(frame, side), seq, now);
+				}
+			}
+		}
+	}
+
+	// Mode and power-up entities: paddle lengths under effects, doubles partners, pickups and shields
+	private showTableExtras(rules: MatchRules, powerUps: { kind: string, x: number, z: number }[],
+							effects: [kind: string, side: "left" | "right"][]) {
+		for (const side of ["left", "right"] as const) {
+			const scale = effects.filter(([, s]) => s === side)
+				.reduce((total, [kind]) => total * (EFFECT_SCALES[kind] ?? 1), rules.paddleSize / BASE_PADDLE_SIZE);
+			const paddles = side === "left" ? [this.leftPaddle, this.leftPartner] : [this.rightPaddle, this.rightPartner];
+			paddles.forEach(paddle => paddle.scale.z = scale);
+			this.shields[side].visible = effects.some(([kind, s]) => kind === "shield" && s === side);
+		}
+		this.leftPartner.visible = rules.mode === "doubles";
+		this.rightPartner.visible = rules.mode === "doubles";
+
+		while (this.powerUpMeshes.length < powerUps.length) {
+			const mesh = new THREE.Mesh(this.powerUpGeo, new THREE.MeshStandardMaterial({ emissiveIntensity: 0.8 }));
+			this.powerUpMeshes.push(mesh);
+			this.scene.add(mesh);
+		}
+		this.powerUpMeshes.forEach((mesh, i) => {
+			const powerUp = powerUps[i];
+			mesh.visible = !!powerUp;
+			if (!powerUp) return;
+			const material = mesh.material as THREE.MeshStandardMaterial;
+			material.color.set(POWER_UP_COLORS[powerUp.kind] ?? 0xffffff);
+			material.emissive.set(POWER_UP_COLORS[powerUp.kind] ?? 0xffffff);
+			mesh.position.set(powerUp.x, 0.7, powerUp.z);
+		});
+	}
+
+	// The paddle this client drives on a side: the back one, or the front one for a front lane player
+	private ownPaddleZ(frame: Snapshot, side: "left" | "right") {
+		if (this.playerLane === "front")
+			return frame.partners[side].z;
+		return side === "left" ? frame.leftPaddle.z : frame.rightPaddle.z;
+	}
+
+	private ownPaddle(side: "left" | "right") {
+		if (this.playerLane === "front")
+			return side === "left" ? this.leftPartner : this.rightPartner;
+		return side === "left" ? this.leftPaddle : this.rightPaddle;
+	}
+
+	private showPartners(leftZ: number, rightZ: number) {
+		this.leftPartner.position.z = leftZ;
+		this.rightPartner.position.z = rightZ;
+	}
+
+	private showExtraBalls(balls: { x: number, z: number }[]) {
+		while (this.extraBalls.length < balls.length) {
+			const mesh = new THREE.Mesh(this.ballGeo, this.ballMat);
+			this.extraBalls.push(mesh);
+			this.scene.add(mesh);
+		}
+		this.extraBalls.forEach((mesh, i) => {
+			mesh.visible = i < balls.length;
+			if (i < balls.length)
+				mesh.position.set(balls[i].x, 0.6, balls[i].z);
+		});
+	}
+
 	private handleKeyDown(e: KeyboardEvent) {
+		if (this.replay) {
+			if (e.code === "Space") this.toggleReplay();
+			return;
+		}
+		if (this.spectator) return;
 		if (e.key === "Escape")
 			this.socket?.emit("pause");
 		else if (e.code === "Space")
 			this.socket?.emit("setReady");
-		else if (e.key in this.keys) this.keys[e.key as keyof typeof this.keys] = true;
+		else if (e.key in this.keys) {
+			this.keys[e.key as keyof typeof this.keys] = true;
+			this.sendInputs();
+		}
 	}
 
 	private handleKeyUp(e: KeyboardEvent) {
-		if (e.key in this.keys) this.keys[e.key as keyof typeof this.keys] = false;
+		if (e.key in this.keys) {
+			this.keys[e.key as keyof typeof this.keys] = false;
+			this.sendInputs();
+		}
+	}
+
+	private getInput(up: boolean, down: boolean): PaddleInput {
+		if (up === down) return "stop";
+		return up ? "up" : "down";
+	}
+
+	private predictedSides(): ("left" | "right")[] {
+		if (this.spectator) return [];
+		if (this.mode === "local") return (["left", "right"] as const).filter(side => !this.botSides.includes(side));
+		return this.playerSide ? [this.playerSide] : [];
+	}
+
+	// Paddles played by the server-side bot are never driven or predicted by this client
+	private updateBotSides(players: { side: "left" | "right" | null, bot?: string }[]) {
+		this.botSides = players.filter(p => p.bot && p.side).map(p => p.side!);
+	}
+
+	private showBotControls(state: any) {
+		const seated = state.players.some((p: { socketId: string }) => p.socketId === this.socket?.id);
+		const canAdd = this.type === "tournament" && this.mode === "remote" && !this.spectator &&
+			seated && state.status === "waiting" && state.players.length < state.size;
+		this.botControls.style.display = canAdd ? "block" : "none";
+		this.startNowButton.style.display = state.players.length >= MIN_ENTRANTS ? "inline-block" : "none";
+	}
+
+	// The server forgets inputs when sides are reassigned or a game starts, so held keys are sent again
+	private resetInputs() {
+		this.sentInputs = { left: "stop", right: "stop" };
+		this.predictors.left.push("stop", this.inputSeq, performance.now());
+		this.predictors.right.push("stop", this.inputSeq, performance.now());
+		this.sendInputs();
+	}
+
+	// Only key state changes are sent, each with a new sequence number
+	private sendInputs() {
+		if (this.spectator) return;
+		let inputs: { left: PaddleInput | null, right: PaddleInput | null } = { left: null, right: null };
+		if (this.mode === "local" && this.botSides.length) {
+			// One human against the bot can use either set of keys
+			const side = this.botSides.includes("left") ? "right" : "left";
+			inputs[side] = this.getInput(this.keys.w || this.keys.ArrowUp, this.keys.s || this.keys.ArrowDown);
+		}
+		else if (this.mode === "local") {
+			inputs.left = this.getInput(this.keys.w, this.keys.s);
+			inputs.right = this.getInput(this.keys.ArrowUp, this.keys.ArrowDown);
+		}
+		else if (this.playerSide) {
+			inputs[this.playerSide] = this.getInput(this.keys.w || this.keys.ArrowUp, this.keys.s || this.keys.ArrowDown);
+		}
+		for (const side of ["left", "right"] as const) {
+			const input = inputs[side];
+			if (!input || input === this.sentInputs[side]) continue;
+			this.sentInputs[side] = input;
+			this.socket?.emit("move", side, input, ++this.inputSeq, this.playerLane);
+			this.predictors[side].push(input, this.inputSeq, performance.now());
+		}
+	}
+
+	// Replays need no server connection: the recorded frames are played back locally
+	private startReplay(data: ReplayData) {
+		this.replay = new ReplayPlayer(data);
+		this.spectator = true;
+		this.hud.textContent = 'Replay (Space: play/pause)';
+		this.backButton.style.display = "block";
+		this.showTableExtras(data.rules, [], []);
+
+		this.replayControls = document.createElement('div');
+		Object.assign(this.replayControls.style, {
+			position: 'absolute',
+			bottom: '20px',
+			left: '50%',
+			transform: 'translateX(-50%)',
+			display: 'flex',
+			gap: '8px',
+			alignItems: 'center',
+			color: 'white',
+			fontFamily: 'monospace',
+		});
+		this.replayPlayButton = document.createElement('button');
+		this.replayPlayButton.style.padding = '4px 12px';
+		this.replayPlayButton.addEventListener('click', () => this.toggleReplay());
+
+		this.replaySeek = document.createElement('input');
+		this.replaySeek.type = 'range';
+		this.replaySeek.min = '0';
+		this.replaySeek.max = String(this.replay.duration);
+		this.replaySeek.style.width = '320px';
+		this.replaySeek.addEventListener('input', () => this.replay?.seek(Number(this.replaySeek?.value)));
+
+		const speed = document.createElement('select');
+		for (const value of REPLAY_SPEEDS) {
+			const option = document.createElement('option');
+			option.value = String(value);
+			option.textContent = `${value}x`;
+			speed.appendChild(option);
+		}
+		speed.value = "1";
+		speed.addEventListener('change', () => {
+			if (this.replay) this.replay.speed = Number(speed.value);
+		});
+
+		this.replayControls.append(this.replayPlayButton, this.replaySeek, speed);
+		document.body.appendChild(this.replayControls);
+	}
+
+	private toggleReplay() {
+		this.replay?.togglePlay();
+	}
+
+	private stepReplay(dt: number) {
+		if (!this.replay) return;
+		this.replay.advance(dt);
+		const sample = this.replay.sample();
+		if (!sample) return;
+		this.ball.position.x = sample.ball.x;
+		this.ball.position.z = sample.ball.z;
+		this.ballMat.color.set(sample.ball.color);
+		this.ballMat.emissive.set(sample.ball.color);
+		this.leftPaddle.position.z = sample.leftPaddle.z;
+		this.rightPaddle.position.z = sample.rightPaddle.z;
+		const { partners, balls = [], powerUps = [], effects = [] } = sample.extras;
+		if (partners)
+			this.showPartners(partners[0], partners[1]);
+		const extraBalls = [];
+		for (let i = 0; i + 1 < balls.length; i += 2)
+			extraBalls.push({ x: balls[i], z: balls[i + 1] });
+		this.showExtraBalls(extraBalls);
+
+		const { left, right, teammates, rules } = this.replay.data;
+		this.showTableExtras(rules, powerUps.map(([kind, x, z]) => ({ kind, x, z })), effects);
+		const leftName = teammates ? `${left.name} & ${teammates.left}` : left.name;
+		const rightName = teammates ? `${right.name} & ${teammates.right}` : right.name;
+		this.scoreDisplay.textContent = `${leftName}: ${sample.leftScore}  —  ${rightName}: ${sample.rightScore}`;
+		// Survival matches are never timed, they run until a side is out of lives
+		const timed = rules.duration !== null && rules.mode !== "survival";
+		const clock = timed ? Math.max(0, rules.duration! * 1000 - sample.time) : sample.time;
+		this.timerDisplay.textContent = `${formatReplayTime(clock)}  (${formatReplayTime(sample.time)} / ${formatReplayTime(this.replay.duration)})`;
+		if (this.replayPlayButton)
+			this.replayPlayButton.textContent = this.replay.playing ? '⏸ Pause' : '▶ Play';
+		if (this.replaySeek && document.activeElement !== this.replaySeek)
+			this.replaySeek.value = String(sample.time);
 	}
 
 	private handleResize() {
@@ -401,9 +768,10 @@ export default class PingPongClient {
 		}
 
 		// Remove HUD, Score Display, Timer Display, Restart Button, Match Info Display, Back button from DOM
-		[this.hud, this.scoreDisplay, this.timerDisplay, this.restartButton, this.matchInfoDisplay, this.backButton].forEach(el => {
+		[this.hud, this.scoreDisplay, this.timerDisplay, this.restartButton, this.botControls, this.matchInfoDisplay, this.backButton].forEach(el => {
 			if (el.parentNode) el.parentNode.removeChild(el);
 		});
+		this.replayControls?.remove();
 
 		// Remove event listeners
 		window.removeEventListener('keydown', this.handleKeyDown);
@@ -425,54 +793,26 @@ export default class PingPongClient {
 		const now = performance.now();
 		const dt = (now - this.lastFrame) / 1000;
 		this.lastFrame = now;
-		// Move paddles
-		if (this.status != "paused" && this.status != "finished") {
-			if (this.mode === "local") {
-				if (this.keys.w) this.leftPaddle.position.z -= 12 * dt;
-				if (this.keys.s) this.leftPaddle.position.z += 12 * dt;
-				if (this.keys.ArrowUp) this.rightPaddle.position.z -= 12 * dt;
-				if (this.keys.ArrowDown) this.rightPaddle.position.z += 12 * dt;
-				this.socket?.emit("move", "left", this.leftPaddle.position.z);
-				this.socket?.emit("move", "right", this.rightPaddle.position.z);
-			}
-			else {
-				if (this.playerSide === "left") {
-					if (this.keys.w || this.keys.ArrowUp)
-						this.leftPaddle.position.z -= 12 * dt;
-					if (this.keys.s || this.keys.ArrowDown)
-						this.leftPaddle.position.z += 12 * dt;
-					this.socket?.emit("move", this.playerSide, this.leftPaddle.position.z);
-				}
-				else if (this.playerSide === "right") {
-					if (this.keys.w || this.keys.ArrowUp)
-						this.rightPaddle.position.z -= 12 * dt;
-					if (this.keys.s || this.keys.ArrowDown)
-						this.rightPaddle.position.z += 12 * dt;
-					this.socket?.emit("move", this.playerSide, this.rightPaddle.position.z);
-				}
-			}
-		}
-		// Clamp paddles
-		this.leftPaddle.position.z = THREE.MathUtils.clamp(this.leftPaddle.position.z, -this.bounds.z, this.bounds.z);
-		this.rightPaddle.position.z = THREE.MathUtils.clamp(this.rightPaddle.position.z, -this.bounds.z, this.bounds.z);
-
-		// Predict ball movement
-		if (this.status === "in-progress")
-			this.ball.position.addScaledVector(this.ballVel, dt);
-		if (this.updated) {
-			const errX = this.latestBallX - this.ball.position.x;
-			const errZ = this.latestBallZ - this.ball.position.z;
-			// if ball position differs too much from server, snap position instantly
-			if (Math.abs(errX) > 0.5 || Math.abs(errZ) > 0.5) {
-				this.ball.position.x = this.latestBallX;
-				this.ball.position.z = this.latestBallZ;
-			} else {
-				// apply a small correction toward server state
-				this.ball.position.x += errX * 0.1; // 0.1 = smoothing factor, tweakable
-				this.ball.position.z += errZ * 0.1;
-				this.updated = false;
+		if (this.replay)
+			this.stepReplay(dt);
+		else if (this.status === "in-progress") {
+			// Own paddles are predicted, everything else is interpolated between snapshots
+			const predicted = this.predictedSides();
+			for (const side of predicted)
+				this.predictors[side].step(dt);
+			const snapshot = this.snapshots.sample(now);
+			if (snapshot) {
+				this.ball.position.x = snapshot.ball.x;
+				this.ball.position.z = snapshot.ball.z;
+				this.showPartners(snapshot.partners.left.z, snapshot.partners.right.z);
+				this.showExtraBalls(snapshot.extraBalls);
+				this.leftPaddle.position.z = snapshot.leftPaddle.z;
+				this.rightPaddle.position.z = snapshot.rightPaddle.z;
 			}
+			for (const side of predicted)
+				this.ownPaddle(side).position.z = this.predictors[side].z;
 		}
+
 		// Camera rotation based on ball
 		const targetRotationY = THREE.MathUtils.clamp(this.ball.position.z / this.bounds.z, -0.9, 0.9);
 		const smoothingFactor = 0.1;
@@ -10,6 +10,25 @@ const api = axios.create({
   },
 });
 
+// One renewal at a time: requests that fail together wait for the same one
+let refreshing: Promise<boolean> | null = null;
+
+// Renews the access token with the refresh token cookie; false once the session is over
+export const refreshSession = (): Promise<boolean> => {
+  refreshing ??= api
+    .post("/auth/refresh")
+    .then(() => true)
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+};
+
+// Endpoints used without a session, where a 401 means wrong credentials or a finished session
+const SESSIONLESS_ENDPOINT =
+  /\/auth\/(login|verify-2fa|verify-email|signin-with-google|refresh|logout)/;
+
 // Add request interceptor for debugging
 api.interceptors.request.use(
   (config) => {
@@ -37,6 +56,16 @@ api.interceptors.response.use(
 
     // Handle 401 errors properly
     if (error.response?.status === 401) {
+      // An expired access token is renewed and the request tried once more
+      if (
+        error.config &&
+        !error.config._retried &&
+        !SESSIONLESS_ENDPOINT.test(error.config.url ?? "") &&
+        (await refreshSession())
+      ) {
+        return api({ ...error.config, _retried: true });
+      }
+
       // Don't try to logout if we're already on auth endpoints
       if (!error.config?.url?.includes("/auth/")) {
         try {
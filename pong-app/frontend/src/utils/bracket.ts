@@ -0,0 +1,41 @@
+// Tournament brackets as sent by the server, mirroring publicBracket() in the backend's bracket.ts
+
+export const BRACKET_SIZES = [4, 8, 16];
+// A remote tournament can be started early with this many players, the empty seats become byes
+export const MIN_ENTRANTS = 3;
+
+export type TournamentFormat = "elimination" | "round-robin" | "swiss";
+
+export const TOURNAMENT_FORMATS: { id: TournamentFormat; label: string }[] = [
+	{ id: "elimination", label: "Single elimination" },
+	{ id: "round-robin", label: "Round robin" },
+	{ id: "swiss", label: "Swiss" },
+];
+
+export interface BracketMatch {
+	player1: string | null;
+	player2: string | null;
+	winner: string | null;
+	score: [number, number] | null;
+	bye: boolean;
+	live: boolean;
+}
+
+// League table row of a round-robin or Swiss tournament, best placed first
+export interface BracketStanding {
+	name: string | null;
+	played: number;
+	wins: number;
+	losses: number;
+	draws: number;
+	points: number;
+	scoreDiff: number;
+}
+
+export interface PublicBracket {
+	format: TournamentFormat;
+	totalMatches: number;
+	winner: string | null;
+	rounds: { name: string; matches: BracketMatch[] }[];
+	standings: BracketStanding[] | null;
+}
@@ -1,6 +1,42 @@
 import { NavigateFunction } from "react-router-dom";
 import { io } from "socket.io-client";
 import validator from 'validator';
+import { MIN_ENTRANTS } from './bracket';
+import { PromptMode, promptModeHint } from './keyClashModes';
+
+// The round clock, or the tie break a level round went to
+function clockText(state: { timeLeft: number, overtime: "golden-point" | "overtime" | null }) {
+	if (state.overtime === "golden-point")
+		return "Golden point! Next point wins";
+	if (state.overtime === "overtime")
+		return `Overtime: ${state.timeLeft}s`;
+	return `Time Left: ${state.timeLeft}s`;
+}
+
+interface PromptState {
+	prompts: [string, string];
+	promptMode?: PromptMode;
+	sequences?: [string[], string[]];
+	progress?: [number, number];
+	multipliers?: [number, number];
+}
+
+// The keys of a player's prompt still to type, the whole rest of a sequence
+function promptText(state: PromptState, index: 0 | 1, symbols: Record<string, string>) {
+	const sequence = state.sequences?.[index] ?? [];
+	if (!sequence.length)
+		return symbols[state.prompts[index]] ?? "";
+	return sequence.slice(state.progress?.[index] ?? 0).map((key) => symbols[key]).join(" ");
+}
+
+// A streak multiplier shows next to the score once it is worth more than a point a key
+function scoreText(player: { name: string, score: number }, multiplier = 1) {
+	return `${player.name}: ${player.score}${multiplier > 1 ? ` (x${multiplier})` : ""}`;
+}
+
+function goodLuckText(state: PromptState) {
+	return !state.promptMode || state.promptMode === "classic" ? "Good Luck!" : `Good Luck! ${promptModeHint(state.promptMode)}`;
+}
 
 export default function KeyClashClient(
 	container: HTMLElement,
@@ -9,7 +45,8 @@ export default function KeyClashClient(
 	type: "1v1" | "tournament",
 	navigate: NavigateFunction,
 	name: string | null | { player1: string | null, player2: string | null, player3: string | null, player4: string | null },
-	playerId: number | null
+	playerId: number | null,
+	spectator: boolean = false
 ): () => void {
 
 	const arrowKeys = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
@@ -59,6 +96,18 @@ export default function KeyClashClient(
   document.body.appendChild(backButton);
   backButton.addEventListener('click', () => navigate('/lobby')); 
 
+	// Starts a remote tournament before it is full, the empty seats become byes
+	const startNowButton = document.createElement('button');
+	startNowButton.textContent = '▶ Start now';
+	startNowButton.className = "absolute top-32 left-60 bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg font-semibold shadow-md";
+	startNowButton.style.display = 'none';
+	document.body.appendChild(startNowButton);
+	startNowButton.addEventListener('click', () => {
+		socket.emit("start_tournament", (callback: { error?: string }) => {
+			if (callback.error) alert(callback.error);
+		});
+	});
+
 	const socket = io("/keyclash", {
 		path: '/socket.io',
 		transports: ['websocket'],
@@ -66,6 +115,8 @@ export default function KeyClashClient(
 	});
 
 	function onKeyDown(e: KeyboardEvent) {
+		if (spectator)
+			return;
 		if (e.code === "Space" || e.key === "r")
 			socket.emit("setReady");
 		else if (arrowKeys.includes(e.key) || wasdKeys.includes(e.key))
@@ -75,6 +126,15 @@ export default function KeyClashClient(
 	window.addEventListener("keydown", onKeyDown);
 
 	socket.on('connect', () => {
+		if (spectator) {
+			socket.emit('spectate_game_room', gameId, (callback: { error: string }) => {
+				if (callback.error) {
+					alert(callback.error);
+					navigate(type === "1v1" ? "/quickmatch" : "/tournament");
+				}
+			});
+			return;
+		}
 		socket.emit('join_game_room', gameId, mode, type, playerId, (callback: { error: string }) => {
 			if (callback.error) {
 				alert(callback.error);
@@ -120,66 +180,80 @@ export default function KeyClashClient(
 
 	socket.on("gameStart", (state) => {
     backButton.style.display = "none";
-		score1El.textContent = `${state.player1.name}: ${state.player1.score}`;
-		score2El.textContent = `${state.player2.name}: ${state.player2.score}`;
+		score1El.textContent = scoreText(state.player1, state.multipliers?.[0]);
+		score2El.textContent = scoreText(state.player2, state.multipliers?.[1]);
 		if (state.type === "1v1")
-			timerEl.textContent = `Time Left: ${state.timeLeft}s`;
+			timerEl.textContent = `${clockText(state)}`;
 		else
-			timerEl.textContent = `Round ${state.round}/3\nTime Left: ${state.timeLeft}s`;
-		prompt1.textContent = wasdSymbols[state.prompts[0]];
-		prompt2.textContent = arrowSymbols[state.prompts[1]];
-		startPrompt.textContent = "Good Luck!";
+			timerEl.textContent = `Match ${state.round}/${state.bracket?.totalMatches}\n${clockText(state)}`;
+		prompt1.textContent = promptText(state, 0, wasdSymbols);
+		prompt2.textContent = promptText(state, 1, arrowSymbols);
+		startPrompt.textContent = goodLuckText(state);
 	});
 
 	socket.on("gameState", (state) => {
-		score1El.textContent = `${state.player1.name}: ${state.player1.score}`;
-		score2El.textContent = `${state.player2.name}: ${state.player2.score}`;
+		score1El.textContent = scoreText(state.player1, state.multipliers?.[0]);
+		score2El.textContent = scoreText(state.player2, state.multipliers?.[1]);
     if (state.status === "in-progress")
       backButton.style.display = "none";
     else
       backButton.style.display = "block";
 		if (state.status === "in-progress" || state.status === "starting") {
 			if (state.type === "1v1")
-				timerEl.textContent = `Time Left: ${state.timeLeft}s`;
-			else
-				timerEl.textContent = `Round ${state.round}/3\nTime Left: ${state.timeLeft}s`;
+				timerEl.textContent = `${clockText(state)}`;
+			else if (state.bracket)
+				timerEl.textContent = `Match ${state.round}/${state.bracket.totalMatches}\n${clockText(state)}`;
 		}
-		if (state.type === "tournament" && state.status === "starting" && state.round === 1) {
-			timerEl.textContent = `Next up, Round ${state.round}/3:\n${state.matches[0].player1.name} vs ${state.matches[0].player2.name}`;
+		if (state.status !== "waiting")
+			startNowButton.style.display = "none";
+		if (state.type === "tournament" && state.status === "starting" && state.round === 1 && state.matches.length) {
+			timerEl.textContent = `Next up, Match 1/${state.bracket.totalMatches}:\n${state.matches[0].player1.name} vs ${state.matches[0].player2.name}`;
 			if (state.mode === "local") startPrompt.textContent = "Press SPACE to start the tournament!";
 		}
-		prompt1.textContent = wasdSymbols[state.prompts[0]];
-		prompt2.textContent = arrowSymbols[state.prompts[1]];
+		prompt1.textContent = promptText(state, 0, wasdSymbols);
+		prompt2.textContent = promptText(state, 1, arrowSymbols);
 		if (((state.players.length === 2 && state.type === "1v1") ||
-			(state.players.length === 4 && state.type === "tournament")) &&
+			(state.bracket && state.type === "tournament")) &&
 			state.status === "starting" && state.mode === "remote") {
 			let readyCount = 0;
 			if (state.player1.ready) readyCount++;
 			if (state.player2.ready) readyCount++;
 			startPrompt.textContent = `Ready? Press SPACE (Players ready: ${readyCount}/2)`;
 		}
+		const missing = state.players.find((p: { side: string | null, disconnected?: boolean }) => p.side && p.disconnected);
+		if (missing)
+			startPrompt.textContent = `${missing.name} disconnected, waiting for them to reconnect...`;
+		else if (spectator)
+			startPrompt.textContent = `Spectating (${state.spectators} watching)`;
+		else if (state.status === "in-progress")
+			startPrompt.textContent = goodLuckText(state);
 	});
 
 	socket.on("waiting", (state) => {
 		if (state.type === "1v1")
 			startPrompt.textContent = "Waiting for opponent...";
 		else
-			startPrompt.textContent = `Waiting for opponents... (${state.players.length}/4)`;
+			startPrompt.textContent = `Waiting for opponents... (${state.players.length}/${state.size})`;
+		const seated = state.players.some((p: { socketId: string }) => p.socketId === socket.id);
+		startNowButton.style.display = state.type === "tournament" && state.mode === "remote" && seated &&
+			state.players.length >= MIN_ENTRANTS ? "block" : "none";
 	});
 
 	socket.on("gameOver", (state) => {
 		let p1 = state.player1;
 		let p2 = state.player2;
 		if (state.type === "1v1") {
-			timerEl.textContent = `Time's Up! Final Score ${p1.name}: ${p1.score} | ${p2.name}: ${p2.score}`;
+			const result = p1.score === p2.score ? "It's a draw!" : `${p1.score > p2.score ? p1.name : p2.name} wins!`;
+			timerEl.textContent = `Time's Up! ${result} Final Score ${p1.name}: ${p1.score} | ${p2.name}: ${p2.score}`;
 			startPrompt.textContent = "Press SPACE to Restart";
       backButton.style.display = "block";
 		}
 		else if (state.type === "tournament") {
 			const i = state.round - 2;
-			if (state.round <= 3) {
-				timerEl.textContent = `Round ${state.round - 1} over, ${state.matches[i].winner.name} wins!`;
-				timerEl.textContent += `\nNext up, Round ${state.round}/3:\n${state.matches[i + 1].player1.name} vs ${state.matches[i + 1].player2.name}`;
+			if (state.round <= state.bracket.totalMatches) {
+				const winner = state.matches[i].winner;
+				timerEl.textContent = `Match ${state.round - 1} over, ${winner ? `${winner.name} wins!` : "it's a draw!"}`;
+				timerEl.textContent += `\nNext up, Match ${state.round}/${state.bracket.totalMatches}:\n${state.matches[i + 1].player1.name} vs ${state.matches[i + 1].player2.name}`;
 				if (mode === "remote") {
 					let readyCount = 0;
 					if (state.player1.ready) readyCount++;
@@ -190,7 +264,7 @@ export default function KeyClashClient(
 					startPrompt.textContent = "Press SPACE to start next round";
 			}
 			else {
-				timerEl.textContent = `Tournament finished! The winner is: ${state.matches[i].winner.name}!`;
+				timerEl.textContent = `Tournament finished! The winner is: ${state.bracket.winner}!`;
 				startPrompt.textContent = "Congratulations!";
         backButton.style.display = "block";
 			}
@@ -215,6 +289,7 @@ export default function KeyClashClient(
 	// Return cleanup function
 	return () => {
     if (backButton.parentNode) backButton.parentNode.removeChild(backButton);
+		startNowButton.remove();
 		window.removeEventListener("keydown", onKeyDown);
 		if (socket) {
 			socket.off();
@@ -0,0 +1,12 @@
+// Mirrors the prompt modes of setupKeyClash in the backend's KeyClashGame.ts
+
+export type PromptMode = "classic" | "sequences" | "speed" | "mirror";
+
+export const PROMPT_MODES: { id: PromptMode; label: string; hint: string }[] = [
+	{ id: "classic", label: "Classic", hint: "One key at a time, a point per hit" },
+	{ id: "sequences", label: "Sequences", hint: "Type each sequence of keys in order, streaks multiply your points" },
+	{ id: "speed", label: "Speed", hint: "Answer before the prompt runs out, it gets faster as the round goes on" },
+	{ id: "mirror", label: "Mirror", hint: "Press the opposite direction of the key shown" },
+];
+
+export const promptModeHint = (mode: PromptMode) => PROMPT_MODES.find((m) => m.id === mode)?.hint ?? "";
@@ -0,0 +1,77 @@
+// Pong match rules, mirroring matchRules.ts in the backend which validates them on create_game
+
+// How a match level at the end of its time is decided; Key Clash rooms take the same choice
+export type TieBreak = "golden-point" | "overtime" | "draw";
+
+export const TIE_BREAKS: { id: TieBreak; label: string }[] = [
+	{ id: "draw", label: "Draw" },
+	{ id: "golden-point", label: "Golden point" },
+	{ id: "overtime", label: "Overtime" },
+];
+
+// Survival: every side has SURVIVAL_LIVES lives, doubles: a second paddle per side
+export type PongMode = "classic" | "survival" | "doubles";
+
+export const PONG_MODES: { id: PongMode; label: string }[] = [
+	{ id: "classic", label: "Classic" },
+	{ id: "survival", label: "Survival" },
+	{ id: "doubles", label: "Doubles" },
+];
+
+export const SURVIVAL_LIVES = 3;
+
+export interface MatchRules {
+	scoreLimit: number | null;
+	duration: number | null;
+	winByTwo: boolean;
+	ballSpeed: number;
+	ballAcceleration: number;
+	paddleSize: number;
+	tieBreak: TieBreak;
+	mode: PongMode;
+	powerUps: boolean;
+}
+
+export const DEFAULT_MATCH_RULES: MatchRules = {
+	scoreLimit: 3,
+	duration: 120,
+	winByTwo: false,
+	ballSpeed: 6,
+	ballAcceleration: 1.05,
+	paddleSize: 3,
+	tieBreak: "draw",
+	mode: "classic",
+	powerUps: false,
+};
+
+// Paddle length the client geometry is built with; larger or smaller paddles are scaled from it
+export const BASE_PADDLE_SIZE = 3;
+
+// Short summary for lobby lists and match details, e.g. "First to 5 (win by 2) · 2:00"
+export function describeMatchRules(rules: MatchRules | null | undefined): string {
+	if (!rules)
+		return "";
+	const parts: string[] = [];
+	if (rules.mode === "survival")
+		parts.push(`Survival, ${SURVIVAL_LIVES} lives`);
+	else if (rules.mode === "doubles")
+		parts.push("Doubles");
+	if (rules.mode !== "survival" && rules.scoreLimit !== null)
+		parts.push(`First to ${rules.scoreLimit}${rules.winByTwo ? " (win by 2)" : ""}`);
+	if (rules.mode !== "survival" && rules.duration !== null) {
+		const minutes = Math.floor(rules.duration / 60);
+		const seconds = String(rules.duration % 60).padStart(2, "0");
+		parts.push(`${minutes}:${seconds}`);
+	}
+	if (rules.ballSpeed !== DEFAULT_MATCH_RULES.ballSpeed)
+		parts.push(`ball speed ${rules.ballSpeed}`);
+	if (rules.ballAcceleration !== DEFAULT_MATCH_RULES.ballAcceleration)
+		parts.push(`speed-up x${rules.ballAcceleration}`);
+	if (rules.paddleSize !== DEFAULT_MATCH_RULES.paddleSize)
+		parts.push(`paddle ${rules.paddleSize}`);
+	if (rules.mode !== "survival" && rules.duration !== null && rules.tieBreak !== "draw")
+		parts.push(rules.tieBreak === "golden-point" ? "golden point" : "overtime");
+	if (rules.powerUps)
+		parts.push("power-ups");
+	return parts.join(" · ");
+}
@@ -0,0 +1,185 @@
+// Client-side prediction and snapshot interpolation for the /pong namespace
+
+export type PaddleInput = "up" | "down" | "stop";
+
+// Must match the paddle speed and table bounds used by PingPongGame on the server
+export const PADDLE_SPEED = 12;
+export const PADDLE_BOUND_Z = 5.6;
+export const FRONT_LANE_X = 4.2;
+
+const FRAME_BYTES = 57;
+const EXTRA_BALL_BYTES = 8;
+
+const SNAP_DISTANCE = 1.5;
+const CORRECTION_FACTOR = 0.2;
+
+function clampZ(z: number) {
+	return Math.max(-PADDLE_BOUND_Z, Math.min(PADDLE_BOUND_Z, z));
+}
+
+function toDirection(input: PaddleInput) {
+	return input === "up" ? -1 : input === "down" ? 1 : 0;
+}
+
+/*
+ * Predicts the position of a paddle driven by this client.
+ * Inputs are kept with their send time so that, when a snapshot arrives, the paddle can be
+ * re-simulated from the server position over the inputs the server has not applied yet.
+ */
+export class PaddlePredictor {
+	public z = 0;
+	private direction = 0;
+	private history: { seq: number, direction: number, sentAt: number }[] = [];
+	private lastAck = 0;
+	private rtt = 100;
+
+	public push(input: PaddleInput, seq: number, now: number) {
+		this.direction = toDirection(input);
+		this.history.push({ seq, direction: this.direction, sentAt: now });
+	}
+
+	public step(dt: number) {
+		this.z = clampZ(this.z + this.direction * PADDLE_SPEED * dt);
+	}
+
+	public reset(z: number) {
+		this.z = z;
+		this.direction = 0;
+		this.history = [];
+		this.lastAck = 0;
+	}
+
+	public reconcile(serverZ: number, ack: number, now: number) {
+		if (ack > this.lastAck) {
+			const acked = this.history.find(h => h.seq === ack);
+			if (acked)
+				this.rtt += ((now - acked.sentAt) - this.rtt) * 0.1;
+			this.lastAck = ack;
+		}
+		// Drop history the replay window no longer needs, keeping the input active at its start
+		const windowStart = now - this.rtt;
+		while (this.history.length > 1 && this.history[1].sentAt <= windowStart)
+			this.history.shift();
+
+		const target = clampZ(serverZ + this.replay(windowStart, now));
+		const error = target - this.z;
+		if (Math.abs(error) > SNAP_DISTANCE)
+			this.z = target;
+		else
+			this.z += error * CORRECTION_FACTOR;
+	}
+
+	// Distance the paddle travels between from and to under the recorded inputs
+	private replay(from: number, to: number) {
+		let distance = 0;
+		for (let i = 0; i < this.history.length; i++) {
+			const start = Math.max(from, this.history[i].sentAt);
+			const end = i + 1 < this.history.length ? Math.min(to, this.history[i + 1].sentAt) : to;
+			if (end > start)
+				distance += this.history[i].direction * PADDLE_SPEED * (end - start) / 1000;
+		}
+		return distance;
+	}
+}
+
+export interface Snapshot {
+	time: number;
+	ball: { x: number, z: number };
+	leftPaddle: { z: number };
+	rightPaddle: { z: number };
+	partners: { left: { z: number }, right: { z: number } };
+	extraBalls: { x: number, z: number }[];
+}
+
+export interface Frame extends Snapshot {
+	ball: { x: number, z: number, vx: number, vz: number };
+	inputSeq: { left: number, right: number, leftFront: number, rightFront: number };
+}
+
+// Mirrors encodeFrame() in the backend's pongSnapshot.ts
+export function decodeFrame(buffer: ArrayBuffer): Frame {
+	const view = new DataView(buffer);
+	return {
+		time: view.getFloat64(0, true),
+		ball: {
+			x: view.getFloat32(8, true),
+			z: view.getFloat32(12, true),
+			vx: view.getFloat32(16, true),
+			vz: view.getFloat32(20, true),
+		},
+		leftPaddle: { z: view.getFloat32(24, true) },
+		rightPaddle: { z: view.getFloat32(28, true) },
+		inputSeq: {
+			left: view.getUint32(32, true),
+			right: view.getUint32(36, true),
+			leftFront: view.getUint32(48, true),
+			rightFront: view.getUint32(52, true),
+		},
+		partners: { left: { z: view.getFloat32(40, true) }, right: { z: view.getFloat32(44, true) } },
+		extraBalls: Array.from({ length: view.getUint8(56) }, (_, i) => ({
+			x: view.getFloat32(FRAME_BYTES + i * EXTRA_BALL_BYTES, true),
+			z: view.getFloat32(FRAME_BYTES + i * EXTRA_BALL_BYTES + 4, true),
+		})),
+	};
+}
+
+/*
+ * Buffers server snapshots and renders them slightly in the past so the ball and the
+ * opponent paddle move smoothly between updates instead of jumping to each one.
+ */
+export class SnapshotBuffer {
+	private snapshots: Snapshot[] = [];
+	private clockOffset: number | null = null;
+
+	constructor(private delay: number) {}
+
+	public push(snapshot: Snapshot, now: number) {
+		// Offset between the local and the server clock, tracking the fastest delivery seen
+		const offset = now - snapshot.time;
+		if (this.clockOffset === null || offset < this.clockOffset)
+			this.clockOffset = offset;
+		else
+			this.clockOffset += (offset - this.clockOffset) * 0.01;
+		if (this.snapshots.length && snapshot.time <= this.snapshots[this.snapshots.length - 1].time)
+			return;
+		this.snapshots.push(snapshot);
+		while (this.snapshots.length > 2 && now - this.clockOffset - this.snapshots[1].time > this.delay)
+			this.snapshots.shift();
+	}
+
+	public clear() {
+		this.snapshots = [];
+	}
+
+	public sample(now: number): Snapshot | null {
+		if (!this.snapshots.length || this.clockOffset === null)
+			return null;
+		const renderTime = now - this.clockOffset - this.delay;
+		let i = 0;
+		while (i + 1 < this.snapshots.length && this.snapshots[i + 1].time <= renderTime)
+			i++;
+		const from = this.snapshots[i];
+		const to = this.snapshots[i + 1];
+		if (!to || renderTime <= from.time)
+			return from;
+		// The ball is re-centred after a point; jump instead of sliding it across the table
+		if (Math.abs(to.ball.x - from.ball.x) > 3)
+			return to;
+		const t = (renderTime - from.time) / (to.time - from.time);
+		const lerp = (a: number, b: number) => a + (b - a) * t;
+		return {
+			time: renderTime,
+			ball: { x: lerp(from.ball.x, to.ball.x), z: lerp(from.ball.z, to.ball.z) },
+			leftPaddle: { z: lerp(from.leftPaddle.z, to.leftPaddle.z) },
+			rightPaddle: { z: lerp(from.rightPaddle.z, to.rightPaddle.z) },
+			partners: {
+				left: { z: lerp(from.partners.left.z, to.partners.left.z) },
+				right: { z: lerp(from.partners.right.z, to.partners.right.z) },
+			},
+			// Balls come and go with power-ups and points, only a steady set is interpolated
+			extraBalls: from.extraBalls.length === to.extraBalls.length
+				? to.extraBalls.map((b, i) => ({ x: lerp(from.extraBalls[i].x, b.x), z: lerp(from.extraBalls[i].z, b.z) }))
+				: to.extraBalls,
+		};
+	}
+}
@@ -0,0 +1,107 @@
+// Playback of recorded pong matches fetched from GET /game/:id/replay
+
+import { MatchRules } from './matchRules';
+
+// Mirrors ReplayFrame and ReplayExtras in the backend's pongReplay.ts
+export type ReplayFrame = [time: number, ballX: number, ballZ: number, leftZ: number, rightZ: number,
+						   leftScore: number, rightScore: number, ballColor: number, extras?: ReplayExtras];
+
+export interface ReplayExtras {
+	partners?: [leftZ: number, rightZ: number];
+	balls?: number[];
+	powerUps?: [kind: string, x: number, z: number][];
+	effects?: [kind: string, side: "left" | "right"][];
+}
+
+export interface ReplayData {
+	id: string;
+	date: string;
+	rules: MatchRules;
+	left: { name: string | null, bot: string | null };
+	right: { name: string | null, bot: string | null };
+	teammates: { left: string | null, right: string | null } | null; // front lane players of a team match
+	tickMs: number;
+	ticks: number;
+	scores: [number, number, number][];
+	frames: ReplayFrame[];
+}
+
+export interface ReplaySample {
+	time: number;
+	ball: { x: number, z: number, color: number };
+	leftPaddle: { z: number };
+	rightPaddle: { z: number };
+	leftScore: number;
+	rightScore: number;
+	extras: ReplayExtras;
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+/*
+ * Keeps the playback position of a replay and samples its frames at that position,
+ * interpolating positions between frames the same way live snapshots are.
+ */
+export class ReplayPlayer {
+	public playing = true;
+	public speed = 1;
+	public time = 0;
+	public readonly duration: number;
+
+	constructor(public readonly data: ReplayData) {
+		const last = data.frames[data.frames.length - 1];
+		this.duration = last ? last[0] : 0;
+	}
+
+	public advance(dt: number) {
+		if (!this.playing)
+			return;
+		this.time = Math.min(this.duration, this.time + dt * 1000 * this.speed);
+		if (this.time >= this.duration)
+			this.playing = false;
+	}
+
+	public seek(time: number) {
+		this.time = Math.max(0, Math.min(this.duration, time));
+	}
+
+	public togglePlay() {
+		// Playing again from the end starts over
+		if (!this.playing && this.time >= this.duration)
+			this.time = 0;
+		this.playing = !this.playing;
+	}
+
+	public sample(): ReplaySample | null {
+		const frames = this.data.frames;
+		if (!frames.length)
+			return null;
+		// Last frame at or before the playback time
+		let lo = 0;
+		let hi = frames.length - 1;
+		while (lo < hi) {
+			const mid = (lo + hi + 1) >> 1;
+			if (frames[mid][0] <= this.time) lo = mid;
+			else hi = mid - 1;
+		}
+		const from = frames[lo];
+		const to = frames[lo + 1];
+		// The ball is re-centred after a point; jump instead of sliding it across the table
+		const t = to && Math.abs(to[1] - from[1]) <= 3 ? (this.time - from[0]) / (to[0] - from[0]) : 0;
+		const lerp = (i: 1 | 2 | 3 | 4) => to ? from[i] + (to[i] - from[i]) * t : from[i];
+		return {
+			time: this.time,
+			ball: { x: lerp(1), z: lerp(2), color: from[7] },
+			leftPaddle: { z: lerp(3) },
+			rightPaddle: { z: lerp(4) },
+			leftScore: from[5],
+			rightScore: from[6],
+			extras: from[8] ?? {},
+		};
+	}
+}
+
+export function formatReplayTime(ms: number) {
+	const total = Math.floor(ms / 1000);
+	return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
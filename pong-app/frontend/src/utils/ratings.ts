@@ -0,0 +1,22 @@
+// Skill ratings as returned by /game/stats and /game/leaderboard
+
+export type RatedGame = "pingpong" | "keyclash";
+
+export interface GameRating {
+  rating: number;
+  rd: number;
+  peakRating: number;
+  ratedGames: number;
+  lastChange: number | null;
+}
+
+export const RATED_GAMES: { id: RatedGame; label: string }[] = [
+  { id: "pingpong", label: "🏓 Pong" },
+  { id: "keyclash", label: "⌨️ Key Clash" },
+];
+
+export const formatRatingChange = (change: number) =>
+  change > 0 ? `+${change}` : `${change}`;
+
+export const ratingChangeColor = (change: number) =>
+  change > 0 ? "text-green-400" : change < 0 ? "text-red-400" : "text-gray-400";